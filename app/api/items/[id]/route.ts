@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { academicItemSchema } from "@/lib/storage/schema";
+import { deleteItem, getItem, putItem } from "@/lib/server/dashboard-store";
+import { assertMatchingId, errorResponse, parseBody } from "@/lib/server/http";
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getItem(id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PUT /api/items/:id — create or replace
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const item = await parseBody(request, academicItemSchema);
+    assertMatchingId(id, item);
+    const created = await putItem(item);
+    return NextResponse.json(item, { status: created ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    await deleteItem(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
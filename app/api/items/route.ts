@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { academicItemSchema } from "@/lib/storage/schema";
+import { createItems, listItems, replaceItems } from "@/lib/server/dashboard-store";
+import { errorResponse, parseBody } from "@/lib/server/http";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/items?semesterId=&classCode=
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const items = await listItems({
+      semesterId: searchParams.get("semesterId") ?? undefined,
+      classCode: searchParams.get("classCode") ?? undefined,
+    });
+    return NextResponse.json(items);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// POST /api/items — one item or an array of items
+export async function POST(request: Request) {
+  try {
+    const body = await parseBody(request, z.union([academicItemSchema, z.array(academicItemSchema)]));
+    const created = await createItems(Array.isArray(body) ? body : [body]);
+    return NextResponse.json(Array.isArray(body) ? created : created[0], { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PUT /api/items — replace the whole collection
+export async function PUT(request: Request) {
+  try {
+    const items = await parseBody(request, z.array(academicItemSchema));
+    await replaceItems(items);
+    return NextResponse.json(items);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { semesterSchema } from "@/lib/storage/schema";
+import { deleteSemester, getSemester, putSemester } from "@/lib/server/dashboard-store";
+import { assertMatchingId, errorResponse, parseBody } from "@/lib/server/http";
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getSemester(id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PUT /api/semesters/:id — create or replace
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const semester = await parseBody(request, semesterSchema);
+    assertMatchingId(id, semester);
+    const created = await putSemester(semester);
+    return NextResponse.json(semester, { status: created ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// DELETE /api/semesters/:id — also deletes the semester's items
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    await deleteSemester(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { semesterSchema } from "@/lib/storage/schema";
+import { createSemester, listSemesters, replaceSemesters } from "@/lib/server/dashboard-store";
+import { errorResponse, parseBody } from "@/lib/server/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listSemesters());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const semester = await parseBody(request, semesterSchema);
+    return NextResponse.json(await createSemester(semester), { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PUT /api/semesters — replace the whole collection
+export async function PUT(request: Request) {
+  try {
+    const semesters = await parseBody(request, z.array(semesterSchema));
+    await replaceSemesters(semesters);
+    return NextResponse.json(semesters);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
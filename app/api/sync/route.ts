@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { applySync } from "@/lib/server/dashboard-store";
+import { errorResponse, parseBody } from "@/lib/server/http";
+import { partitionChanges, syncRequestSchema } from "@/lib/sync/protocol";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/sync — push queued changes, pull everything after the cursor
+export async function POST(request: Request) {
+  try {
+    const { changes, ...body } = await parseBody(request, syncRequestSchema);
+    const { accepted, rejected } = partitionChanges(changes);
+    return NextResponse.json(await applySync({ ...body, changes: accepted }, rejected));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import React from "react";
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { StoredSnapshot } from "@/lib/storage/schema";
+import {
+  applyRestore,
+  backupFileName,
+  createBackup,
+  parseBackup,
+  previewRestore,
+  type ParsedBackup,
+  type RecordChangeCounts,
+  type RestoreMode,
+} from "@/lib/storage/backup";
+import { AlertCircle, Download, HardDriveDownload, Upload } from "lucide-react";
+
+interface BackupRestoreProps {
+  snapshot: StoredSnapshot;
+  onRestore: (snapshot: StoredSnapshot) => void;
+  /** Controlled open state - when provided with onOpenChange, enables controlled mode */
+  open?: boolean;
+  /** Callback when open state changes - use with open for controlled mode */
+  onOpenChange?: (open: boolean) => void;
+  /** When true, hides the trigger (use with controlled open/onOpenChange for custom triggers) */
+  hideTrigger?: boolean;
+}
+
+function downloadBackup(snapshot: StoredSnapshot) {
+  const blob = new Blob([JSON.stringify(createBackup(snapshot), null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = backupFileName();
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function ChangeRow({ label, counts }: { label: string; counts: RecordChangeCounts }) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex gap-3">
+        <span className="text-primary">+{counts.added} new</span>
+        <span className="text-warning">{counts.updated} changed</span>
+        <span className="text-muted-foreground">{counts.unchanged} same</span>
+        {counts.removed > 0 && (
+          <span className="text-destructive">-{counts.removed} removed</span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+export function BackupRestore({
+  snapshot,
+  onRestore,
+  open: controlledOpen,
+  onOpenChange: controlledOnOpenChange,
+  hideTrigger = false,
+}: BackupRestoreProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined && controlledOnOpenChange !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = isControlled ? controlledOnOpenChange : setInternalOpen;
+
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setBackup(null);
+    setFileName("");
+    setMode("merge");
+    setError("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError("");
+    setBackup(null);
+    setFileName(file.name);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read backup.");
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    onRestore(applyRestore(snapshot, backup.snapshot, mode));
+    reset();
+    setOpen(false);
+  };
+
+  const preview = backup ? previewRestore(snapshot, backup.snapshot, mode) : null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      {!hideTrigger && (
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 hidden md:flex">
+            <HardDriveDownload className="h-4 w-4" />
+            Backup
+          </Button>
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Backup &amp; Restore</DialogTitle>
+          <DialogDescription>
+            Save every semester, class, weight and item to a JSON file, or restore from one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-2">
+          <div className="space-y-2">
+            <Label>Export</Label>
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => downloadBackup(snapshot)}
+            >
+              <Download className="h-4 w-4" />
+              Download backup ({snapshot.semesters.length} semesters, {snapshot.items.length} items)
+            </Button>
+          </div>
+
+          <div className="space-y-3 border-t border-border pt-4">
+            <Label htmlFor="backup-file">Restore</Label>
+            <input
+              ref={fileInputRef}
+              id="backup-file"
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFile}
+            />
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4" />
+              {fileName || "Choose backup file"}
+            </Button>
+
+            {error && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {backup && preview && (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  Exported {new Date(backup.exportedAt).toLocaleString()}
+                </p>
+
+                <RadioGroup
+                  value={mode}
+                  onValueChange={(v) => setMode(v as RestoreMode)}
+                  className="grid-cols-2"
+                >
+                  <Label className="flex items-center gap-2 rounded-lg border border-border p-3 cursor-pointer">
+                    <RadioGroupItem value="merge" />
+                    <span>
+                      <span className="block font-medium">Merge</span>
+                      <span className="block text-xs text-muted-foreground">Keep current data, update matches</span>
+                    </span>
+                  </Label>
+                  <Label className="flex items-center gap-2 rounded-lg border border-border p-3 cursor-pointer">
+                    <RadioGroupItem value="replace" />
+                    <span>
+                      <span className="block font-medium">Replace</span>
+                      <span className="block text-xs text-muted-foreground">Discard current data</span>
+                    </span>
+                  </Label>
+                </RadioGroup>
+
+                <div className="rounded-lg bg-muted/50 p-3 space-y-2">
+                  <ChangeRow label="Semesters" counts={preview.semesters} />
+                  <ChangeRow label="Items" counts={preview.items} />
+                </div>
+
+                {backup.invalid.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 text-warning text-sm">
+                    <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                    <span>
+                      {backup.invalid.length} record(s) in this file are invalid and will be skipped.
+                    </span>
+                  </div>
+                )}
+
+                <Button
+                  className="w-full"
+                  variant={mode === "replace" ? "destructive" : "default"}
+                  onClick={handleRestore}
+                >
+                  {mode === "replace" ? "Replace all data" : "Merge into dashboard"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -320,7 +320,7 @@ export function CalendarView({ items, onStatusChange, onItemUpdate, onDeleteItem
                         variant="ghost"
                         className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
                         onClick={() => {
-                          if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                          onDeleteItem(item.id);
                         }}
                       >
                         <Trash2 className="h-3 w-3" />
@@ -409,7 +409,7 @@ export function CalendarView({ items, onStatusChange, onItemUpdate, onDeleteItem
                           variant="ghost"
                           className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
                           onClick={() => {
-                            if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                            onDeleteItem(item.id);
                           }}
                         >
                           <Trash2 className="h-3 w-3" />
@@ -645,7 +645,7 @@ export function CalendarView({ items, onStatusChange, onItemUpdate, onDeleteItem
                               variant="ghost"
                               className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
                               onClick={() => {
-                                if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                                onDeleteItem(item.id);
                               }}
                             >
                               <Trash2 className="h-3 w-3" />
@@ -792,7 +792,7 @@ export function CalendarView({ items, onStatusChange, onItemUpdate, onDeleteItem
                                                   variant="ghost"
                                                   className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
                                                   onClick={() => {
-                                                    if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                                                    onDeleteItem(item.id);
                                                   }}
                                                 >
                                                   <Trash2 className="h-3 w-3" />
@@ -868,7 +868,7 @@ export function CalendarView({ items, onStatusChange, onItemUpdate, onDeleteItem
                                             variant="ghost"
                                             className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
                                             onClick={() => {
-                                              if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                                              onDeleteItem(item.id);
                                             }}
                                           >
                                             <Trash2 className="h-3 w-3" />
@@ -1029,7 +1029,7 @@ export function CalendarView({ items, onStatusChange, onItemUpdate, onDeleteItem
                                         variant="ghost"
                                         className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
                                         onClick={() => {
-                                          if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                                          onDeleteItem(item.id);
                                         }}
                                       >
                                         <Trash2 className="h-3 w-3" />
@@ -0,0 +1,109 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  IMPORT_FIELDS,
+  duplicateFields,
+  fieldLabel,
+  missingFields,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/column-mapping";
+import type { SpreadsheetSheet } from "@/lib/spreadsheet-parser";
+
+interface ColumnMappingStepProps {
+  sheets: SpreadsheetSheet[];
+  mappings: ColumnMapping[];
+  onChange: (mappings: ColumnMapping[]) => void;
+}
+
+const SAMPLE_ROWS = 3;
+
+/** Problems that keep a sheet's mapping from being imported. */
+export function mappingProblems(mapping: ColumnMapping, hasClassHint = false): string[] {
+  return [
+    ...missingFields(mapping, hasClassHint).map((field) => `Choose a column for ${fieldLabel(field)}.`),
+    ...duplicateFields(mapping).map((field) => `${fieldLabel(field)} is chosen for more than one column.`),
+  ];
+}
+
+function sampleOf(sheet: SpreadsheetSheet, column: number): string {
+  return sheet.rows
+    .slice(0, SAMPLE_ROWS)
+    .map((row) => row.cells[column]?.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function ColumnMappingStep({ sheets, mappings, onChange }: ColumnMappingStepProps) {
+  const setField = (sheetIndex: number, column: number, field: ImportField) =>
+    onChange(
+      mappings.map((mapping, index) =>
+        index === sheetIndex ? mapping.map((f, c) => (c === column ? field : f)) : mapping
+      )
+    );
+
+  return (
+    <div className="space-y-4">
+      {sheets.map((sheet, sheetIndex) => {
+        const mapping = mappings[sheetIndex] ?? [];
+        const problems = mappingProblems(mapping, !!sheet.name);
+        return (
+          <div key={`${sheet.line}-${sheetIndex}`} className="space-y-2">
+            {(sheets.length > 1 || sheet.name) && (
+              <p className="text-sm font-medium">
+                {sheet.name ?? `Sheet ${sheetIndex + 1}`}{" "}
+                <span className="text-xs font-normal text-muted-foreground">
+                  {sheet.name ? "row" : "line"} {sheet.line}, {sheet.rows.length} row{sheet.rows.length === 1 ? "" : "s"}
+                </span>
+              </p>
+            )}
+            {sheet.name && !mapping.includes("class") && (
+              <p className="text-xs text-muted-foreground">
+                With no class column, rows go to a class named after the sheet.
+              </p>
+            )}
+            <div className="rounded-lg border border-border divide-y divide-border">
+              {sheet.header.map((header, column) => (
+                <div key={column} className="grid grid-cols-[1fr_11rem] items-center gap-3 p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{header || `Column ${column + 1}`}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {sampleOf(sheet, column) || "No values"}
+                    </p>
+                  </div>
+                  <Select
+                    value={mapping[column] ?? "ignore"}
+                    onValueChange={(value) => setField(sheetIndex, column, value as ImportField)}
+                  >
+                    <SelectTrigger aria-label={`Field for ${header || `column ${column + 1}`}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORT_FIELDS.map((field) => (
+                        <SelectItem key={field.value} value={field.value}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {problems.map((problem) => (
+              <p key={problem} className="text-xs text-destructive">
+                {problem}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import type { GradeCurve, GradeCurveKind } from "@/lib/data";
+import { CURVE_KINDS } from "@/lib/curves";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface CurveFieldsProps {
+  curve: GradeCurve | undefined;
+  onChange: (curve: GradeCurve | undefined) => void;
+  /** Shown for "no curve", e.g. "Category curve" when the category has one. */
+  noneLabel?: string;
+  label: string;
+  className?: string;
+}
+
+const optionalNumber = (value: string) => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/** Curve kind plus its one setting; used for items and for whole categories. */
+export function CurveFields({ curve, onChange, noneLabel = "No curve", label, className }: CurveFieldsProps) {
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Select
+        value={curve?.kind ?? "none"}
+        onValueChange={(v) =>
+          onChange(v === "none" ? undefined : { kind: v as GradeCurveKind, ...(v === "scale" && { topScore: 100 }) })
+        }
+      >
+        <SelectTrigger className="flex-1 text-xs" aria-label={label}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">{noneLabel}</SelectItem>
+          {CURVE_KINDS.map((kind) => (
+            <SelectItem key={kind.value} value={kind.value}>
+              {kind.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {curve?.kind === "add" && (
+        <div className="flex items-center gap-1">
+          <span className="text-xs">+</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.5}
+            className="w-16 text-xs"
+            value={curve.amount ?? ""}
+            onChange={(e) => onChange({ ...curve, amount: optionalNumber(e.target.value) })}
+            aria-label={`${label}: points to add`}
+          />
+        </div>
+      )}
+      {curve?.kind === "scale" && (
+        <div className="flex items-center gap-1">
+          <span className="text-xs whitespace-nowrap">top</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            className="w-16 text-xs"
+            value={curve.topScore ?? ""}
+            onChange={(e) => onChange({ ...curve, topScore: optionalNumber(e.target.value) })}
+            aria-label={`${label}: top raw score`}
+          />
+          <span className="text-xs">%</span>
+        </div>
+      )}
+    </div>
+  );
+}
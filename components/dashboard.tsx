@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef, useReducer } from "react";
+import { toast } from "sonner";
 import {
   initialItems,
   initialSemesters,
@@ -10,14 +11,48 @@ import {
   type ItemStatus,
   type Semester,
   type ClassInfo,
+  type GradeCategoryWeight,
 } from "@/lib/data";
+import type { StoredSnapshot } from "@/lib/storage/schema";
+import { canRedo, canUndo, createHistory, historyReducer } from "@/lib/history";
+import { applyChangeSet, isEmptyChangeSet } from "@/lib/storage/adapter";
+import {
+  createSyncMessage,
+  createTabChannel,
+  createTabId,
+  mergeRemoteChanges,
+  resolutionChanges,
+  type SyncConflict,
+} from "@/lib/sync/tab-sync";
+import { createDefaultStorageRepository, type StorageRepository } from "@/lib/storage/repository";
+import { isServerSyncEnabled } from "@/lib/storage/server-adapter";
+import { createSyncEngine, type SyncStatus } from "@/lib/sync/sync-engine";
+import { withPercentScore, type GradeWeights } from "@/lib/grades";
+import type { WhatIfState } from "@/lib/what-if";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  listTrash,
+  purgeExpired,
+  purgeFromTrash,
+  restoreFromTrash,
+  setTrashRetentionDays,
+  withoutTrash,
+  type TrashEntry,
+} from "@/lib/trash";
+import { recordGradeChanges } from "@/lib/grade-history";
 import { ItemTable } from "@/components/item-table";
 import { CalendarView } from "@/components/calendar-view";
 import { GradeTracker } from "@/components/grade-tracker";
+import { GpaView } from "@/components/gpa-view";
 import { StatsCards } from "@/components/stats-cards";
 import { AddAssignment } from "@/components/add-assignment";
 import { SemesterManager } from "@/components/semester-manager";
 import { ImportData, type ImportMode } from "@/components/import-data";
+import { BackupRestore } from "@/components/backup-restore";
+import { SyncConflicts } from "@/components/sync-conflicts";
+import { ServerSyncSettings } from "@/components/server-sync-settings";
+import { TrashBin } from "@/components/trash-bin";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
@@ -27,125 +62,275 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { GraduationCap, CalendarDays, List, BarChart3, ClipboardList, Upload, Plus, FileText } from "lucide-react";
+import { GraduationCap, CalendarDays, List, BarChart3, TrendingUp, ClipboardList, Upload, Plus, FileText, HardDriveDownload, Undo2, Redo2, Server, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-const STORAGE_KEY = "academic-dashboard-items";
-const SEMESTERS_STORAGE_KEY = "academic-dashboard-semesters";
-const CURRENT_SEMESTER_KEY = "academic-dashboard-current-semester";
-
-function loadItemsFromStorage(): AcademicItem[] {
-  if (typeof window === "undefined") return [];
-
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored) as AcademicItem[];
-    }
-  } catch (error) {
-    console.error("Failed to load from localStorage:", error);
-  }
-  return [];
-}
-
-function loadSemestersFromStorage(): Semester[] {
-  if (typeof window === "undefined") return initialSemesters;
+type DashboardState = StoredSnapshot;
 
-  try {
-    const stored = localStorage.getItem(SEMESTERS_STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored) as Semester[];
-    }
-  } catch (error) {
-    console.error("Failed to load semesters from localStorage:", error);
-  }
-  return initialSemesters;
-}
-
-function loadCurrentSemesterFromStorage(): string {
-  if (typeof window === "undefined") return "my-semester";
-
-  try {
-    const stored = localStorage.getItem(CURRENT_SEMESTER_KEY);
-    if (stored) {
-      return stored;
-    }
-  } catch (error) {
-    console.error("Failed to load current semester from localStorage:", error);
-  }
-  return "my-semester";
-}
-
-function saveItemsToStorage(items: AcademicItem[]) {
-  if (typeof window === "undefined") return;
-
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-  } catch (error) {
-    console.error("Failed to save to localStorage:", error);
-  }
-}
+const emptyDashboard: DashboardState = {
+  items: [],
+  semesters: initialSemesters,
+  currentSemesterId: "my-semester",
+};
 
-function saveSemestersToStorage(semesters: Semester[]) {
-  if (typeof window === "undefined") return;
+const statusLabels: Record<ItemStatus, string> = {
+  "not-started": "not started",
+  "in-progress": "in progress",
+  completed: "completed",
+};
 
-  try {
-    localStorage.setItem(SEMESTERS_STORAGE_KEY, JSON.stringify(semesters));
-  } catch (error) {
-    console.error("Failed to save semesters to localStorage:", error);
-  }
+function describeTrashEntries(entries: TrashEntry[]): string {
+  return entries.length === 1 ? `"${entries[0].label}"` : `${entries.length} entries`;
 }
 
-function saveCurrentSemesterToStorage(semesterId: string) {
-  if (typeof window === "undefined") return;
-
-  try {
-    localStorage.setItem(CURRENT_SEMESTER_KEY, semesterId);
-  } catch (error) {
-    console.error("Failed to save current semester to localStorage:", error);
-  }
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
 }
 
 export function Dashboard() {
-  const [items, setItems] = useState<AcademicItem[]>([]);
-  const [semesters, setSemesters] = useState<Semester[]>(initialSemesters);
-  const [currentSemesterId, setCurrentSemesterId] = useState("my-semester");
-  const [view, setView] = useState<"list" | "calendar" | "grades">("list");
+  const [history, dispatch] = useReducer(
+    historyReducer<DashboardState>,
+    emptyDashboard,
+    createHistory
+  );
+  const { items: storedItems, semesters: storedSemesters, currentSemesterId } = history.present;
+  // Trashed records stay in state (and storage) but are hidden everywhere else
+  const { items, semesters } = useMemo(
+    () => withoutTrash({ items: storedItems, semesters: storedSemesters }),
+    [storedItems, storedSemesters]
+  );
+  const trashEntries = useMemo(
+    () => listTrash({ items: storedItems, semesters: storedSemesters }),
+    [storedItems, storedSemesters]
+  );
+  const [view, setView] = useState<"list" | "calendar" | "grades" | "gpa">("list");
   const [isLoaded, setIsLoaded] = useState(false);
   const [addSheetOpen, setAddSheetOpen] = useState(false);
   const [addAssignmentOpen, setAddAssignmentOpen] = useState(false);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [serverSyncOpen, setServerSyncOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  const repositoryRef = useRef<StorageRepository | null>(null);
 
-  // Load from localStorage on mount
+  // Load (and migrate) stored data on mount
   useEffect(() => {
-    const loadedItems = loadItemsFromStorage();
-    const loadedSemesters = loadSemestersFromStorage();
-    const loadedCurrentSemester = loadCurrentSemesterFromStorage();
-    setItems(loadedItems);
-    setSemesters(loadedSemesters);
-    setCurrentSemesterId(loadedCurrentSemester);
-    setIsLoaded(true);
+    let cancelled = false;
+    repositoryRef.current ??= createDefaultStorageRepository();
+    const repository = repositoryRef.current;
+    setTrashRetentionDaysState(getTrashRetentionDays());
+
+    repository
+      .load()
+      .then(({ snapshot, quarantined }) => {
+        if (cancelled) return;
+        if (quarantined.length > 0) {
+          console.warn(
+            `Quarantined ${quarantined.length} stored record(s) that could not be migrated.`,
+            quarantined
+          );
+        }
+        if (snapshot) {
+          dispatch({
+            type: "reset",
+            state: {
+              items: snapshot.items,
+              semesters: snapshot.semesters.length > 0 ? snapshot.semesters : initialSemesters,
+              currentSemesterId: snapshot.currentSemesterId || "my-semester",
+            },
+          });
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load stored data:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Save to localStorage whenever items change
+  // Persist only the records that changed since the last write
   useEffect(() => {
     if (isLoaded) {
-      saveItemsToStorage(items);
+      repositoryRef.current?.persist(history.present);
     }
-  }, [items, isLoaded]);
+  }, [history.present, isLoaded]);
 
-  // Save semesters to localStorage
+  // Purge trash past its retention period on load and then hourly; this is
+  // housekeeping rather than an edit, so it is not undoable
   useEffect(() => {
-    if (isLoaded) {
-      saveSemestersToStorage(semesters);
-    }
-  }, [semesters, isLoaded]);
+    if (!isLoaded) return;
+    const purge = () =>
+      dispatch({ type: "rebase", update: (s) => purgeExpired(s, trashRetentionDays) });
+    purge();
+    const interval = setInterval(purge, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isLoaded, trashRetentionDays]);
+
+  // Keep other open tabs in sync, one record at a time
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const presentRef = useRef(history.present);
+  presentRef.current = history.present;
 
-  // Save current semester to localStorage
   useEffect(() => {
-    if (isLoaded) {
-      saveCurrentSemesterToStorage(currentSemesterId);
+    const repository = repositoryRef.current;
+    if (!isLoaded || !repository) return;
+
+    const tabId = createTabId();
+    const channel = createTabChannel((message) => {
+      if (message.tabId === tabId) return;
+      const merge = mergeRemoteChanges(presentRef.current, message);
+      repository.acknowledge(merge.changes);
+      if (!isEmptyChangeSet(merge.changes)) {
+        dispatch({ type: "rebase", update: (s) => applyChangeSet(s, merge.changes) });
+      }
+      if (merge.conflicts.length > 0) {
+        setConflicts((prev) => [
+          ...prev.filter((c) => !merge.conflicts.some((n) => n.kind === c.kind && n.id === c.id)),
+          ...merge.conflicts,
+        ]);
+        toast.warning("Another tab changed something you also edited", { id: "sync-conflict" });
+      }
+    });
+    const unsubscribe = repository.subscribe((changes, previous) => {
+      channel.post(createSyncMessage(tabId, changes, previous));
+    });
+
+    return () => {
+      unsubscribe();
+      channel.close();
+    };
+  }, [isLoaded]);
+
+  // Offline-first server sync: queue local writes, replay them when reachable
+  const [syncStatus, setSyncStatus] = useState<{ status: SyncStatus; pending: number } | null>(null);
+
+  useEffect(() => {
+    const repository = repositoryRef.current;
+    if (!isLoaded || !repository || !isServerSyncEnabled()) return;
+
+    const engine = createSyncEngine({
+      getLocal: () => presentRef.current,
+      onRemoteChanges: (changes) => {
+        repository.applyRemote(changes);
+        dispatch({ type: "rebase", update: (s) => applyChangeSet(s, changes) });
+      },
+      onMerged: (reports) => {
+        const fields = Array.from(new Set(reports.flatMap((r) => r.fields)));
+        toast.info(`Merged edits made on another device (${fields.join(", ")} taken from this one)`, {
+          id: "sync-merge",
+        });
+      },
+      onRejected: (rejected) => {
+        const { items, semesters } = presentRef.current;
+        const names = rejected.map((r) =>
+          r.kind === "item"
+            ? `"${items.find((i) => i.id === r.id)?.title ?? r.id}"`
+            : (semesters.find((sem) => sem.id === r.id)?.name ?? r.id)
+        );
+        toast.warning(`The server refused changes to ${names.join(", ")}; they are kept on this device only`, {
+          id: "sync-rejected",
+        });
+      },
+      onStatusChange: (status, pending) => setSyncStatus({ status, pending }),
+    });
+    const unsubscribe = repository.subscribe((changes, previous, origin) => {
+      if (origin === "local") engine.enqueue(changes, previous);
+    });
+    const stop = engine.start();
+
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [isLoaded]);
+
+  const handleResolveConflict = (conflict: SyncConflict, keep: "local" | "remote") => {
+    const repository = repositoryRef.current;
+    const remote = resolutionChanges(conflict, "remote");
+    // The other tab already wrote its version, so that is the base either way.
+    repository?.acknowledge(remote);
+    if (keep === "local") {
+      repository?.write(resolutionChanges(conflict, "local"));
+    } else {
+      dispatch({ type: "rebase", update: (s) => applyChangeSet(s, remote) });
     }
-  }, [currentSemesterId, isLoaded]);
+    setConflicts((prev) => prev.filter((c) => !(c.kind === conflict.kind && c.id === conflict.id)));
+  };
+
+  const handleUndo = useCallback(() => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    dispatch({ type: "undo" });
+    toast(`Undid: ${entry.label}`, { id: "history" });
+  }, [history.past]);
+
+  const handleRedo = useCallback(() => {
+    const entry = history.future[0];
+    if (!entry) return;
+    dispatch({ type: "redo" });
+    toast(`Redid: ${entry.label}`, { id: "history" });
+  }, [history.future]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  /**
+   * Runs a mutation through history. Destructive ones get an "Undo" toast in
+   * place of a blocking confirm().
+   */
+  const execute = useCallback(
+    (label: string, run: (state: DashboardState) => DashboardState, options: { destructive?: boolean } = {}) => {
+      const id = `edit-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+      dispatch({ type: "execute", command: { id, label, run } });
+      if (options.destructive) {
+        toast(label, {
+          id: "history",
+          // Only undoes this edit, and only while nothing has been done since
+          action: { label: "Undo", onClick: () => dispatch({ type: "undo", entryId: id }) },
+        });
+      } else {
+        toast.dismiss("history");
+      }
+    },
+    []
+  );
+
+  // Every item edit passes through here, so score changes are stamped into their history
+  const updateItems = (state: DashboardState, update: (items: AcademicItem[]) => AcademicItem[]) => ({
+    ...state,
+    items: recordGradeChanges(state.items, update(state.items)),
+  });
+
+  const updateSemesters = (state: DashboardState, update: (semesters: Semester[]) => Semester[]) => ({
+    ...state,
+    semesters: update(state.semesters),
+  });
 
   // Get current semester data
   const currentSemester = useMemo(
@@ -178,72 +363,86 @@ export function Dashboard() {
     });
   }, [items, currentSemesterId, currentClasses]);
 
+  const itemTitle = (id: string) => items.find((i) => i.id === id)?.title ?? "item";
+
   const handleStatusChange = (id: string, status: ItemStatus) => {
-    setItems((prev) =>
-      prev.map((item) => (item.id === id ? { ...item, status } : item))
+    execute(`Marked "${itemTitle(id)}" ${statusLabels[status]}`, (s) =>
+      updateItems(s, (prev) => prev.map((item) => (item.id === id ? { ...item, status } : item)))
     );
   };
 
-  const handleGradeChange = (
-    id: string,
-    grade: number | undefined,
-    isLate?: boolean,
-    daysLate?: number,
-    gradeCategory?: AcademicItem["gradeCategory"]
-  ) => {
-    setItems((prev) =>
-      prev.map((item) =>
-        item.id === id
-          ? {
-              ...item,
-              grade,
-              isLate: isLate || false,
-              daysLate: daysLate || 0,
-              gradeCategory: gradeCategory !== undefined ? gradeCategory : item.gradeCategory,
-              status: grade !== undefined ? "completed" : item.status,
-            }
-          : item
+  /**
+   * Saves a grade from the grade dialog. Keys set to undefined clear that
+   * field (a percent-only grade clears earlier points); the category is kept
+   * when none is given.
+   */
+  const handleGradeChange = (id: string, updates: Partial<AcademicItem>) => {
+    execute(`Graded "${itemTitle(id)}"`, (s) =>
+      updateItems(s, (prev) =>
+        prev.map((item) =>
+          item.id === id
+            ? {
+                ...item,
+                ...updates,
+                gradeCategory: updates.gradeCategory ?? item.gradeCategory,
+                status: updates.grade !== undefined ? "completed" : item.status,
+              }
+            : item
+        )
       )
     );
   };
 
   const handleUpdateGradeWeights = (
     classCode: string,
-    weights: Record<string, { weight: number; label: string }>
+    weights: Record<string, GradeCategoryWeight>
   ) => {
-    setSemesters((prev) =>
-      prev.map((s) =>
-        s.id === currentSemesterId
-          ? {
-              ...s,
-              gradeWeights: {
-                ...s.gradeWeights,
-                [classCode]: weights,
-              },
-            }
-          : s
+    execute(`Changed ${classCode} grade weights`, (s) =>
+      updateSemesters(s, (prev) =>
+        prev.map((sem) =>
+          sem.id === s.currentSemesterId
+            ? {
+                ...sem,
+                gradeWeights: {
+                  ...sem.gradeWeights,
+                  [classCode]: weights,
+                },
+              }
+            : sem
+        )
       )
     );
   };
 
   const handleAddItem = (item: AcademicItem) => {
-    setItems((prev) => [...prev, { ...item, semesterId: currentSemesterId }]);
+    execute(`Added "${item.title}"`, (s) =>
+      updateItems(s, (prev) => [...prev, { ...item, semesterId: s.currentSemesterId }])
+    );
   };
 
-  const handleDeleteItem = useCallback((id: string) => {
-    setItems((prev) => prev.filter((item) => item.id !== id));
-  }, []);
+  const handleDeleteItem = useCallback(
+    (id: string) => {
+      const deletedAt = new Date().toISOString();
+      execute(
+        `Moved "${items.find((i) => i.id === id)?.title ?? "item"}" to the trash`,
+        (s) =>
+          updateItems(s, (prev) => prev.map((item) => (item.id === id ? { ...item, deletedAt } : item))),
+        { destructive: true }
+      );
+    },
+    [execute, items]
+  );
 
   const handleUpdateItem = useCallback(
     (
       id: string,
       updates: Partial<Pick<AcademicItem, "title" | "dueDate" | "time" | "description">>
     ) => {
-      setItems((prev) =>
-        prev.map((item) => (item.id === id ? { ...item, ...updates } : item))
+      execute(`Edited "${items.find((i) => i.id === id)?.title ?? "item"}"`, (s) =>
+        updateItems(s, (prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)))
       );
     },
-    []
+    [execute, items]
   );
 
   const handleBulkUpdate = useCallback(
@@ -252,90 +451,161 @@ export function Dashboard() {
       updates: Partial<Pick<AcademicItem, "type" | "classCode" | "class">>
     ) => {
       const idSet = new Set(ids);
-      setItems((prev) =>
-        prev.map((item) =>
-          idSet.has(item.id) ? { ...item, ...updates } : item
-        )
+      execute(
+        `Updated ${ids.length} item${ids.length === 1 ? "" : "s"}`,
+        (s) =>
+          updateItems(s, (prev) =>
+            prev.map((item) => (idSet.has(item.id) ? { ...item, ...updates } : item))
+          ),
+        { destructive: true }
       );
     },
-    []
+    [execute]
   );
 
   const handleAddItems = (newItems: AcademicItem[]) => {
-    setItems((prev) => [
-      ...prev,
-      ...newItems.map((item) => ({ ...item, semesterId: currentSemesterId })),
-    ]);
+    execute(`Added ${newItems.length} item${newItems.length === 1 ? "" : "s"}`, (s) =>
+      updateItems(s, (prev) => [
+        ...prev,
+        ...newItems.map((item) => ({ ...item, semesterId: s.currentSemesterId })),
+      ])
+    );
   };
 
   // Semester management handlers
   const handleSemesterChange = (semesterId: string) => {
-    setCurrentSemesterId(semesterId);
+    dispatch({ type: "set", update: (s) => ({ ...s, currentSemesterId: semesterId }) });
   };
 
   const handleAddSemester = (semester: Semester) => {
-    setSemesters((prev) => [...prev, semester]);
+    execute(`Added semester "${semester.name}"`, (s) =>
+      updateSemesters(s, (prev) => [...prev, semester])
+    );
   };
 
   const handleUpdateSemester = (
     semesterId: string,
     updates: Partial<Pick<Semester, "name" | "startDate" | "endDate">>
   ) => {
-    setSemesters((prev) =>
-      prev.map((s) => (s.id === semesterId ? { ...s, ...updates } : s))
+    execute("Edited semester", (s) =>
+      updateSemesters(s, (prev) =>
+        prev.map((sem) => (sem.id === semesterId ? { ...sem, ...updates } : sem))
+      )
     );
   };
 
   const handleDeleteSemester = (semesterId: string) => {
-    setSemesters((prev) => prev.filter((s) => s.id !== semesterId));
-    // Also delete items for this semester
-    setItems((prev) => prev.filter((i) => i.semesterId !== semesterId));
-    // Switch to another semester
-    const remaining = semesters.filter((s) => s.id !== semesterId);
-    if (remaining.length > 0) {
-      setCurrentSemesterId(remaining[0].id);
-    }
+    const name = semesters.find((s) => s.id === semesterId)?.name ?? "semester";
+    const deletedAt = new Date().toISOString();
+    execute(
+      `Moved semester "${name}" to the trash`,
+      (s) => {
+        const remaining = s.semesters.filter((sem) => sem.id !== semesterId && !sem.deletedAt);
+        return {
+          // Its items are hidden along with it and come back when it is restored
+          ...s,
+          semesters: s.semesters.map((sem) => (sem.id === semesterId ? { ...sem, deletedAt } : sem)),
+          // Switch to another semester
+          currentSemesterId:
+            s.currentSemesterId === semesterId && remaining.length > 0
+              ? remaining[0].id
+              : s.currentSemesterId,
+        };
+      },
+      { destructive: true }
+    );
   };
 
-  const handleAddClass = (semesterId: string, classInfo: ClassInfo) => {
-    setSemesters((prev) =>
-      prev.map((s) =>
-        s.id === semesterId
-          ? {
-              ...s,
-              classes: [...s.classes, classInfo],
-              gradeWeights: {
-                ...s.gradeWeights,
-                [classInfo.code]: {
-                  exam: { weight: 0.4, label: "Exams" },
-                  final: { weight: 0.25, label: "Final Exam" },
-                  hw: { weight: 0.15, label: "Homework" },
-                  quiz: { weight: 0.1, label: "Quizzes" },
-                  project: { weight: 0.1, label: "Projects" },
+  const handleAddClass = (semesterId: string, classInfo: ClassInfo, weights: GradeWeights) => {
+    const trashed = storedSemesters
+      .find((sem) => sem.id === semesterId)
+      ?.classes.find((c) => c.code === classInfo.code && c.deletedAt);
+    if (trashed) {
+      // Same code as a class in the trash: bring that one back with its items
+      // rather than purging them, and let the toast undo it
+      execute(
+        `Restored ${classInfo.code} from the trash with its items`,
+        (s) =>
+          updateSemesters(restoreFromTrash(s, [{ kind: "class", key: `${semesterId}:${classInfo.code}` }]), (prev) =>
+            prev.map((sem) =>
+              sem.id === semesterId
+                ? {
+                    ...sem,
+                    classes: sem.classes.map((c) => (c.code === classInfo.code ? { ...c, ...classInfo } : c)),
+                    gradeWeights: { ...sem.gradeWeights, [classInfo.code]: weights },
+                  }
+                : sem
+            )
+          ),
+        { destructive: true }
+      );
+      return;
+    }
+
+    execute(`Added ${classInfo.code}`, (s) =>
+      updateSemesters(s, (prev) =>
+        prev.map((sem) =>
+          sem.id === semesterId
+            ? {
+                ...sem,
+                classes: [...sem.classes, classInfo],
+                gradeWeights: {
+                  ...sem.gradeWeights,
+                  [classInfo.code]: weights,
                 },
-              },
-            }
-          : s
+              }
+            : sem
+        )
       )
     );
   };
 
   const handleDeleteClass = (semesterId: string, classCode: string) => {
-    setSemesters((prev) =>
-      prev.map((s) =>
-        s.id === semesterId
-          ? {
-              ...s,
-              classes: s.classes.filter((c) => c.code !== classCode),
-            }
-          : s
-      )
+    const itemCount = items.filter(
+      (i) => i.semesterId === semesterId && i.classCode === classCode
+    ).length;
+    const deletedAt = new Date().toISOString();
+    execute(
+      `Moved ${classCode} and ${itemCount} item${itemCount === 1 ? "" : "s"} to the trash`,
+      // Its items are hidden along with it and come back when it is restored
+      (s) =>
+        updateSemesters(s, (prev) =>
+          prev.map((sem) =>
+            sem.id === semesterId
+              ? {
+                  ...sem,
+                  classes: sem.classes.map((c) =>
+                    c.code === classCode && !c.deletedAt ? { ...c, deletedAt } : c
+                  ),
+                }
+              : sem
+          )
+        ),
+      { destructive: true }
     );
-    // Also delete items for this class in this semester
-    setItems((prev) =>
-      prev.filter(
-        (i) => !(i.semesterId === semesterId && i.classCode === classCode)
-      )
+  };
+
+  const handleCommitWhatIf = ({ scores, weights }: WhatIfState) => {
+    const count = Object.keys(scores).length;
+    execute(
+      count > 0 ? `Applied ${count} what-if score${count === 1 ? "" : "s"}` : "Applied what-if weights",
+      (s) => {
+        const graded = updateItems(s, (prev) =>
+          prev.map((item) =>
+            scores[item.id] !== undefined
+              ? { ...withPercentScore(item, scores[item.id]), status: "completed" as const }
+              : item
+          )
+        );
+        if (Object.keys(weights).length === 0) return graded;
+        return updateSemesters(graded, (prev) =>
+          prev.map((sem) =>
+            sem.id === s.currentSemesterId
+              ? { ...sem, gradeWeights: { ...sem.gradeWeights, ...weights } }
+              : sem
+          )
+        );
+      }
     );
   };
 
@@ -344,16 +614,18 @@ export function Dashboard() {
     classCode: string,
     updates: Partial<ClassInfo>
   ) => {
-    setSemesters((prev) =>
-      prev.map((s) =>
-        s.id === semesterId
-          ? {
-              ...s,
-              classes: s.classes.map((c) =>
-                c.code === classCode ? { ...c, ...updates } : c
-              ),
-            }
-          : s
+    execute(`Edited ${classCode}`, (s) =>
+      updateSemesters(s, (prev) =>
+        prev.map((sem) =>
+          sem.id === semesterId
+            ? {
+                ...sem,
+                classes: sem.classes.map((c) =>
+                  c.code === classCode ? { ...c, ...updates } : c
+                ),
+              }
+            : sem
+        )
       )
     );
   };
@@ -365,13 +637,52 @@ export function Dashboard() {
     mode: ImportMode = "replace",
     updatedSemesters?: Semester[]
   ) => {
-    setItems(newItems);
-    if (mode === "add" && updatedSemesters) {
-      setSemesters(updatedSemesters);
-    } else {
-      setSemesters([newSemester]);
-      setCurrentSemesterId(newSemester.id);
-    }
+    execute(
+      mode === "add" ? "Added from spreadsheet" : "Imported spreadsheet",
+      (s) =>
+        mode === "add" && updatedSemesters
+          ? { ...s, items: recordGradeChanges(s.items, newItems), semesters: updatedSemesters }
+          : { items: newItems, semesters: [newSemester], currentSemesterId: newSemester.id },
+      { destructive: items.length > 0 }
+    );
+  };
+
+  const handleRestore = (snapshot: StoredSnapshot) => {
+    const restoredSemesters = snapshot.semesters.length > 0 ? snapshot.semesters : initialSemesters;
+    execute(
+      "Restored backup",
+      () => ({
+        items: snapshot.items,
+        semesters: restoredSemesters,
+        currentSemesterId: restoredSemesters.some((s) => s.id === snapshot.currentSemesterId)
+          ? snapshot.currentSemesterId
+          : restoredSemesters[0].id,
+      }),
+      { destructive: true }
+    );
+  };
+
+  const handleRestoreFromTrash = (entries: TrashEntry[]) => {
+    execute(`Restored ${describeTrashEntries(entries)} from the trash`, (s) =>
+      restoreFromTrash(s, entries)
+    );
+  };
+
+  const handlePurgeFromTrash = (entries: TrashEntry[]) => {
+    execute(
+      `Permanently deleted ${describeTrashEntries(entries)}`,
+      (s) => purgeFromTrash(s, entries),
+      { destructive: true }
+    );
+  };
+
+  const handleTrashRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    setTrashRetentionDaysState(days);
+  };
+
+  const handleReplaceAll = () => {
+    execute("Cleared all data for a new import", () => emptyDashboard, { destructive: true });
   };
 
   const showImport = items.length === 0 && isLoaded;
@@ -381,14 +692,45 @@ export function Dashboard() {
       <div className="min-h-screen bg-background">
         <header className="border-b border-border">
           <div className="container mx-auto px-4 py-4">
-            <div className="flex items-center gap-3">
-              <div className="p-2 rounded-lg bg-primary/10">
-                <GraduationCap className="h-6 w-6 text-primary" />
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <GraduationCap className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Academic Dashboard</h1>
+                  <p className="text-sm text-muted-foreground">Import your schedule to get started</p>
+                </div>
               </div>
-              <div>
-                <h1 className="text-xl font-bold">Academic Dashboard</h1>
-                <p className="text-sm text-muted-foreground">Import your schedule to get started</p>
+              <div className="flex items-center gap-2">
+                {trashEntries.length > 0 && (
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => setTrashOpen(true)}>
+                    <Trash2 className="h-4 w-4" />
+                    Trash ({trashEntries.length})
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => setBackupOpen(true)}>
+                  <HardDriveDownload className="h-4 w-4" />
+                  Restore backup
+                </Button>
               </div>
+              <BackupRestore
+                snapshot={history.present}
+                onRestore={handleRestore}
+                open={backupOpen}
+                onOpenChange={setBackupOpen}
+                hideTrigger
+              />
+              <TrashBin
+                entries={trashEntries}
+                retentionDays={trashRetentionDays}
+                onRetentionChange={handleTrashRetentionChange}
+                onRestore={handleRestoreFromTrash}
+                onPurge={handlePurgeFromTrash}
+                open={trashOpen}
+                onOpenChange={setTrashOpen}
+                hideTrigger
+              />
             </div>
           </div>
         </header>
@@ -424,6 +766,26 @@ export function Dashboard() {
               </div>
             </div>
             <div className="flex items-center gap-1 md:gap-2 shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleUndo}
+                disabled={!canUndo(history)}
+                title={canUndo(history) ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+                aria-label="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleRedo}
+                disabled={!canRedo(history)}
+                title={canRedo(history) ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                aria-label="Redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
               <Sheet open={addSheetOpen} onOpenChange={setAddSheetOpen}>
                 <SheetTrigger asChild>
                   <Button variant="outline" size="sm" className="gap-2 hidden md:flex">
@@ -438,9 +800,9 @@ export function Dashboard() {
                   <div className="mt-6">
                     <ImportData
                       mode="add"
-                      existingItems={items}
+                      existingItems={storedItems}
                       existingClasses={currentClasses}
-                      existingSemesters={semesters}
+                      existingSemesters={storedSemesters}
                       currentSemesterId={currentSemesterId}
                       onImport={(mergedItems, _classes, _sem, mode, updatedSems) => {
                         handleImportData(mergedItems, _classes, _sem, mode, updatedSems);
@@ -454,17 +816,32 @@ export function Dashboard() {
                 variant="outline"
                 size="sm"
                 className="gap-2 hidden md:flex"
-                onClick={() => {
-                  if (confirm("Replace all data with a new import? Current assignments will be cleared.")) {
-                    setItems([]);
-                    setSemesters(initialSemesters);
-                    setCurrentSemesterId("my-semester");
-                  }
-                }}
+                onClick={handleReplaceAll}
               >
                 <Upload className="h-4 w-4" />
                 Replace all
               </Button>
+              <BackupRestore
+                snapshot={history.present}
+                onRestore={handleRestore}
+                open={backupOpen}
+                onOpenChange={setBackupOpen}
+              />
+              <ServerSyncSettings
+                snapshot={history.present}
+                syncStatus={syncStatus}
+                open={serverSyncOpen}
+                onOpenChange={setServerSyncOpen}
+              />
+              <TrashBin
+                entries={trashEntries}
+                retentionDays={trashRetentionDays}
+                onRetentionChange={handleTrashRetentionChange}
+                onRestore={handleRestoreFromTrash}
+                onPurge={handlePurgeFromTrash}
+                open={trashOpen}
+                onOpenChange={setTrashOpen}
+              />
               <div className="hidden md:inline-flex">
                 <AddAssignment
                   onAddItem={handleAddItem}
@@ -502,12 +879,30 @@ export function Dashboard() {
                   </DropdownMenuItem>
                   <DropdownMenuItem
                     onSelect={() => {
-                      if (confirm("Replace all data with a new import? Current assignments will be cleared.")) {
-                        setItems([]);
-                        setSemesters(initialSemesters);
-                        setCurrentSemesterId("my-semester");
-                      }
+                      setBackupOpen(true);
+                    }}
+                  >
+                    <HardDriveDownload className="h-4 w-4" />
+                    Backup &amp; Restore
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      setServerSyncOpen(true);
+                    }}
+                  >
+                    <Server className="h-4 w-4" />
+                    Server sync
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      setTrashOpen(true);
                     }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Trash{trashEntries.length > 0 && ` (${trashEntries.length})`}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={handleReplaceAll}
                   >
                     <Upload className="h-4 w-4" />
                     Replace all
@@ -526,7 +921,7 @@ export function Dashboard() {
               </div>
               <Tabs
                 value={view}
-                onValueChange={(v) => setView(v as "list" | "calendar" | "grades")}
+                onValueChange={(v) => setView(v as "list" | "calendar" | "grades" | "gpa")}
                 className="hidden md:block"
               >
                 <TabsList className="bg-secondary">
@@ -551,6 +946,13 @@ export function Dashboard() {
                     <BarChart3 className="h-4 w-4" />
                     <span className="hidden sm:inline">Grades</span>
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="gpa"
+                    className="gap-2 data-[state=active]:bg-background"
+                  >
+                    <TrendingUp className="h-4 w-4" />
+                    <span className="hidden sm:inline">GPA</span>
+                  </TabsTrigger>
                 </TabsList>
               </Tabs>
             </div>
@@ -559,6 +961,8 @@ export function Dashboard() {
       </header>
 
       <main className="container mx-auto px-4 py-6 pb-24 md:pb-6 space-y-6 min-h-0 overflow-x-hidden">
+        <SyncConflicts conflicts={conflicts} onResolve={handleResolveConflict} />
+
         <StatsCards items={currentItems} />
 
         <div className="rounded-xl border border-border bg-card p-4 md:p-6 overflow-x-hidden">
@@ -581,12 +985,23 @@ export function Dashboard() {
               onDeleteItem={handleDeleteItem}
               classes={currentClasses}
             />
+          ) : view === "gpa" ? (
+            <GpaView
+              items={items}
+              semesters={semesters}
+              currentSemesterId={currentSemesterId}
+              onUpdateClass={handleUpdateClass}
+            />
           ) : (
             <GradeTracker
               items={currentItems}
               classes={currentClasses}
               gradeWeights={currentGradeWeights}
               onUpdateGradeWeights={handleUpdateGradeWeights}
+              onUpdateClass={(classCode, updates) =>
+                handleUpdateClass(currentSemesterId, classCode, updates)
+              }
+              onCommitWhatIf={handleCommitWhatIf}
             />
           )}
         </div>
@@ -597,7 +1012,7 @@ export function Dashboard() {
         className="fixed bottom-0 left-0 right-0 z-40 md:hidden border-t border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 pb-[env(safe-area-inset-bottom)]"
         aria-label="Main navigation"
       >
-        <div className="grid grid-cols-3 min-h-[64px]">
+        <div className="grid grid-cols-4 min-h-[64px]">
           <button
             type="button"
             onClick={() => setView("list")}
@@ -628,6 +1043,21 @@ export function Dashboard() {
             <BarChart3 className="h-5 w-5" />
             <span>Grades</span>
           </button>
+          <button
+            type="button"
+            onClick={() => setView("gpa")}
+            className={cn(
+              "flex flex-col items-center justify-center gap-1 text-sm transition-colors min-h-[44px] min-w-[44px]",
+              view === "gpa"
+                ? "text-primary font-medium"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+            aria-current={view === "gpa" ? "page" : undefined}
+            aria-label="GPA"
+          >
+            <TrendingUp className="h-5 w-5" />
+            <span>GPA</span>
+          </button>
           <button
             type="button"
             onClick={() => setView("calendar")}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { AcademicItem, ClassInfo, Semester } from "@/lib/data";
+import { DEFAULT_CREDITS, computeGpa, getGpaScale, setGpaScale, type GpaScale } from "@/lib/gpa";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface GpaViewProps {
+  items: AcademicItem[];
+  semesters: Semester[];
+  currentSemesterId: string;
+  onUpdateClass?: (semesterId: string, classCode: string, updates: Partial<ClassInfo>) => void;
+}
+
+const chartConfig = {
+  term: { label: "Term GPA", color: "var(--chart-2)" },
+  cumulative: { label: "Cumulative GPA", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const formatGpa = (gpa: number | null) => (gpa !== null ? gpa.toFixed(2) : "--");
+
+export function GpaView({ items, semesters, currentSemesterId, onUpdateClass }: GpaViewProps) {
+  const [scale, setScale] = useState<GpaScale>("4.0");
+
+  useEffect(() => {
+    setScale(getGpaScale());
+  }, []);
+
+  const summary = useMemo(() => computeGpa(items, semesters, scale), [items, semesters, scale]);
+  const currentTerm = summary.terms.find((t) => t.semesterId === currentSemesterId);
+  const chartData = summary.terms
+    .filter((t) => t.gpa !== null)
+    .map((t) => ({
+      name: t.name,
+      term: Number(t.gpa!.toFixed(2)),
+      cumulative: t.cumulativeGpa !== null ? Number(t.cumulativeGpa.toFixed(2)) : null,
+    }));
+  const maxPoints = scale === "4.3" ? 4.3 : 4;
+
+  const handleScaleChange = (value: string) => {
+    const next = value as GpaScale;
+    setScale(next);
+    setGpaScale(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Cumulative GPA</p>
+            <p className="text-3xl font-bold">{formatGpa(summary.cumulativeGpa)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">This term</p>
+            <p className="text-3xl font-bold">{formatGpa(currentTerm?.gpa ?? null)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Credits earned</p>
+            <p className="text-3xl font-bold">{summary.earnedCredits}</p>
+            <p className="text-xs text-muted-foreground">{summary.gpaCredits} counted toward GPA</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle>GPA Trend</CardTitle>
+          <Select value={scale} onValueChange={handleScaleChange}>
+            <SelectTrigger className="w-32" aria-label="GPA scale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="4.0">4.0 scale</SelectItem>
+              <SelectItem value="4.3">4.3 scale</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              Add grades to see your GPA over time.
+            </p>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis domain={[0, maxPoints]} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line
+                  dataKey="term"
+                  type="monotone"
+                  stroke="var(--color-term)"
+                  strokeWidth={2}
+                  dot
+                />
+                <Line
+                  dataKey="cumulative"
+                  type="monotone"
+                  stroke="var(--color-cumulative)"
+                  strokeWidth={2}
+                  dot
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {[...summary.terms].reverse().map((term) => (
+        <Card key={term.semesterId} className="bg-card border-border">
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+            <CardTitle className="text-lg">{term.name}</CardTitle>
+            <div className="text-right text-sm">
+              <p>
+                GPA <span className="font-semibold">{formatGpa(term.gpa)}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Cumulative {formatGpa(term.cumulativeGpa)}
+              </p>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {term.classes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No classes.</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {term.classes.map((entry) => (
+                  <div key={entry.classCode} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium">{entry.classCode}</p>
+                      <p className="text-xs text-muted-foreground truncate">{entry.name}</p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {entry.passFail && (
+                        <Badge variant="secondary" className="text-xs">
+                          Pass/fail
+                        </Badge>
+                      )}
+                      <span className={cn("w-16 text-right", !entry.counted && "text-muted-foreground")}>
+                        {entry.letter ?? "--"}
+                        {entry.points !== undefined && (
+                          <span className="text-xs text-muted-foreground"> {entry.points.toFixed(1)}</span>
+                        )}
+                      </span>
+                      {onUpdateClass ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            key={entry.credits}
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            className="w-16 h-8 text-xs"
+                            defaultValue={entry.credits}
+                            aria-label={`Credits for ${entry.classCode}`}
+                            onBlur={(e) => {
+                              const credits = Number.parseFloat(e.target.value);
+                              if (Number.isFinite(credits) && credits >= 0 && credits !== entry.credits) {
+                                onUpdateClass(term.semesterId, entry.classCode, { credits });
+                              }
+                            }}
+                          />
+                          <span className="text-xs text-muted-foreground">cr</span>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">{entry.credits} cr</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Classes without a credit count use {DEFAULT_CREDITS}. Pass/fail and ungraded classes are
+        left out of GPA.
+      </p>
+    </div>
+  );
+}
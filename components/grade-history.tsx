@@ -0,0 +1,164 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import type { AcademicItem, ClassInfo } from "@/lib/data";
+import type { GradeWeights } from "@/lib/grades";
+import { gradeTimeline, gradeTrend } from "@/lib/grade-history";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+
+interface GradeHistoryProps {
+  items: AcademicItem[];
+  classInfo: ClassInfo;
+  classList: ClassInfo[];
+  gradeWeightsMap: Record<string, GradeWeights>;
+}
+
+const CATEGORY_COLORS = ["var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"];
+const TIMELINE_LIMIT = 8;
+
+const formatPercent = (percent: number | null) => (percent !== null ? `${percent.toFixed(0)}%` : "--");
+
+export function GradeHistory({ items, classInfo, classList, gradeWeightsMap }: GradeHistoryProps) {
+  const [open, setOpen] = useState(false);
+
+  // Replaying the class once per day with a change is not free, so only while open
+  const trend = useMemo(
+    () => (open ? gradeTrend(items, classInfo.code, classList, gradeWeightsMap) : null),
+    [open, items, classInfo.code, classList, gradeWeightsMap]
+  );
+  const timeline = useMemo(
+    () => (open ? gradeTimeline(items.filter((item) => item.classCode === classInfo.code)) : []),
+    [open, items, classInfo.code]
+  );
+
+  const weights = gradeWeightsMap[classInfo.code] ?? {};
+  const categories = trend
+    ? [...new Set(trend.points.flatMap((point) => Object.keys(point.categories)))]
+    : [];
+  const chartConfig: ChartConfig = {
+    overall: { label: "Class grade", color: "var(--chart-1)" },
+    ...Object.fromEntries(
+      categories.map((cat, index) => [
+        cat,
+        { label: weights[cat]?.label ?? cat, color: CATEGORY_COLORS[index % CATEGORY_COLORS.length] },
+      ])
+    ),
+  };
+  const chartData = (trend?.points ?? []).map((point) => ({
+    time: point.time,
+    overall: point.overall !== null ? Number(point.overall.toFixed(1)) : null,
+    ...Object.fromEntries(
+      Object.entries(point.categories).map(([cat, percent]) => [cat, Number(percent.toFixed(1))])
+    ),
+  }));
+  const times = [...chartData.map((d) => d.time), ...(trend?.exams ?? []).map((e) => e.time)];
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-t border-border pt-3">
+      <CollapsibleTrigger asChild>
+        <button className="flex w-full items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <History className="h-4 w-4" />
+          Grade history
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-3">
+        {chartData.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No grades yet.</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ left: 0, right: 12, top: 16 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={[Math.min(...times), Math.max(...times)]}
+                tickFormatter={(time: number) => format(time, "MMM d")}
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+              />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? format(payload[0].payload.time as number, "MMM d, yyyy") : ""
+                    }
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {trend?.exams.map((exam) => (
+                <ReferenceLine
+                  key={`${exam.title}-${exam.time}`}
+                  x={exam.time}
+                  stroke={exam.isFinal ? "var(--destructive)" : "var(--muted-foreground)"}
+                  strokeDasharray="4 4"
+                  label={{ value: exam.title, position: "top", fontSize: 10, fill: "var(--muted-foreground)" }}
+                />
+              ))}
+              {categories.map((cat) => (
+                <Line
+                  key={cat}
+                  dataKey={cat}
+                  type="stepAfter"
+                  stroke={`var(--color-${cat})`}
+                  strokeWidth={1.5}
+                  strokeDasharray="3 3"
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+              <Line
+                dataKey="overall"
+                type="stepAfter"
+                stroke="var(--color-overall)"
+                strokeWidth={2}
+                dot
+                connectNulls
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {timeline.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {timeline.slice(0, TIMELINE_LIMIT).map((entry) => (
+              <li key={`${entry.item.id}-${entry.at}`} className="flex items-center justify-between gap-2">
+                <span className="truncate">
+                  <span className="text-muted-foreground">{format(new Date(entry.at), "MMM d")}</span>{" "}
+                  {entry.item.title}
+                </span>
+                <span className="shrink-0 text-muted-foreground">
+                  {entry.from === null ? formatPercent(entry.to) : `${formatPercent(entry.from)} → ${formatPercent(entry.to)}`}
+                </span>
+              </li>
+            ))}
+            {timeline.length > TIMELINE_LIMIT && (
+              <li className="text-muted-foreground">
+                and {timeline.length - TIMELINE_LIMIT} earlier change{timeline.length - TIMELINE_LIMIT === 1 ? "" : "s"}
+              </li>
+            )}
+          </ul>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
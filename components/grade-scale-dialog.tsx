@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ClassInfo, GradeScale } from "@/lib/data";
+import {
+  GRADE_SCALE_PRESETS,
+  gradeScaleFor,
+  matchingPreset,
+  sortedCutoffs,
+  validateGradeScale,
+} from "@/lib/grade-scales";
+import { Award, Plus, Trash2 } from "lucide-react";
+
+interface GradeScaleDialogProps {
+  classInfo: ClassInfo;
+  onSave: (updates: Pick<ClassInfo, "gradeScale">) => void;
+}
+
+/** Cutoffs as the editor holds them, with numbers still as typed. */
+interface CutoffRow {
+  letter: string;
+  min: string;
+  points: string;
+}
+
+function toRows(scale: GradeScale): CutoffRow[] {
+  return sortedCutoffs(scale).map((c) => ({
+    letter: c.letter,
+    min: String(c.min),
+    points: c.points === undefined ? "" : String(c.points),
+  }));
+}
+
+function toScale(rows: CutoffRow[], passFail: boolean): GradeScale {
+  return {
+    ...(passFail && { passFail: true }),
+    cutoffs: rows.map((row) => {
+      const points = Number.parseFloat(row.points);
+      return {
+        letter: row.letter.trim(),
+        min: Number.parseFloat(row.min) || 0,
+        ...(!passFail && Number.isFinite(points) && { points }),
+      };
+    }),
+  };
+}
+
+export function GradeScaleDialog({ classInfo, onSave }: GradeScaleDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<CutoffRow[]>(() => toRows(gradeScaleFor(classInfo)));
+  const [passFail, setPassFail] = useState(!!classInfo.gradeScale?.passFail);
+
+  const scale = toScale(rows, passFail);
+  const errors = validateGradeScale(scale);
+  const preset = matchingPreset(scale);
+
+  const loadScale = (next: GradeScale) => {
+    setRows(toRows(next));
+    setPassFail(!!next.passFail);
+  };
+
+  const updateRow = (index: number, updates: Partial<CutoffRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave({ gradeScale: { ...scale, cutoffs: sortedCutoffs(scale) } });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) loadScale(gradeScaleFor(classInfo));
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 text-muted-foreground"
+          title="Grade scale"
+          aria-label={`Grade scale for ${classInfo.code}`}
+        >
+          <Award className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Grade Scale - {classInfo.code}</DialogTitle>
+          <DialogDescription>
+            A grade earns the first letter whose minimum it reaches.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Start from</Label>
+            <Select
+              value={preset?.id ?? "custom"}
+              onValueChange={(id) => {
+                const chosen = GRADE_SCALE_PRESETS.find((p) => p.id === id);
+                if (chosen) loadScale(chosen.scale);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRADE_SCALE_PRESETS.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+                {!preset && <SelectItem value="custom">Custom</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="pass-fail">Pass/fail (not counted in GPA)</Label>
+            <Switch id="pass-fail" checked={passFail} onCheckedChange={setPassFail} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_1fr_2rem] gap-2 text-xs text-muted-foreground">
+              <span>Letter</span>
+              <span>Min %</span>
+              <span>{passFail ? "" : "GPA points"}</span>
+              <span />
+            </div>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_2rem] gap-2 items-center">
+                  <Input
+                    value={row.letter}
+                    aria-label="Letter"
+                    onChange={(e) => updateRow(index, { letter: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={row.min}
+                    aria-label={`Minimum percent for ${row.letter}`}
+                    onChange={(e) => updateRow(index, { min: e.target.value })}
+                  />
+                  {passFail ? (
+                    <span />
+                  ) : (
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={row.points}
+                      aria-label={`GPA points for ${row.letter}`}
+                      onChange={(e) => updateRow(index, { points: e.target.value })}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label={`Remove ${row.letter}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full gap-1"
+              onClick={() => setRows((prev) => [...prev, { letter: "", min: "", points: "" }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add grade
+            </Button>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={errors.length > 0}>
+              Save Scale
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { AcademicItem, ClassInfo } from "@/lib/data";
+import type { GradeWeights } from "@/lib/grades";
+import { solveGradeTargets, type SolveFor } from "@/lib/grade-targets";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { ChevronDown, ChevronRight, Target } from "lucide-react";
+
+interface GradeTargetsProps {
+  items: AcademicItem[];
+  classInfo: ClassInfo;
+  classList: ClassInfo[];
+  gradeWeightsMap: Record<string, GradeWeights>;
+}
+
+export function GradeTargets({ items, classInfo, classList, gradeWeightsMap }: GradeTargetsProps) {
+  const [open, setOpen] = useState(false);
+  const [solveFor, setSolveFor] = useState<SolveFor>("remaining");
+
+  // Each solve simulates the class many times, so only solve while open
+  const overall = useMemo(
+    () => (open ? solveGradeTargets(items, classInfo.code, classList, gradeWeightsMap, "remaining") : null),
+    [open, items, classInfo.code, classList, gradeWeightsMap]
+  );
+  // "Final only" needs a final and something else still to be graded
+  const canSolveForFinal =
+    !!overall?.final && overall.remaining.length + overall.unscheduled.length > 1;
+  const finalOnly = useMemo(
+    () =>
+      open && canSolveForFinal && solveFor === "final"
+        ? solveGradeTargets(items, classInfo.code, classList, gradeWeightsMap, "final")
+        : null,
+    [open, canSolveForFinal, solveFor, items, classInfo.code, classList, gradeWeightsMap]
+  );
+  const solution = finalOnly ?? overall;
+
+  const remainingLabel = solution
+    ? [
+        `${solution.remaining.length} ungraded item${solution.remaining.length === 1 ? "" : "s"}`,
+        solution.unscheduled.length > 0 &&
+          `${solution.unscheduled.length} categor${solution.unscheduled.length === 1 ? "y" : "ies"} with nothing scheduled`,
+      ]
+        .filter(Boolean)
+        .join(" + ")
+    : "";
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-t border-border pt-3">
+      <CollapsibleTrigger asChild>
+        <button className="flex w-full items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <Target className="h-4 w-4" />
+          What do I need?
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-3">
+        {!solution && (
+          <p className="text-xs text-muted-foreground">Everything in this class is graded.</p>
+        )}
+        {canSolveForFinal && (
+          <div className="flex rounded-md border border-border p-0.5 w-fit">
+            {(["remaining", "final"] as const).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={solveFor === option ? "secondary" : "ghost"}
+                className="h-7 px-2 text-xs"
+                onClick={() => setSolveFor(option)}
+              >
+                {option === "remaining" ? "All remaining work" : "Final only"}
+              </Button>
+            ))}
+          </div>
+        )}
+        {solution && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {solution.solveFor === "final" && solution.final
+                ? `Score needed on ${solution.final.title}, with the rest of your work at your current category averages.`
+                : `Average needed across ${remainingLabel}.`}
+            </p>
+            <ul className="space-y-1 text-sm">
+              {solution.targets.map((target) => (
+                <li key={target.letter} className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {target.letter}{" "}
+                    <span className="text-xs font-normal text-muted-foreground">({target.min}%+)</span>
+                  </span>
+                  <span
+                    className={cn(
+                      "text-right",
+                      target.status === "secured" && "text-primary",
+                      target.status === "impossible" && "text-muted-foreground line-through",
+                      target.status === "reachable" && target.needed !== null && target.needed > 90 && "text-warning"
+                    )}
+                  >
+                    {target.status === "secured"
+                      ? "Locked in"
+                      : target.status === "impossible"
+                        ? `Out of reach (max ${target.best.toFixed(1)}%)`
+                        : `${target.needed?.toFixed(1)}%`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
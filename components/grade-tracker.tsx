@@ -1,8 +1,39 @@
 "use client";
 
-import { useState } from "react";
-import type { AcademicItem, ClassInfo } from "@/lib/data";
-import { defaultClasses, defaultGradeWeights, calculateLatePenalty } from "@/lib/data";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  AcademicItem,
+  ClassInfo,
+  GradeCategoryWeight,
+  GradeCurve,
+  GradingMode,
+  ReplacementRule,
+} from "@/lib/data";
+import { defaultClasses, defaultGradeWeights } from "@/lib/data";
+import {
+  BONUS_CATEGORY,
+  calculateClassGrade,
+  itemScore,
+  regularWeightTotal,
+  type PassConditionResult,
+} from "@/lib/grades";
+import { describeLatePolicy, latePolicyFor } from "@/lib/late-policy";
+import { gradeScaleFor, letterFor } from "@/lib/grade-scales";
+import { describeConsequence, describePassCondition } from "@/lib/pass-conditions";
+import { describeCurve, validateCurve } from "@/lib/curves";
+import { getGpaScale, type GpaScale } from "@/lib/gpa";
+import {
+  EMPTY_WHAT_IF,
+  applyWhatIf,
+  hasWhatIfChanges,
+  invalidWhatIfWeights,
+  projectSemester,
+  type WhatIfState,
+} from "@/lib/what-if";
+import { GradeTargets } from "@/components/grade-targets";
+import { GradeHistory } from "@/components/grade-history";
+import { PassConditionsDialog } from "@/components/pass-conditions-dialog";
+import { CurveFields } from "@/components/curve-fields";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
@@ -17,7 +48,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
-import { AlertTriangle, Pencil, Check, X, Plus, Trash2 } from "lucide-react";
+import { AlertTriangle, Pencil, Check, X, Plus, Trash2, FlaskConical } from "lucide-react";
 
 const CATEGORY_OPTIONS = [
   { key: "exam", label: "Exams" },
@@ -27,139 +58,73 @@ const CATEGORY_OPTIONS = [
   { key: "project", label: "Projects" },
   { key: "lab", label: "Lab" },
   { key: "participation", label: "Participation" },
+  { key: BONUS_CATEGORY, label: "Bonus" },
 ];
 
 interface GradeTrackerProps {
   items: AcademicItem[];
   classes?: ClassInfo[];
-  gradeWeights?: Record<string, Record<string, { weight: number; label: string }>>;
-  onUpdateGradeWeights?: (classCode: string, weights: Record<string, { weight: number; label: string }>) => void;
+  gradeWeights?: Record<string, Record<string, GradeCategoryWeight>>;
+  onUpdateGradeWeights?: (classCode: string, weights: Record<string, GradeCategoryWeight>) => void;
+  onUpdateClass?: (classCode: string, updates: Partial<ClassInfo>) => void;
+  /** Writes the what-if sandbox's scores and weights to the real records. */
+  onCommitWhatIf?: (state: WhatIfState) => void;
 }
 
 const classes = defaultClasses;
 const gradeWeights = defaultGradeWeights;
 
-function getLetterGrade(percent: number): { letter: string; color: string } {
-  if (percent >= 93) return { letter: "A", color: "text-primary" };
-  if (percent >= 90) return { letter: "A-", color: "text-primary" };
-  if (percent >= 87) return { letter: "B+", color: "text-chart-1" };
-  if (percent >= 83) return { letter: "B", color: "text-chart-1" };
-  if (percent >= 80) return { letter: "B-", color: "text-chart-1" };
-  if (percent >= 77) return { letter: "C+", color: "text-warning" };
-  if (percent >= 73) return { letter: "C", color: "text-warning" };
-  if (percent >= 70) return { letter: "C-", color: "text-warning" };
-  if (percent >= 67) return { letter: "D+", color: "text-destructive" };
-  if (percent >= 63) return { letter: "D", color: "text-destructive" };
-  if (percent >= 60) return { letter: "D-", color: "text-destructive" };
-  return { letter: "F", color: "text-destructive" };
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(1);
 }
 
-function calculateClassGrade(
-  items: AcademicItem[],
-  classCode: string,
-  classList: ClassInfo[],
-  gradeWeightsMap: Record<string, Record<string, { weight: number; label: string }>>
-): {
-  currentGrade: number | null;
-  earnedPoints: number;
-  possiblePoints: number;
-  categoryBreakdown: Record<
-    string,
-    { earned: number; possible: number; items: number; weight: number }
-  >;
-  hasFinalWarning: boolean;
-} {
-  const classItems = items.filter(
-    (item) => item.classCode === classCode && item.gradeCategory
-  );
-  const weights = gradeWeightsMap[classCode];
-  const classInfo = classList.find((c) => c.code === classCode);
-
-  if (!weights)
-    return {
-      currentGrade: null,
-      earnedPoints: 0,
-      possiblePoints: 0,
-      categoryBreakdown: {},
-      hasFinalWarning: false,
-    };
-
-  const categoryBreakdown: Record<
-    string,
-    { earned: number; possible: number; items: number; weight: number }
-  > = {};
-
-  // Initialize categories
-  for (const [cat, info] of Object.entries(weights)) {
-    categoryBreakdown[cat] = {
-      earned: 0,
-      possible: 0,
-      items: 0,
-      weight: info.weight,
-    };
-  }
-
-  // Check for final exam status
-  const finalExam = classItems.find((item) => item.isFinal);
-  const hasFinalWarning =
-    !!classInfo?.killSwitch &&
-    finalExam &&
-    finalExam.status !== "completed" &&
-    !finalExam.grade;
-
-  // Calculate grades per category
-  for (const item of classItems) {
-    const cat = item.gradeCategory!;
-    if (!categoryBreakdown[cat]) continue;
-
-    if (item.grade !== undefined) {
-      let effectiveGrade = item.grade;
-
-      // Apply late penalty if applicable
-      if (item.isLate && item.daysLate && item.daysLate > 0) {
-        effectiveGrade = calculateLatePenalty(
-          item.grade,
-          item.daysLate,
-          classCode
-        );
-      }
-
-      categoryBreakdown[cat].earned += effectiveGrade;
-      categoryBreakdown[cat].possible += 100;
-      categoryBreakdown[cat].items += 1;
-    }
-  }
-
-  // Calculate weighted average based on graded items only
-  let totalWeightedEarned = 0;
-  let totalWeightUsed = 0;
-
-  for (const [cat, data] of Object.entries(categoryBreakdown)) {
-    if (data.possible > 0) {
-      const categoryPercent = (data.earned / data.possible) * 100;
-      totalWeightedEarned += categoryPercent * data.weight;
-      totalWeightUsed += data.weight;
-    }
-  }
+/** How far a pass condition is from its threshold, e.g. "72.0% · 12.0 pts above". */
+function describeMargin(result: PassConditionResult): string {
+  if (result.current === null || result.margin === null) return "Not graded yet";
+  const distance = `${Math.abs(result.margin).toFixed(1)} pts ${result.margin < 0 ? "below" : "above"}`;
+  return `${result.current.toFixed(1)}% · ${distance}`;
+}
 
-  const currentGrade =
-    totalWeightUsed > 0 ? totalWeightedEarned / totalWeightUsed : null;
+const CONDITION_STATUS_COLORS: Record<PassConditionResult["status"], string> = {
+  pending: "text-muted-foreground",
+  met: "text-primary",
+  "at-risk": "text-warning",
+  violated: "text-destructive",
+};
 
-  return {
-    currentGrade,
-    earnedPoints: totalWeightedEarned,
-    possiblePoints: totalWeightUsed * 100,
-    categoryBreakdown,
-    hasFinalWarning,
-  };
-}
+const GRADING_MODE_OPTIONS: { value: GradingMode; label: string }[] = [
+  { value: "weighted", label: "Weighted categories" },
+  { value: "points", label: "Total points" },
+];
 
-export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeWeightsProp, onUpdateGradeWeights }: GradeTrackerProps) {
+export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeWeightsProp, onUpdateGradeWeights, onUpdateClass, onCommitWhatIf }: GradeTrackerProps) {
   const classList = classesProp || defaultClasses;
   const gradeWeightsMap = gradeWeightsProp || defaultGradeWeights;
+  const [whatIfActive, setWhatIfActive] = useState(false);
+  const [whatIf, setWhatIf] = useState<WhatIfState>(EMPTY_WHAT_IF);
+  const [gpaScale, setScale] = useState<GpaScale>("4.0");
+  useEffect(() => {
+    setScale(getGpaScale());
+  }, []);
+  // Everything below reads the sandbox view; the real records stay untouched until commit
+  const sandbox = useMemo(
+    () => (whatIfActive ? applyWhatIf(items, gradeWeightsMap, whatIf) : null),
+    [whatIfActive, items, gradeWeightsMap, whatIf]
+  );
+  const viewItems = sandbox?.items ?? items;
+  const viewWeights = sandbox?.gradeWeightsMap ?? gradeWeightsMap;
   const [editingClass, setEditingClass] = useState<string | null>(null);
-  const [editWeights, setEditWeights] = useState<Record<string, Record<string, { weight: number; label: string }>>>({});
-  const classesWithWarnings = classList.filter((c) => c.killSwitch);
+  const [editWeights, setEditWeights] = useState<Record<string, Record<string, GradeCategoryWeight>>>({});
+  const [editRules, setEditRules] = useState<ReplacementRule[]>([]);
+  // Alerts follow the real records, not the what-if sandbox
+  const conditionWarnings = classList
+    .map((classInfo) => ({
+      classInfo,
+      conditions: calculateClassGrade(items, classInfo.code, classList, gradeWeightsMap).conditions.filter(
+        (c) => c.status === "violated" || c.status === "at-risk"
+      ),
+    }))
+    .filter(({ conditions }) => conditions.length > 0);
 
   const startEditing = (classCode: string) => {
     setEditingClass(classCode);
@@ -170,6 +135,8 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
         Object.entries(current).map(([k, v]) => [k, { ...v }])
       ),
     }));
+    const classInfo = classList.find((c) => c.code === classCode);
+    setEditRules((classInfo?.replacementRules ?? []).map((rule) => ({ ...rule })));
   };
 
   const cancelEditing = (classCode: string) => {
@@ -184,10 +151,15 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
   const saveEditing = (classCode: string) => {
     const weights = editWeights[classCode];
     if (weights && onUpdateGradeWeights) {
-      const total = Object.values(weights).reduce((s, w) => s + w.weight, 0);
-      if (Math.abs(total - 1) > 0.01) return;
+      if (Math.abs(regularWeightTotal(weights) - 1) > 0.01) return;
+      if (Object.values(weights).some((w) => w.curve && validateCurve(w.curve).length > 0)) return;
       onUpdateGradeWeights(classCode, weights);
     }
+    const classInfo = classList.find((c) => c.code === classCode);
+    const rules = editRules.filter((rule) => rule.source !== rule.target);
+    if (onUpdateClass && JSON.stringify(rules) !== JSON.stringify(classInfo?.replacementRules ?? [])) {
+      onUpdateClass(classCode, { replacementRules: rules });
+    }
     setEditingClass(null);
     setEditWeights((prev) => {
       const next = { ...prev };
@@ -201,6 +173,7 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
       const classWeights = { ...(prev[classCode] || {}) };
       const existing = classWeights[catKey];
       classWeights[catKey] = {
+        ...existing,
         weight: Math.max(0, Math.min(1, weight)),
         label: label ?? existing?.label ?? catKey,
       };
@@ -208,6 +181,76 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
     });
   };
 
+  const updateDropLowest = (classCode: string, catKey: string, count: number) => {
+    setEditWeights((prev) => {
+      const classWeights = { ...(prev[classCode] || {}) };
+      const { dropLowest: _dropLowest, ...existing } = classWeights[catKey];
+      classWeights[catKey] = count > 0 ? { ...existing, dropLowest: count } : existing;
+      return { ...prev, [classCode]: classWeights };
+    });
+  };
+
+  const updateCurve = (classCode: string, catKey: string, curve: GradeCurve | undefined) => {
+    setEditWeights((prev) => {
+      const classWeights = { ...(prev[classCode] || {}) };
+      const { curve: _curve, ...existing } = classWeights[catKey];
+      classWeights[catKey] = curve ? { ...existing, curve } : existing;
+      return { ...prev, [classCode]: classWeights };
+    });
+  };
+
+  const updateRule = (index: number, updates: Partial<ReplacementRule>) => {
+    setEditRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const addRule = (classCode: string) => {
+    const categories = Object.keys(editWeights[classCode] || {});
+    const source = categories.includes("final") ? "final" : categories[0];
+    const target = categories.find((c) => c === "exam") ?? categories.find((c) => c !== source);
+    if (!source || !target) return;
+    setEditRules((prev) => [...prev, { source, target, count: 1 }]);
+  };
+
+  const startWhatIf = () => {
+    setEditingClass(null);
+    setWhatIf(EMPTY_WHAT_IF);
+    setWhatIfActive(true);
+  };
+
+  const exitWhatIf = () => {
+    setWhatIfActive(false);
+    setWhatIf(EMPTY_WHAT_IF);
+  };
+
+  const commitWhatIf = () => {
+    onCommitWhatIf?.(whatIf);
+    exitWhatIf();
+  };
+
+  const setWhatIfScore = (itemId: string, value: string) => {
+    const percent = Number.parseFloat(value);
+    setWhatIf((prev) => {
+      const scores = { ...prev.scores };
+      if (value === "" || Number.isNaN(percent)) delete scores[itemId];
+      else scores[itemId] = Math.max(0, percent);
+      return { ...prev, scores };
+    });
+  };
+
+  const setWhatIfWeight = (classCode: string, catKey: string, weight: number) => {
+    setWhatIf((prev) => {
+      const classWeights = { ...(prev.weights[classCode] ?? gradeWeightsMap[classCode] ?? {}) };
+      classWeights[catKey] = { ...classWeights[catKey], weight: Math.max(0, Math.min(1, weight)) };
+      return { ...prev, weights: { ...prev.weights, [classCode]: classWeights } };
+    });
+  };
+
+  const semesterNow = projectSemester(items, classList, gradeWeightsMap, gpaScale);
+  const semesterProjected = sandbox
+    ? projectSemester(sandbox.items, classList, sandbox.gradeWeightsMap, gpaScale)
+    : semesterNow;
+  const invalidWeights = invalidWhatIfWeights(whatIf);
+
   const addCategory = (classCode: string) => {
     const existing = editWeights[classCode] || {};
     const used = new Set(Object.keys(existing));
@@ -229,48 +272,160 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
       delete classWeights[catKey];
       return { ...prev, [classCode]: classWeights };
     });
+    setEditRules((prev) => prev.filter((rule) => rule.source !== catKey && rule.target !== catKey));
   };
 
   return (
     <div className="space-y-6">
-      {/* Kill Switch Warnings */}
-      {classesWithWarnings.map((classInfo) => {
-        const { hasFinalWarning } = calculateClassGrade(items, classInfo.code, classList, gradeWeightsMap);
-        if (!hasFinalWarning) return null;
-
-        return (
-          <Alert
-            key={classInfo.code}
-            variant="destructive"
-            className="border-destructive/50 bg-destructive/10"
-          >
-            <AlertTriangle className="h-4 w-4" />
-            <AlertTitle className="font-semibold">
-              {classInfo.code} Warning
-            </AlertTitle>
-            <AlertDescription>{classInfo.killSwitch}</AlertDescription>
-          </Alert>
-        );
-      })}
+      {/* What-if Sandbox */}
+      {classList.length > 0 && (
+        whatIfActive ? (
+          <Card className="border-primary/50 bg-primary/5">
+            <CardContent className="pt-6 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <FlaskConical className="h-5 w-5 text-primary" />
+                  <div>
+                    <p className="font-semibold">What-if mode</p>
+                    <p className="text-xs text-muted-foreground">
+                      Enter hypothetical scores and weights below. Nothing is saved until you commit.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={exitWhatIf}>
+                    Discard
+                  </Button>
+                  {onCommitWhatIf && (
+                    <Button
+                      size="sm"
+                      onClick={commitWhatIf}
+                      disabled={!hasWhatIfChanges(whatIf) || invalidWeights.length > 0}
+                    >
+                      Commit
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                <span>
+                  Semester average:{" "}
+                  <span className="font-medium">
+                    {semesterProjected.average !== null ? `${semesterProjected.average.toFixed(1)}%` : "--"}
+                  </span>
+                  {semesterNow.average !== null && semesterProjected.average !== semesterNow.average && (
+                    <span className="text-muted-foreground"> (now {semesterNow.average.toFixed(1)}%)</span>
+                  )}
+                </span>
+                <span>
+                  Projected GPA:{" "}
+                  <span className="font-medium">
+                    {semesterProjected.gpa !== null ? semesterProjected.gpa.toFixed(2) : "--"}
+                  </span>
+                  {semesterNow.gpa !== null && semesterProjected.gpa !== semesterNow.gpa && (
+                    <span className="text-muted-foreground"> (now {semesterNow.gpa.toFixed(2)})</span>
+                  )}
+                </span>
+              </div>
+              {invalidWeights.length > 0 && (
+                <p className="text-xs text-destructive">
+                  Weights for {invalidWeights.join(", ")} must add up to 100% before committing.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" className="gap-2" onClick={startWhatIf}>
+              <FlaskConical className="h-4 w-4" />
+              What-if
+            </Button>
+          </div>
+        )
+      )}
+
+      {/* Pass Condition Warnings */}
+      {conditionWarnings.map(({ classInfo, conditions }) => (
+        <Alert
+          key={classInfo.code}
+          variant="destructive"
+          className="border-destructive/50 bg-destructive/10"
+        >
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle className="font-semibold">
+            {classInfo.code} Warning
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="space-y-1">
+              {conditions.map((result) => (
+                <li key={result.condition.id}>
+                  {result.status === "violated"
+                    ? `${result.subject} is below ${result.condition.min}%, which ${describeConsequence(result.condition)}`
+                    : `${result.subject} is within ${result.margin?.toFixed(1)} pts of the ${result.condition.min}% minimum`}
+                  {result.status === "violated" && !result.settled && " once it's all graded"}.
+                  {result.condition.note && ` ${result.condition.note}`}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      ))}
 
       {/* Grade Cards per Class */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {classList.map((classInfo) => {
-          const { currentGrade, categoryBreakdown } = calculateClassGrade(
-            items,
-            classInfo.code,
-            classList,
-            gradeWeightsMap
-          );
-          const letterGrade = currentGrade
-            ? getLetterGrade(currentGrade)
+          const {
+            mode,
+            currentGrade,
+            earnedPoints,
+            possiblePoints,
+            categoryBreakdown,
+            conditions,
+            failed,
+            extraCredit,
+            extraCreditCapped,
+          } = calculateClassGrade(viewItems, classInfo.code, classList, viewWeights);
+          const realGrade = sandbox
+            ? calculateClassGrade(items, classInfo.code, classList, gradeWeightsMap).currentGrade
+            : currentGrade;
+          const ungradedItems = whatIfActive
+            ? items.filter(
+                (item) =>
+                  item.classCode === classInfo.code &&
+                  (item.gradeCategory || mode === "points") &&
+                  !itemScore(item)
+              )
+            : [];
+          const isPointsMode = mode === "points";
+          const gradeScale = gradeScaleFor(classInfo);
+          const letterGrade = currentGrade !== null
+            ? letterFor(currentGrade, gradeScale, failed)
             : null;
-          const weights = gradeWeightsMap[classInfo.code];
+          const weights = viewWeights[classInfo.code];
           const isEditing = editingClass === classInfo.code;
+          const latePolicy = latePolicyFor(classInfo);
           const displayWeights = isEditing ? (editWeights[classInfo.code] || weights || {}) : (weights || {});
+          // In points mode, categories that only appear on items are listed too
+          const displayCategories: Record<string, GradeCategoryWeight> =
+            isPointsMode && !isEditing
+              ? {
+                  ...displayWeights,
+                  ...Object.fromEntries(
+                    Object.keys(categoryBreakdown)
+                      .filter((cat) => !displayWeights[cat])
+                      .map((cat) => [
+                        cat,
+                        { weight: 0, label: CATEGORY_OPTIONS.find((c) => c.key === cat)?.label ?? cat },
+                      ])
+                  ),
+                }
+              : displayWeights;
           const editTotal = isEditing
-            ? Object.values(editWeights[classInfo.code] || {}).reduce((s, w) => s + w.weight, 0)
+            ? regularWeightTotal(editWeights[classInfo.code] || {})
             : 1;
+          const curvesValid = Object.values(editWeights[classInfo.code] || {}).every(
+            (w) => !w.curve || validateCurve(w.curve).length === 0
+          );
           const totalValid = Math.abs(editTotal - 1) < 0.01;
 
           return (
@@ -299,9 +454,31 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
                         >
                           {letterGrade?.letter}
                         </p>
-                        <p className="text-sm text-muted-foreground">
-                          {currentGrade.toFixed(1)}%
-                        </p>
+                        <div className="text-right">
+                          <p className="text-sm text-muted-foreground">
+                            {currentGrade.toFixed(1)}%
+                          </p>
+                          {sandbox && realGrade !== currentGrade && (
+                            <p className="text-xs text-muted-foreground">
+                              now {realGrade !== null ? `${realGrade.toFixed(1)}%` : "--"}
+                            </p>
+                          )}
+                          {isPointsMode && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatPoints(earnedPoints)}/{formatPoints(possiblePoints)} pts
+                            </p>
+                          )}
+                          {extraCredit > 0 && (
+                            <p className="text-xs text-primary">
+                              +{extraCredit.toFixed(1)} extra{extraCreditCapped && " (capped)"}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {gradeScale.passFail
+                              ? "Pass/fail"
+                              : letterGrade?.points !== undefined && `${letterGrade.points.toFixed(1)} GPA`}
+                          </p>
+                        </div>
                       </>
                     )}
                     {currentGrade === null && !isEditing && (
@@ -309,14 +486,22 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
                         No grades yet
                       </p>
                     )}
-                    {onUpdateGradeWeights && (
+                    {onUpdateClass && !whatIfActive && !isEditing && (
+                      <PassConditionsDialog
+                        classInfo={classInfo}
+                        classItems={items.filter((item) => item.classCode === classInfo.code)}
+                        weights={weights || {}}
+                        onSave={(updates) => onUpdateClass(classInfo.code, updates)}
+                      />
+                    )}
+                    {onUpdateGradeWeights && !whatIfActive && (
                       isEditing ? (
                         <div className="flex gap-2">
                           <Button
                             size="icon"
                             variant="ghost"
                             onClick={() => saveEditing(classInfo.code)}
-                            disabled={!totalValid}
+                            disabled={!totalValid || !curvesValid}
                             title="Save"
                             aria-label="Save weights"
                           >
@@ -352,74 +537,214 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
                   <Progress value={currentGrade} className="h-2" />
                 )}
 
+                {isEditing && onUpdateClass && (
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-muted-foreground">Grade by</span>
+                    <Select
+                      value={mode}
+                      onValueChange={(v) => onUpdateClass(classInfo.code, { gradingMode: v as GradingMode })}
+                    >
+                      <SelectTrigger className="w-44 min-h-[44px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GRADING_MODE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {isEditing && onUpdateClass && (
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-muted-foreground">Extra credit cap</span>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        key={classInfo.extraCreditCap ?? "none"}
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        placeholder="No cap"
+                        className="w-24 min-h-[44px] text-xs"
+                        defaultValue={classInfo.extraCreditCap ?? ""}
+                        aria-label={`Extra credit cap for ${classInfo.code}`}
+                        onBlur={(e) => {
+                          const cap = Number.parseFloat(e.target.value);
+                          const next = Number.isFinite(cap) && cap >= 0 ? cap : undefined;
+                          if (next !== classInfo.extraCreditCap) {
+                            onUpdateClass(classInfo.code, { extraCreditCap: next });
+                          }
+                        }}
+                      />
+                      <span className="text-xs">pts</span>
+                    </div>
+                  </div>
+                )}
+
                 {/* Category Breakdown */}
                 <div className="space-y-3">
-                  {Object.keys(displayWeights).length === 0 && !isEditing && (
+                  {Object.keys(displayCategories).length === 0 && !isEditing && (
                     <p className="text-sm text-muted-foreground">
-                      No categories set. Click the pencil to add.
+                      {isPointsMode
+                        ? "No graded items yet."
+                        : "No categories set. Click the pencil to add."}
                     </p>
                   )}
-                  {Object.entries(displayWeights).map(([cat, info]) => {
+                  {isEditing && isPointsMode && (
+                    <p className="text-xs text-muted-foreground">
+                      Total points mode ignores these weights.
+                    </p>
+                  )}
+                  {Object.entries(displayCategories).map(([cat, info]) => {
                     const catData = categoryBreakdown[cat];
+                    const isBonus = cat === BONUS_CATEGORY;
+                    // Extra credit shows in the category's percent, which can pass 100
                     const catPercent =
                       catData && catData.possible > 0
-                        ? (catData.earned / catData.possible) * 100
+                        ? ((catData.earned + catData.extra) / catData.possible) * 100
                         : null;
 
                     return (
-                      <div key={cat} className="flex items-center justify-between text-sm gap-2">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <span className="text-muted-foreground truncate">
-                            {info.label}
-                          </span>
-                          {isEditing ? (
-                            <div className="flex items-center gap-2">
-                              <Input
-                                type="number"
-                                min={0}
-                                max={100}
-                                step={5}
-                                className="w-16 min-h-[44px] text-xs"
-                                value={Math.round(info.weight * 100)}
-                                onChange={(e) => {
-                                  const v = Number.parseInt(e.target.value, 10);
-                                  if (!Number.isNaN(v)) {
-                                    updateEditWeight(classInfo.code, cat, v / 100, info.label);
-                                  }
-                                }}
-                              />
-                              <span className="text-xs">%</span>
-                              <Button
-                                size="icon"
-                                variant="ghost"
-                                className="text-destructive hover:text-destructive"
-                                onClick={() => removeCategory(classInfo.code, cat)}
-                                aria-label={`Remove ${info.label} category`}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          ) : (
-                            <Badge variant="secondary" className="text-xs">
-                              {(info.weight * 100).toFixed(0)}%
-                            </Badge>
-                          )}
-                        </div>
-                        {!isEditing && (
-                          <div className="flex items-center gap-2 shrink-0">
-                            {catData && catData.items > 0 ? (
-                              <>
-                                <span className="font-medium">
-                                  {catPercent?.toFixed(1)}%
-                                </span>
-                                <span className="text-muted-foreground">
-                                  ({catData.items} graded)
-                                </span>
-                              </>
+                      <div key={cat} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className="text-muted-foreground truncate">
+                              {info.label}
+                            </span>
+                            {isEditing ? (
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  max={100}
+                                  step={5}
+                                  className="w-16 min-h-[44px] text-xs"
+                                  value={Math.round(info.weight * 100)}
+                                  onChange={(e) => {
+                                    const v = Number.parseInt(e.target.value, 10);
+                                    if (!Number.isNaN(v)) {
+                                      updateEditWeight(classInfo.code, cat, v / 100, info.label);
+                                    }
+                                  }}
+                                />
+                                <span className="text-xs">%</span>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  step={1}
+                                  className="w-14 min-h-[44px] text-xs"
+                                  value={info.dropLowest ?? 0}
+                                  onChange={(e) => {
+                                    const v = Number.parseInt(e.target.value, 10);
+                                    updateDropLowest(classInfo.code, cat, Number.isNaN(v) ? 0 : Math.max(0, v));
+                                  }}
+                                  title="Drop lowest"
+                                  aria-label={`Drop lowest ${info.label} scores`}
+                                />
+                                <span className="text-xs whitespace-nowrap">dropped</span>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="text-destructive hover:text-destructive"
+                                  onClick={() => removeCategory(classInfo.code, cat)}
+                                  aria-label={`Remove ${info.label} category`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ) : isPointsMode ? (
+                              catData && catData.possible > 0 && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {formatPoints(catData.earned)}/{formatPoints(catData.possible)} pts
+                                </Badge>
+                              )
+                            ) : whatIfActive ? (
+                              <div className="flex items-center gap-1">
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  max={100}
+                                  step={5}
+                                  className="w-16 h-7 text-xs"
+                                  value={Math.round(info.weight * 100)}
+                                  onChange={(e) => {
+                                    const v = Number.parseInt(e.target.value, 10);
+                                    if (!Number.isNaN(v)) setWhatIfWeight(classInfo.code, cat, v / 100);
+                                  }}
+                                  aria-label={`What-if weight for ${info.label}`}
+                                />
+                                <span className="text-xs">%</span>
+                              </div>
                             ) : (
-                              <span className="text-muted-foreground">--</span>
+                              <Badge variant="secondary" className="text-xs">
+                                {isBonus ? `up to +${(info.weight * 100).toFixed(0)}` : `${(info.weight * 100).toFixed(0)}%`}
+                              </Badge>
+                            )}
+                            {!isEditing && !!info.dropLowest && (
+                              <Badge variant="outline" className="text-xs">
+                                drop {info.dropLowest}
+                              </Badge>
+                            )}
+                            {!isEditing && info.curve && (
+                              <Badge variant="outline" className="text-xs">
+                                curve {describeCurve(info.curve)}
+                              </Badge>
                             )}
                           </div>
+                          {!isEditing && (
+                            <div className="flex items-center gap-2 shrink-0">
+                              {catData && catData.items > 0 ? (
+                                <>
+                                  <span className="font-medium">
+                                    {catPercent?.toFixed(1)}%
+                                  </span>
+                                  <span className="text-muted-foreground">
+                                    ({catData.items} graded)
+                                  </span>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">--</span>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        {!isEditing && catData && catData.dropped.length > 0 && (
+                          <p className="text-xs text-muted-foreground pl-2">
+                            Dropped:{" "}
+                            {catData.dropped
+                              .map((d) => `${d.item.title} (${((d.earned / d.possible) * 100).toFixed(0)}%)`)
+                              .join(", ")}
+                          </p>
+                        )}
+                        {isEditing && (
+                          <CurveFields
+                            curve={info.curve}
+                            onChange={(curve) => updateCurve(classInfo.code, cat, curve)}
+                            label={`${info.label} curve`}
+                            className="pl-2"
+                          />
+                        )}
+                        {isEditing && info.curve && validateCurve(info.curve).map((error) => (
+                          <p key={error} className="text-xs text-destructive pl-2">{error}</p>
+                        ))}
+                        {!isEditing && catData && catData.curved.length > 0 && (
+                          <p className="text-xs text-muted-foreground pl-2">
+                            Curved:{" "}
+                            {catData.curved
+                              .map((c) => `${c.item.title} ${c.rawPercent.toFixed(0)}% → ${c.curvedPercent.toFixed(0)}%`)
+                              .join(", ")}
+                          </p>
+                        )}
+                        {!isEditing && catData && catData.replaced.length > 0 && (
+                          <p className="text-xs text-muted-foreground pl-2">
+                            Replaced:{" "}
+                            {catData.replaced
+                              .map((r) => `${r.item.title} → ${r.toPercent.toFixed(0)}% (${r.source})`)
+                              .join(", ")}
+                          </p>
                         )}
                       </div>
                     );
@@ -440,15 +765,147 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
                         totalValid ? "text-muted-foreground" : "text-destructive"
                       )}>
                         Total: {(editTotal * 100).toFixed(0)}% {totalValid ? "(must equal 100%)" : "— Must equal 100%"}
+                        {displayWeights[BONUS_CATEGORY] && "; Bonus adds on top"}
                       </p>
                     </div>
                   )}
+                  {isEditing && onUpdateClass && (
+                    <div className="pt-2 border-t border-border space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        Replacement rules raise the lowest scores in one category to another
+                        category&apos;s average when that helps.
+                      </p>
+                      {editRules.map((rule, index) => (
+                        <div key={index} className="flex items-center gap-2 text-xs">
+                          <Select value={rule.source} onValueChange={(v) => updateRule(index, { source: v })}>
+                            <SelectTrigger className="min-h-[44px] flex-1 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(displayWeights).map(([key, w]) => (
+                                <SelectItem key={key} value={key}>
+                                  {w.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <span className="whitespace-nowrap">replaces lowest</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            className="w-14 min-h-[44px] text-xs"
+                            value={rule.count ?? 1}
+                            onChange={(e) => {
+                              const v = Number.parseInt(e.target.value, 10);
+                              if (!Number.isNaN(v) && v > 0) updateRule(index, { count: v });
+                            }}
+                            aria-label="Number of scores to replace"
+                          />
+                          <Select value={rule.target} onValueChange={(v) => updateRule(index, { target: v })}>
+                            <SelectTrigger className="min-h-[44px] flex-1 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(displayWeights).map(([key, w]) => (
+                                <SelectItem key={key} value={key}>
+                                  {w.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="text-destructive hover:text-destructive shrink-0"
+                            onClick={() => setEditRules((prev) => prev.filter((_, i) => i !== index))}
+                            aria-label="Remove replacement rule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1 w-full"
+                        onClick={() => addRule(classInfo.code)}
+                        disabled={Object.keys(displayWeights).length < 2}
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add replacement rule
+                      </Button>
+                    </div>
+                  )}
                 </div>
 
+                {ungradedItems.length > 0 && (
+                  <div className="border-t border-border pt-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">Hypothetical scores</p>
+                    {ungradedItems.map((item) => (
+                      <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{item.title}</span>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Input
+                            type="number"
+                            min={0}
+                            step={1}
+                            placeholder="--"
+                            className="w-20 h-7 text-xs"
+                            value={whatIf.scores[item.id] ?? ""}
+                            onChange={(e) => setWhatIfScore(item.id, e.target.value)}
+                            aria-label={`Hypothetical score for ${item.title}`}
+                          />
+                          <span className="text-xs">%</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {conditions.length > 0 && !isEditing && (
+                  <div className="border-t border-border pt-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Pass conditions{failed && " · class failed"}
+                    </p>
+                    {conditions.map((result) => (
+                      <div key={result.condition.id} className="flex items-start justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="truncate">{describePassCondition(result.condition, result.subject)}</p>
+                          {result.condition.note && (
+                            <p className="text-xs text-muted-foreground truncate">{result.condition.note}</p>
+                          )}
+                        </div>
+                        <span className={cn("shrink-0 text-xs text-right", CONDITION_STATUS_COLORS[result.status])}>
+                          {describeMargin(result)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!isEditing && (
+                  <GradeTargets
+                    items={viewItems}
+                    classInfo={classInfo}
+                    classList={classList}
+                    gradeWeightsMap={viewWeights}
+                  />
+                )}
+
+                {!isEditing && !whatIfActive && (
+                  <GradeHistory
+                    items={items}
+                    classInfo={classInfo}
+                    classList={classList}
+                    gradeWeightsMap={gradeWeightsMap}
+                  />
+                )}
+
                 {/* Late Penalty Notice */}
-                {classInfo.hasLatePenalty && !isEditing && (
+                {latePolicy && !isEditing && (
                   <p className="text-xs text-muted-foreground border-t border-border pt-3">
-                    Late penalty: -10% per day late
+                    Late penalty: {describeLatePolicy(latePolicy)}
                   </p>
                 )}
               </CardContent>
@@ -465,14 +922,14 @@ export function GradeTracker({ items, classes: classesProp, gradeWeights: gradeW
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             {classList.map((classInfo) => {
-              const { currentGrade } = calculateClassGrade(
-                items,
+              const { currentGrade, failed } = calculateClassGrade(
+                viewItems,
                 classInfo.code,
                 classList,
-                gradeWeightsMap
+                viewWeights
               );
-              const letterGrade = currentGrade
-                ? getLetterGrade(currentGrade)
+              const letterGrade = currentGrade !== null
+                ? letterFor(currentGrade, gradeScaleFor(classInfo), failed)
                 : null;
 
               return (
@@ -1,12 +1,53 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { parseSpreadsheet } from "@/lib/spreadsheet-parser";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ColumnMappingStep, mappingProblems } from "@/components/column-mapping-step";
+import { ImportPreview } from "@/components/import-preview";
+import {
+  parseSheets,
+  readSheets,
+  readWorkbookSheets,
+  rowLocation,
+  type ParseResult,
+  type ParseRowError,
+  type SpreadsheetSheet,
+} from "@/lib/spreadsheet-parser";
+import { isIcsText, parseIcs } from "@/lib/ics-parser";
+import {
+  detectColumnMapping,
+  getSavedColumnNames,
+  rememberColumnMapping,
+  type ColumnMapping,
+} from "@/lib/column-mapping";
 import type { AcademicItem, ClassInfo, Semester } from "@/lib/data";
-import { Upload, FileSpreadsheet, ChevronRight, AlertCircle } from "lucide-react";
+import { readWorkbook, workbookKind } from "@/lib/workbook";
+import { cn } from "@/lib/utils";
+import {
+  applyImport,
+  defaultSelection,
+  previewImport,
+  type ImportPreviewRow,
+} from "@/lib/import-preview";
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  describeTemplate,
+  findTemplate,
+  getWeightTemplates,
+  weightsFromTemplate,
+  type WeightTemplate,
+} from "@/lib/weight-templates";
+import { Upload, FileSpreadsheet, FolderOpen, ChevronLeft, ChevronRight, AlertCircle } from "lucide-react";
 
 export type ImportMode = "replace" | "add";
 
@@ -31,6 +72,14 @@ MATH101	Quiz 1	quiz	2/20/2026	In Class
 CS200	Project Proposal	project	3/1/2026
 ENG101	Essay Draft	assignment	2/25/2026	11:59 PM`;
 
+const ROW_ERROR_LIMIT = 3;
+
+function describeRowErrors(errors: ParseRowError[]): string {
+  const shown = errors.slice(0, ROW_ERROR_LIMIT).map((e) => `${rowLocation(e)}: ${e.message}.`);
+  if (errors.length > ROW_ERROR_LIMIT) shown.push(`And ${errors.length - ROW_ERROR_LIMIT} more.`);
+  return shown.join(" ");
+}
+
 export function ImportData({
   onImport,
   mode = "replace",
@@ -40,74 +89,128 @@ export function ImportData({
   currentSemesterId = "my-semester",
 }: ImportDataProps) {
   const [pasteText, setPasteText] = useState("");
+  const [step, setStep] = useState<"paste" | "map" | "preview">("paste");
+  // Calendars have no columns to match, so they go straight to the preview
+  const [fromCalendar, setFromCalendar] = useState(false);
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [rowErrors, setRowErrors] = useState<ParseRowError[]>([]);
+  const [importedClasses, setImportedClasses] = useState<ClassInfo[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
   const [error, setError] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isParsing, setIsParsing] = useState(false);
+  const [templates, setTemplates] = useState<WeightTemplate[]>(BUILT_IN_TEMPLATES);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
   const isAddMode = mode === "add";
+  const template = findTemplate(templates, templateId);
+  const targetSemester = isAddMode
+    ? (existingSemesters.find((s) => s.id === currentSemesterId) ?? existingSemesters[0])
+    : undefined;
 
-  const handleImport = () => {
+  useEffect(() => {
+    setTemplates(getWeightTemplates());
+  }, []);
+
+  const mappingsValid = mappings.every(
+    (mapping, index) => mappingProblems(mapping, !!sheets[index]?.name).length === 0
+  );
+
+  const isCalendar = isIcsText(pasteText);
+
+  const handleContinue = () => {
     setError("");
     if (!pasteText.trim()) {
       setError("Please paste your spreadsheet data first.");
       return;
     }
 
+    if (isCalendar) previewCalendar(pasteText);
+    else startMapping(readSheets(pasteText));
+  };
+
+  const startMapping = (read: SpreadsheetSheet[]) => {
+    if (read.length === 0) {
+      setError("No valid rows found. Make sure your data has a header row and at least one row of assignments. Use Tab, comma or semicolon to separate columns.");
+      return;
+    }
+    const saved = getSavedColumnNames();
+    setSheets(read);
+    setMappings(read.map((sheet) => detectColumnMapping(sheet.header, saved)));
+    setStep("map");
+  };
+
+  const handleFile = async (file: File) => {
+    setError("");
     setIsParsing(true);
     try {
-      const { items, classes } = parseSpreadsheet(pasteText);
-      if (items.length === 0) {
-        setError("No valid rows found. Make sure your data has a header row and at least one row of assignments. Use Tab or comma to separate columns.");
-        setIsParsing(false);
-        return;
-      }
-
-      const semester: Semester = {
-        id: `semester-${Date.now()}`,
-        name: "My Semester",
-        startDate: new Date().toISOString().slice(0, 10),
-        endDate: new Date(Date.now() + 120 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
-        classes,
-        gradeWeights: Object.fromEntries(
-          classes.map((c) => [
-            c.code,
-            {
-              exam: { weight: 0.4, label: "Exams" },
-              final: { weight: 0.25, label: "Final Exam" },
-              hw: { weight: 0.15, label: "Homework" },
-              quiz: { weight: 0.1, label: "Quizzes" },
-              project: { weight: 0.1, label: "Projects" },
-            },
-          ])
-        ),
-      };
-
-      const itemsWithSemester = items.map((item) => ({
-        ...item,
-        semesterId: semester.id,
-      }));
-
-      if (isAddMode && existingSemesters.length > 0 && currentSemesterId) {
-        const targetSemesterId = currentSemesterId;
-        const currentSem = existingSemesters.find((s) => s.id === targetSemesterId) ?? existingSemesters[0];
-        const mergedClassCodes = new Set(currentSem.classes.map((c) => c.code));
-        const mergedClasses = [...currentSem.classes];
-        for (const cls of classes) {
-          if (!mergedClassCodes.has(cls.code)) {
-            mergedClasses.push(cls);
-            mergedClassCodes.add(cls.code);
-          }
-        }
-        const mergedItems = [
-          ...existingItems,
-          ...itemsWithSemester.map((i) => ({ ...i, semesterId: targetSemesterId })),
-        ];
-        const updatedSemester = { ...currentSem, classes: mergedClasses };
-        const updatedSemesters = existingSemesters.map((s) =>
-          s.id === targetSemesterId ? updatedSemester : s
-        );
-        onImport(mergedItems, mergedClasses, updatedSemester, "add", updatedSemesters);
+      const kind = workbookKind(file.name);
+      if (kind) {
+        startMapping(readWorkbookSheets(await readWorkbook(await file.arrayBuffer(), kind)));
+      } else if (/\.(csv|tsv|txt|ics)$/i.test(file.name)) {
+        const text = await file.text();
+        setPasteText(text);
+        if (isIcsText(text)) previewCalendar(text);
+        else startMapping(readSheets(text));
       } else {
-        onImport(itemsWithSemester, classes, semester, "replace", undefined);
+        setError("Choose a .csv, .tsv, .xlsx, .ods or .ics file. Save older .xls workbooks as .xlsx first.");
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read that file.");
+    } finally {
+      setIsParsing(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) void handleFile(file);
+  };
+
+  /** Moves to the preview, or stays put with `emptyMessage` when nothing could be read. */
+  const showPreview = ({ rows, classes, errors }: ParseResult, emptyMessage: string) => {
+    if (rows.length === 0) {
+      setError(errors.length > 0 ? `No rows could be read. ${describeRowErrors(errors)}` : emptyMessage);
+      return;
+    }
+
+    // Only the live items of the semester being added to can be duplicated
+    const classCodes = new Set(targetSemester?.classes.map((c) => c.code));
+    const comparable = targetSemester
+      ? existingItems.filter(
+          (item) =>
+            !item.deletedAt &&
+            (item.semesterId ? item.semesterId === targetSemester.id : classCodes.has(item.classCode))
+        )
+      : [];
+    const preview = previewImport(rows, comparable);
+    setPreviewRows(preview);
+    setRowErrors(errors);
+    setImportedClasses(classes);
+    setSelected(defaultSelection(preview));
+    setStep("preview");
+  };
+
+  const previewCalendar = (text: string) => {
+    setFromCalendar(true);
+    showPreview(parseIcs(text), "No events or to-dos found in this calendar.");
+  };
+
+  const handlePreview = () => {
+    setError("");
+    setIsParsing(true);
+    try {
+      sheets.forEach((sheet, index) => rememberColumnMapping(sheet.header, mappings[index]));
+      setFromCalendar(false);
+      showPreview(
+        parseSheets(sheets, mappings),
+        "No valid rows found. Check that the columns are mapped to the right fields."
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to parse data.");
     } finally {
@@ -115,6 +218,63 @@ export function ImportData({
     }
   };
 
+  const handleImport = () => {
+    const chosen = previewRows.filter((row) => selected.has(row.item.id));
+    if (chosen.length === 0) return;
+    const usedCodes = new Set(chosen.map((row) => row.item.classCode));
+    const classes = importedClasses.filter((c) => usedCodes.has(c.code));
+
+    const semester: Semester = {
+      id: `semester-${Date.now()}`,
+      name: "My Semester",
+      startDate: new Date().toISOString().slice(0, 10),
+      endDate: new Date(Date.now() + 120 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      classes,
+      gradeWeights: Object.fromEntries(classes.map((c) => [c.code, weightsFromTemplate(template)])),
+    };
+
+    if (targetSemester) {
+      const mergedClassCodes = new Set(targetSemester.classes.map((c) => c.code));
+      const mergedClasses = [...targetSemester.classes];
+      const mergedWeights = { ...targetSemester.gradeWeights };
+      for (const cls of classes) {
+        if (!mergedClassCodes.has(cls.code)) {
+          mergedClasses.push(cls);
+          mergedClassCodes.add(cls.code);
+        }
+        // Classes already in the semester keep the weights they have
+        if (!mergedWeights[cls.code]) mergedWeights[cls.code] = weightsFromTemplate(template);
+      }
+      const mergedItems = applyImport(existingItems, chosen, targetSemester.id);
+      const updatedSemester = { ...targetSemester, classes: mergedClasses, gradeWeights: mergedWeights };
+      const updatedSemesters = existingSemesters.map((s) =>
+        s.id === targetSemester.id ? updatedSemester : s
+      );
+      onImport(mergedItems, mergedClasses, updatedSemester, "add", updatedSemesters);
+    } else {
+      onImport(applyImport([], chosen, semester.id), classes, semester, "replace", undefined);
+    }
+  };
+
+  const templatePicker = (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Category weights for new classes</label>
+      <Select value={templateId} onValueChange={setTemplateId}>
+        <SelectTrigger aria-label="Weight template">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((t) => (
+            <SelectItem key={t.id} value={t.id}>
+              {t.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{describeTemplate(template)}</p>
+    </div>
+  );
+
   const handleLoadExample = () => {
     setPasteText(EXAMPLE);
     setError("");
@@ -137,34 +297,89 @@ export function ImportData({
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">
-              Paste your data (Tab or comma separated)
-            </label>
-            <p className="text-xs text-muted-foreground">
-              Paste multiple sheets at once — separate with blank lines or repeated header rows.
-            </p>
-            <Textarea
-              placeholder="Class	Title	Type	Due Date	Time&#10;MATH101	Homework 1	homework	2/15/2026	11:59 PM&#10;..."
-              value={pasteText}
-              onChange={(e) => {
-                setPasteText(e.target.value);
-                setError("");
-              }}
-              className="min-h-[200px] font-mono text-sm"
-            />
-          </div>
+          {step === "paste" ? (
+            <>
+              <div
+                className={cn("space-y-2 rounded-lg", isDragging && "ring-2 ring-primary ring-offset-4 ring-offset-background")}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+              >
+                <label className="text-sm font-medium">
+                  Paste your data (Tab, comma or semicolon separated), or drop a file
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  Paste multiple sheets at once — separate with blank lines or repeated header rows.
+                  Wrap values that contain the separator or line breaks in double quotes.
+                  Files can be .csv, .tsv, .xlsx or .ods; each sheet of a workbook is read on its own.
+                  Calendar (.ics) files from your school&apos;s course site go straight to the preview.
+                </p>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt,.xlsx,.ods,.ics,text/csv,text/tab-separated-values,text/calendar"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleFile(file);
+                  }}
+                />
+                <Textarea
+                  placeholder="Class	Title	Type	Due Date	Time&#10;MATH101	Homework 1	homework	2/15/2026	11:59 PM&#10;..."
+                  value={pasteText}
+                  onChange={(e) => {
+                    setPasteText(e.target.value);
+                    setError("");
+                  }}
+                  className="min-h-[200px] font-mono text-sm"
+                />
+              </div>
 
-          <div className="rounded-lg bg-muted/50 p-4 text-sm text-muted-foreground space-y-2">
-            <p className="font-medium text-foreground">Expected columns:</p>
-            <ul className="list-disc list-inside space-y-1">
-              <li><strong>Class</strong> or <strong>Course</strong> – e.g. MATH101 or &quot;MATH101 - Calculus&quot;</li>
-              <li><strong>Title</strong> or <strong>Name</strong> – assignment name</li>
-              <li><strong>Type</strong> (optional) – homework, quiz, exam, project, lecture, assignment</li>
-              <li><strong>Due Date</strong> – 2/15/2026, 2026-02-15, Feb 15, etc.</li>
-              <li><strong>Time</strong> (optional) – e.g. 11:59 PM, In Class</li>
-            </ul>
-          </div>
+              <div className="rounded-lg bg-muted/50 p-4 text-sm text-muted-foreground space-y-2">
+                <p className="font-medium text-foreground">Expected columns:</p>
+                <ul className="list-disc list-inside space-y-1">
+                  <li><strong>Class</strong> or <strong>Course</strong> – e.g. MATH101 or &quot;MATH101 - Calculus&quot;</li>
+                  <li><strong>Title</strong> or <strong>Name</strong> – assignment name</li>
+                  <li><strong>Type</strong> (optional) – homework, quiz, exam, project, lecture, assignment</li>
+                  <li><strong>Due Date</strong> – 2/15/2026, 2026-02-15, Feb 15, etc.</li>
+                  <li><strong>Time</strong> (optional) – e.g. 11:59 PM, In Class</li>
+                </ul>
+                <p>You can match the columns to fields in the next step, and description, location, grade, grade category and final exam columns can come along too.</p>
+              </div>
+            </>
+          ) : step === "map" ? (
+            <>
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Match your columns</p>
+                <p className="text-xs text-muted-foreground">
+                  Choose the field each column fills, or ignore it. Your choices are remembered for these headers.
+                </p>
+              </div>
+              <ColumnMappingStep sheets={sheets} mappings={mappings} onChange={setMappings} />
+              {templatePicker}
+            </>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Review before importing</p>
+                <p className="text-xs text-muted-foreground">
+                  {isAddMode
+                    ? "Rows matching an item by class, title and due date are duplicates and left out unless you select them. Changed rows update the item they match."
+                    : "Choose the rows to import."}
+                </p>
+              </div>
+              <ImportPreview
+                rows={previewRows}
+                errors={rowErrors}
+                selected={selected}
+                onSelectedChange={setSelected}
+              />
+              {fromCalendar && templatePicker}
+            </>
+          )}
 
           {error && (
             <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
@@ -173,32 +388,86 @@ export function ImportData({
             </div>
           )}
 
-          <div className="flex gap-3">
-            <Button
-              variant="outline"
-              onClick={handleLoadExample}
-              className="gap-2"
-            >
-              <Upload className="h-4 w-4" />
-              Load example
-            </Button>
-            <Button
-              onClick={handleImport}
-              disabled={!pasteText.trim() || isParsing}
-              className="gap-2"
-            >
-              {isParsing ? (
-                <>
-                  <span className="animate-pulse">Parsing...</span>
-                </>
-              ) : (
-                <>
-                  {isAddMode ? "Add to dashboard" : "Import & view dashboard"}
-                  <ChevronRight className="h-4 w-4" />
-                </>
-              )}
-            </Button>
-          </div>
+          {step === "paste" ? (
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handleLoadExample}
+                className="gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Load example
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isParsing}
+                className="gap-2"
+              >
+                <FolderOpen className="h-4 w-4" />
+                {isParsing ? <span className="animate-pulse">Reading...</span> : "Choose file"}
+              </Button>
+              <Button
+                onClick={handleContinue}
+                disabled={!pasteText.trim()}
+                className="gap-2"
+              >
+                {isCalendar ? "Preview" : "Match columns"}
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : step === "map" ? (
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setStep("paste");
+                  setError("");
+                }}
+                className="gap-2"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={!mappingsValid || isParsing}
+                className="gap-2"
+              >
+                {isParsing ? (
+                  <>
+                    <span className="animate-pulse">Parsing...</span>
+                  </>
+                ) : (
+                  <>
+                    Preview
+                    <ChevronRight className="h-4 w-4" />
+                  </>
+                )}
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => setStep(fromCalendar ? "paste" : "map")}
+                className="gap-2"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={selected.size === 0}
+                className="gap-2"
+              >
+                {isAddMode
+                  ? `Add ${selected.size} to dashboard`
+                  : `Import ${selected.size} & view dashboard`}
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
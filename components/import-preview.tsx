@@ -0,0 +1,122 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import type { ImportPreviewRow, ImportRowStatus } from "@/lib/import-preview";
+import { rowLocation, type ParseRowError } from "@/lib/spreadsheet-parser";
+import { AlertTriangle } from "lucide-react";
+
+interface ImportPreviewProps {
+  rows: ImportPreviewRow[];
+  /** Rows that couldn't be read at all. */
+  errors: ParseRowError[];
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: "New",
+  changed: "Changed",
+  duplicate: "Duplicate",
+};
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  new: "text-primary",
+  changed: "text-warning",
+  duplicate: "text-muted-foreground",
+};
+
+const formatDate = (date: string) => {
+  const parsed = parseISO(date);
+  return Number.isNaN(parsed.getTime()) ? date : format(parsed, "MMM d");
+};
+
+export function ImportPreview({ rows, errors, selected, onSelectedChange }: ImportPreviewProps) {
+  const allSelected = rows.length > 0 && rows.every((row) => selected.has(row.item.id));
+  const counts = (["new", "changed", "duplicate"] as const)
+    .map((status) => [status, rows.filter((row) => row.status === status).length] as const)
+    .filter(([, count]) => count > 0);
+  const warningCount = rows.filter((row) => row.warnings.length > 0).length;
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    onSelectedChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {[
+          ...counts.map(([status, count]) => `${count} ${STATUS_LABELS[status].toLowerCase()}`),
+          warningCount > 0 && `${warningCount} with warnings`,
+          errors.length > 0 && `${errors.length} unreadable`,
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 rounded-lg bg-destructive/10 p-3 text-xs text-destructive">
+          {errors.map((error) => (
+            <li key={`${error.line}-${error.message}`}>
+              {rowLocation(error)}: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Label className="flex items-center gap-2 border-t border-border pt-3 text-sm font-normal cursor-pointer">
+        <Checkbox
+          checked={allSelected}
+          onCheckedChange={(checked) =>
+            onSelectedChange(checked ? new Set(rows.map((row) => row.item.id)) : new Set())
+          }
+        />
+        {selected.size > 0 ? `${selected.size} of ${rows.length} selected` : "Select all"}
+      </Label>
+
+      <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+        {rows.map((row) => (
+          <li key={row.item.id} className="flex items-start gap-3 py-2">
+            <Checkbox
+              className="mt-0.5"
+              checked={selected.has(row.item.id)}
+              onCheckedChange={(checked) => toggle(row.item.id, checked === true)}
+              aria-label={`Import ${row.item.title}`}
+            />
+            <div className="min-w-0 flex-1 space-y-0.5">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={cn("text-[10px] px-1.5 py-0", STATUS_COLORS[row.status])}>
+                  {STATUS_LABELS[row.status]}
+                </Badge>
+                <span className="truncate text-sm font-medium">{row.item.title}</span>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {[
+                  rowLocation(row),
+                  row.item.classCode,
+                  formatDate(row.item.dueDate),
+                  row.item.time,
+                  row.status === "changed" && `updates ${row.changes.join(", ")}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              {row.warnings.map((warning) => (
+                <p key={warning} className="flex items-center gap-1 text-xs text-warning">
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
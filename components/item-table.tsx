@@ -2,9 +2,21 @@
 
 import React from "react";
 
-import { useState, useEffect } from "react";
-import type { AcademicItem, ItemStatus, ItemType, ClassInfo } from "@/lib/data";
-import { classes as defaultClasses, calculateLatePenalty } from "@/lib/data";
+import { useState, useEffect, useMemo } from "react";
+import type { AcademicItem, ItemStatus, ItemType, ClassInfo, GradeCurve } from "@/lib/data";
+import { classes as defaultClasses } from "@/lib/data";
+import { pointsToPercent, rawPercent, type GradeWeights } from "@/lib/grades";
+import { applyCurve, curveFor, describeCurve, validateCurve } from "@/lib/curves";
+import {
+  applyPenalty,
+  describeLatePolicy,
+  dueAt,
+  formatLateness,
+  latePenaltiesForClass,
+  latePolicyFor,
+  minutesLate,
+  type LatePenalty,
+} from "@/lib/late-policy";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,6 +43,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import { CurveFields } from "@/components/curve-fields";
 import {
   Collapsible,
   CollapsibleContent,
@@ -65,17 +78,18 @@ const GRADE_CATEGORIES: { value: AcademicItem["gradeCategory"]; label: string }[
   { value: "project", label: "Project" },
   { value: "lab", label: "Lab" },
   { value: "participation", label: "Participation" },
+  { value: "bonus", label: "Bonus" },
 ];
 
 interface ItemTableProps {
   items: AcademicItem[];
   onStatusChange: (id: string, status: ItemStatus) => void;
-  onGradeChange: (id: string, grade: number | undefined, isLate?: boolean, daysLate?: number, gradeCategory?: AcademicItem["gradeCategory"]) => void;
+  onGradeChange: (id: string, updates: Partial<AcademicItem>) => void;
   onItemUpdate?: (id: string, updates: Partial<Pick<AcademicItem, "title" | "dueDate" | "time" | "description">>) => void;
   onBulkUpdate?: (ids: string[], updates: Partial<Pick<AcademicItem, "type" | "classCode" | "class">>) => void;
   onDeleteItem?: (id: string) => void;
   classes?: ClassInfo[];
-  gradeWeights?: Record<string, Record<string, { weight: number; label: string }>>;
+  gradeWeights?: Record<string, GradeWeights>;
 }
 
 const typeIcons: Record<ItemType, React.ElementType> = {
@@ -133,43 +147,117 @@ function getClassColor(classCode: string, classList: ClassInfo[]): string {
   return classInfo?.color || "bg-muted";
 }
 
+/** A Date as the value of a datetime-local input, in local time. */
+function toDateTimeLocal(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** When a late item was handed in, for the dialog; legacy items count whole days from the due time. */
+function initialSubmittedAt(item: AcademicItem): string {
+  if (item.submittedAt) return toDateTimeLocal(new Date(item.submittedAt));
+  const due = dueAt(item) ?? new Date();
+  return toDateTimeLocal(new Date(due.getTime() + (item.daysLate || 1) * 24 * 60 * 60 * 1000));
+}
+
 function GradeDialog({
   item,
+  classItems,
+  penalty,
   onGradeChange,
   classList,
   gradeWeightsMap,
 }: {
   item: AcademicItem;
-  onGradeChange: (id: string, grade: number | undefined, isLate?: boolean, daysLate?: number, gradeCategory?: AcademicItem["gradeCategory"]) => void;
+  /** Items that may share free late days with this one; other classes are ignored. */
+  classItems: AcademicItem[];
+  penalty?: LatePenalty;
+  onGradeChange: (id: string, updates: Partial<AcademicItem>) => void;
   classList: ClassInfo[];
-  gradeWeightsMap?: Record<string, Record<string, { weight: number; label: string }>>;
+  gradeWeightsMap?: Record<string, GradeWeights>;
 }) {
+  const classInfo = classList.find((c) => c.code === item.classCode);
+  const latePolicy = latePolicyFor(classInfo);
+
+  const [entryMode, setEntryMode] = useState<"percent" | "points">(
+    item.pointsPossible || classInfo?.gradingMode === "points" ? "points" : "percent"
+  );
   const [grade, setGrade] = useState<string>(item.grade?.toString() ?? "");
+  const [pointsEarned, setPointsEarned] = useState<string>(item.pointsEarned?.toString() ?? "");
+  const [pointsPossible, setPointsPossible] = useState<string>(item.pointsPossible?.toString() ?? "");
   const [gradeCategory, setGradeCategory] = useState<AcademicItem["gradeCategory"]>(item.gradeCategory ?? "hw");
   const [isLate, setIsLate] = useState(item.isLate || false);
-  const [daysLate, setDaysLate] = useState<string>(item.daysLate?.toString() || "1");
+  const [extraCredit, setExtraCredit] = useState(item.extraCredit || false);
+  const [curve, setCurve] = useState<GradeCurve | undefined>(item.curve);
+  const [submittedAt, setSubmittedAt] = useState<string>(() => initialSubmittedAt(item));
   const [open, setOpen] = useState(false);
-
-  const classInfo = classList.find((c) => c.code === item.classCode);
-  const hasLatePenalty = classInfo?.hasLatePenalty || false;
   const classWeights = gradeWeightsMap?.[item.classCode];
+  const categoryCurve = gradeCategory ? classWeights?.[gradeCategory]?.curve : undefined;
+  const draftCurve = curve ?? categoryCurve;
+  const curveErrors = curve ? validateCurve(curve) : [];
   const categories = classWeights
     ? Object.entries(classWeights).map(([key, v]) => ({ value: key as AcademicItem["gradeCategory"], label: v.label }))
     : GRADE_CATEGORIES;
 
+  const earnedNum = Number.parseFloat(pointsEarned);
+  const possibleNum = Number.parseFloat(pointsPossible);
+  const points =
+    entryMode === "points" && !Number.isNaN(earnedNum) && possibleNum > 0
+      ? { earned: earnedNum, possible: possibleNum }
+      : undefined;
+  const enteredGrade =
+    entryMode === "points"
+      ? points
+        ? pointsToPercent(points.earned, points.possible)
+        : null
+      : grade
+        ? Number.parseFloat(grade)
+        : null;
+
+  const submittedDate = new Date(submittedAt);
+  const submittedIso = isLate && !Number.isNaN(submittedDate.getTime()) ? submittedDate.toISOString() : undefined;
+  const draft: AcademicItem = {
+    ...item,
+    isLate,
+    submittedAt: submittedIso,
+    pointsPossible: points?.possible,
+  };
+  const draftMinutesLate = minutesLate(draft);
+  const draftPenalty = latePenaltiesForClass(
+    classItems.map((i) => (i.id === item.id ? draft : i)),
+    classInfo
+  ).get(item.id);
+
   const handleSave = () => {
-    const gradeNum = grade ? Number.parseFloat(grade) : undefined;
-    const daysLateNum = isLate ? Number.parseInt(daysLate) || 1 : 0;
-    onGradeChange(item.id, gradeNum, isLate, daysLateNum, gradeCategory);
+    const daysLateNum = isLate ? Math.ceil(draftMinutesLate / (24 * 60)) : 0;
+    if (curveErrors.length > 0) return;
+    onGradeChange(item.id, {
+      grade: enteredGrade ?? undefined,
+      // A percent-only grade clears any earlier points
+      pointsEarned: points?.earned,
+      pointsPossible: points?.possible,
+      isLate,
+      daysLate: daysLateNum,
+      submittedAt: submittedIso,
+      extraCredit: extraCredit || undefined,
+      curve,
+      gradeCategory,
+    });
     setOpen(false);
   };
 
-  const effectiveGrade =
-    grade && isLate && hasLatePenalty
-      ? calculateLatePenalty(Number.parseFloat(grade), Number.parseInt(daysLate) || 1, item.classCode)
-      : grade
-        ? Number.parseFloat(grade)
-        : null;
+  const curvedGrade = enteredGrade !== null ? applyCurve(enteredGrade, draftCurve) : null;
+  const effectiveGrade = curvedGrade !== null ? applyPenalty(curvedGrade, draftPenalty) : null;
+  const isPenalized = !!penalty && (penalty.deduction > 0 || penalty.zeroed);
+  // What the saved grade counts as after its curve and late penalty
+  const savedRaw = rawPercent(item);
+  const savedCurve = curveFor(item, classWeights);
+  const savedEffective = savedRaw !== null ? applyPenalty(applyCurve(savedRaw, savedCurve), penalty) : null;
+  const isAdjusted = savedRaw !== null && savedEffective !== savedRaw;
+
+  const savedGradeLabel = item.pointsPossible
+    ? `${item.pointsEarned}/${item.pointsPossible}`
+    : `${item.grade}%`;
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -179,17 +267,20 @@ function GradeDialog({
             <span
               className={cn(
                 "font-medium",
-                item.isLate && hasLatePenalty && "text-warning"
+                isPenalized && "text-warning"
               )}
             >
-              {item.isLate && hasLatePenalty && item.daysLate
-                ? `${calculateLatePenalty(item.grade, item.daysLate, item.classCode).toFixed(0)}%`
-                : `${item.grade}%`}
-              {item.isLate && hasLatePenalty && (
+              {isAdjusted
+                ? `${savedEffective!.toFixed(0)}%`
+                : savedGradeLabel}
+              {isAdjusted && (
                 <span className="text-xs ml-1 text-muted-foreground">
-                  (was {item.grade}%)
+                  ({savedCurve ? "raw" : "was"} {savedGradeLabel})
                 </span>
               )}
+              {item.extraCredit && (
+                <span className="text-xs ml-1 text-primary">EC</span>
+              )}
             </span>
           ) : (
             <span className="text-muted-foreground">Add grade</span>
@@ -202,17 +293,62 @@ function GradeDialog({
         </DialogHeader>
           <div className="space-y-4 py-4">
           <div className="space-y-2">
-            <Label htmlFor="grade">Grade (%)</Label>
-            <Input
-              id="grade"
-              type="number"
-              min="0"
-              max="100"
-              step="0.1"
-              placeholder="Enter grade (0-100)"
-              value={grade}
-              onChange={(e) => setGrade(e.target.value)}
-            />
+            <div className="flex items-center justify-between">
+              <Label htmlFor={entryMode === "points" ? "points-earned" : "grade"}>
+                {entryMode === "points" ? "Score (points)" : "Grade (%)"}
+              </Label>
+              <div className="flex rounded-md border border-border p-0.5">
+                {(["percent", "points"] as const).map((m) => (
+                  <Button
+                    key={m}
+                    type="button"
+                    size="sm"
+                    variant={entryMode === m ? "secondary" : "ghost"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setEntryMode(m)}
+                  >
+                    {m === "percent" ? "Percent" : "Points"}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {entryMode === "points" ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  id="points-earned"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="Earned"
+                  value={pointsEarned}
+                  onChange={(e) => setPointsEarned(e.target.value)}
+                />
+                <span className="text-muted-foreground">/</span>
+                <Input
+                  id="points-possible"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="Out of"
+                  aria-label="Points possible"
+                  value={pointsPossible}
+                  onChange={(e) => setPointsPossible(e.target.value)}
+                />
+                <span className="w-16 shrink-0 text-right text-sm text-muted-foreground">
+                  {enteredGrade !== null ? `${enteredGrade.toFixed(1)}%` : "--"}
+                </span>
+              </div>
+            ) : (
+              <Input
+                id="grade"
+                type="number"
+                min="0"
+                step="0.1"
+                placeholder="Enter grade (0-100, more for extra credit)"
+                value={grade}
+                onChange={(e) => setGrade(e.target.value)}
+              />
+            )}
           </div>
 
           <div className="space-y-2">
@@ -234,13 +370,46 @@ function GradeDialog({
             </Select>
           </div>
 
-          {hasLatePenalty && (
+          <div className="space-y-2">
+            <Label>Curve</Label>
+            <CurveFields
+              curve={curve}
+              onChange={setCurve}
+              noneLabel={categoryCurve ? `Category curve (${describeCurve(categoryCurve)})` : "No curve"}
+              label="Curve"
+            />
+            {curveErrors.map((error) => (
+              <p key={error} className="text-xs text-destructive">{error}</p>
+            ))}
+            {enteredGrade !== null && curvedGrade !== null && curvedGrade !== enteredGrade && (
+              <p className="text-xs text-muted-foreground">
+                Raw {enteredGrade.toFixed(1)}% → curved {curvedGrade.toFixed(1)}%
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="extra-credit-toggle">Extra Credit</Label>
+              <p className="text-xs text-muted-foreground">
+                Adds to the category without raising what&apos;s possible
+              </p>
+            </div>
+            <Switch
+              id="extra-credit-toggle"
+              checked={extraCredit || gradeCategory === "bonus"}
+              disabled={gradeCategory === "bonus"}
+              onCheckedChange={setExtraCredit}
+            />
+          </div>
+
+          {latePolicy && (
             <>
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label htmlFor="late-toggle">Late Submission</Label>
                   <p className="text-xs text-muted-foreground">
-                    -10% per day late for {item.classCode}
+                    {item.classCode}: {describeLatePolicy(latePolicy)}
                   </p>
                 </div>
                 <Switch
@@ -252,29 +421,36 @@ function GradeDialog({
 
               {isLate && (
                 <div className="space-y-2">
-                  <Label htmlFor="days-late">Days Late</Label>
+                  <Label htmlFor="submitted-at">Submitted</Label>
                   <Input
-                    id="days-late"
-                    type="number"
-                    min="1"
-                    max="10"
-                    value={daysLate}
-                    onChange={(e) => setDaysLate(e.target.value)}
+                    id="submitted-at"
+                    type="datetime-local"
+                    value={submittedAt}
+                    onChange={(e) => setSubmittedAt(e.target.value)}
                   />
+                  <p className="text-xs text-muted-foreground">
+                    {draftMinutesLate > 0
+                      ? `${formatLateness(draftMinutesLate)} after the due time`
+                      : "On time"}
+                    {draftPenalty && draftPenalty.freeDaysUsed > 0 &&
+                      ` · uses ${draftPenalty.freeDaysUsed} free late day${draftPenalty.freeDaysUsed === 1 ? "" : "s"}`}
+                  </p>
                 </div>
               )}
 
-              {isLate && grade && (
+              {isLate && enteredGrade !== null && draftPenalty && draftPenalty.deduction > 0 && (
                 <div className="p-3 bg-warning/10 border border-warning/30 rounded-lg">
                   <div className="flex items-center gap-2 text-warning">
                     <AlertTriangle className="h-4 w-4" />
                     <span className="font-medium">Late Penalty Applied</span>
                   </div>
                   <p className="text-sm mt-1">
-                    Original: {grade}% → After penalty:{" "}
+                    Original: {curvedGrade?.toFixed(0)}% → After penalty:{" "}
                     <span className="font-bold">{effectiveGrade?.toFixed(0)}%</span>
                     <span className="text-muted-foreground ml-1">
-                      (-{Number.parseInt(daysLate) * 10}%)
+                      {draftPenalty.zeroed
+                        ? "(past the zero-credit limit)"
+                        : `(-${draftPenalty.deduction.toFixed(0)}%)`}
                     </span>
                   </p>
                 </div>
@@ -286,7 +462,7 @@ function GradeDialog({
             <Button variant="outline" onClick={() => setOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSave}>Save Grade</Button>
+            <Button onClick={handleSave} disabled={curveErrors.length > 0}>Save Grade</Button>
           </div>
         </div>
       </DialogContent>
@@ -308,6 +484,10 @@ export function ItemTable({ items, onStatusChange, onGradeChange, onItemUpdate,
   const [bulkTypeValue, setBulkTypeValue] = useState<string>("");
   const [bulkClassValue, setBulkClassValue] = useState<string>("");
   const [expandedDetailsId, setExpandedDetailsId] = useState<string | null>(null);
+  const latePenalties = useMemo(
+    () => new Map(classList.flatMap((c) => [...latePenaltiesForClass(items, c)])),
+    [items, classList]
+  );
 
   useEffect(() => {
     if (editingId) setExpandedDetailsId(editingId);
@@ -718,6 +898,8 @@ export function ItemTable({ items, onStatusChange, onGradeChange, onItemUpdate,
                                 <span className="text-xs text-muted-foreground block mb-0.5">Grade</span>
                                 <GradeDialog
                                   item={item}
+                                  classItems={items}
+                                  penalty={latePenalties.get(item.id)}
                                   onGradeChange={onGradeChange}
                                   classList={classList}
                                   gradeWeightsMap={gradeWeightsMap}
@@ -749,7 +931,7 @@ export function ItemTable({ items, onStatusChange, onGradeChange, onItemUpdate,
                                   size="sm"
                                   className="min-h-[44px] gap-1.5 text-muted-foreground hover:text-destructive"
                                   onClick={() => {
-                                    if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                                    onDeleteItem(item.id);
                                   }}
                                   aria-label="Delete assignment"
                                 >
@@ -912,6 +1094,8 @@ export function ItemTable({ items, onStatusChange, onGradeChange, onItemUpdate,
                     <td className="px-4 py-3">
                       <GradeDialog
                         item={item}
+                        classItems={items}
+                        penalty={latePenalties.get(item.id)}
                         onGradeChange={onGradeChange}
                         classList={classList}
                         gradeWeightsMap={gradeWeightsMap}
@@ -1002,7 +1186,7 @@ export function ItemTable({ items, onStatusChange, onGradeChange, onItemUpdate,
                                 size="sm"
                                 className="h-8 gap-1 text-muted-foreground hover:text-destructive"
                                 onClick={() => {
-                                  if (confirm(`Delete "${item.title}"?`)) onDeleteItem(item.id);
+                                  onDeleteItem(item.id);
                                 }}
                                 aria-label="Delete assignment"
                               >
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ClassInfo, LatePolicy } from "@/lib/data";
+import { DEFAULT_LATE_POLICY, describeLatePolicy } from "@/lib/late-policy";
+import { Clock } from "lucide-react";
+
+interface LatePolicyDialogProps {
+  classInfo: ClassInfo;
+  onSave: (updates: Pick<ClassInfo, "hasLatePenalty" | "latePolicy">) => void;
+}
+
+/** Blank inputs mean "no limit". */
+function optionalNumber(value: string): number | undefined {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+const asInput = (value: number | undefined) => (value === undefined ? "" : String(value));
+
+export function LatePolicyDialog({ classInfo, onSave }: LatePolicyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(classInfo.hasLatePenalty);
+  const [policy, setPolicy] = useState<LatePolicy>(classInfo.latePolicy ?? DEFAULT_LATE_POLICY);
+  const [amount, setAmount] = useState(String(policy.amount));
+  const [graceMinutes, setGraceMinutes] = useState(asInput(policy.graceMinutes));
+  const [maxPenalty, setMaxPenalty] = useState(asInput(policy.maxPenalty));
+  const [zeroAfterDays, setZeroAfterDays] = useState(asInput(policy.zeroAfterDays));
+  const [freeLateDays, setFreeLateDays] = useState(asInput(policy.freeLateDays));
+
+  const reset = () => {
+    const current = classInfo.latePolicy ?? DEFAULT_LATE_POLICY;
+    setEnabled(classInfo.hasLatePenalty);
+    setPolicy(current);
+    setAmount(String(current.amount));
+    setGraceMinutes(asInput(current.graceMinutes));
+    setMaxPenalty(asInput(current.maxPenalty));
+    setZeroAfterDays(asInput(current.zeroAfterDays));
+    setFreeLateDays(asInput(current.freeLateDays));
+  };
+
+  const grace = optionalNumber(graceMinutes);
+  const cap = optionalNumber(maxPenalty);
+  const zeroAfter = optionalNumber(zeroAfterDays);
+  const freeDays = optionalNumber(freeLateDays);
+  // Unset limits stay out of the stored record
+  const draft: LatePolicy = {
+    amount: optionalNumber(amount) ?? 0,
+    unit: policy.unit,
+    per: policy.per,
+    ...(grace !== undefined && { graceMinutes: grace }),
+    ...(cap !== undefined && { maxPenalty: cap }),
+    ...(zeroAfter !== undefined && { zeroAfterDays: zeroAfter }),
+    ...(freeDays !== undefined && { freeLateDays: Math.floor(freeDays) }),
+  };
+
+  const handleSave = () => {
+    onSave({ hasLatePenalty: enabled, latePolicy: draft });
+    setOpen(false);
+  };
+
+  const unitLabel = policy.unit === "points" ? "pts" : "%";
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) reset();
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 text-muted-foreground"
+          title="Late policy"
+          aria-label={`Late policy for ${classInfo.code}`}
+        >
+          <Clock className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Late Policy - {classInfo.code}</DialogTitle>
+          <DialogDescription>
+            Deductions are counted from each item&apos;s submission time against its due date and
+            time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="late-enabled">Penalize late work</Label>
+            <Switch id="late-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          {enabled && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Deduction</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    className="w-20"
+                    aria-label="Deduction amount"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                  <Select
+                    value={policy.unit}
+                    onValueChange={(v) => setPolicy((p) => ({ ...p, unit: v as LatePolicy["unit"] }))}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">percent</SelectItem>
+                      <SelectItem value="points">points</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-muted-foreground">per</span>
+                  <Select
+                    value={policy.per}
+                    onValueChange={(v) => setPolicy((p) => ({ ...p, per: v as LatePolicy["per"] }))}
+                  >
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">day</SelectItem>
+                      <SelectItem value="hour">hour</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="late-grace" className="text-xs text-muted-foreground">
+                    Grace period (minutes)
+                  </Label>
+                  <Input
+                    id="late-grace"
+                    type="number"
+                    min="0"
+                    placeholder="None"
+                    value={graceMinutes}
+                    onChange={(e) => setGraceMinutes(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="late-cap" className="text-xs text-muted-foreground">
+                    Maximum deduction ({unitLabel})
+                  </Label>
+                  <Input
+                    id="late-cap"
+                    type="number"
+                    min="0"
+                    placeholder="No cap"
+                    value={maxPenalty}
+                    onChange={(e) => setMaxPenalty(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="late-zero" className="text-xs text-muted-foreground">
+                    Zero after (days)
+                  </Label>
+                  <Input
+                    id="late-zero"
+                    type="number"
+                    min="0"
+                    placeholder="Never"
+                    value={zeroAfterDays}
+                    onChange={(e) => setZeroAfterDays(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="late-free" className="text-xs text-muted-foreground">
+                    Free late days (semester)
+                  </Label>
+                  <Input
+                    id="late-free"
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="None"
+                    value={freeLateDays}
+                    onChange={(e) => setFreeLateDays(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">{describeLatePolicy(draft)}</p>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save Policy</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  AcademicItem,
+  ClassInfo,
+  PassCondition,
+  PassConditionConsequence,
+  PassConditionScope,
+} from "@/lib/data";
+import type { GradeWeights } from "@/lib/grades";
+import { newPassConditionId, validatePassConditions } from "@/lib/pass-conditions";
+import { Plus, ShieldAlert, Trash2 } from "lucide-react";
+
+interface PassConditionsDialogProps {
+  classInfo: ClassInfo;
+  /** The class's items, for item-scoped conditions. */
+  classItems: AcademicItem[];
+  weights: GradeWeights;
+  onSave: (updates: Pick<ClassInfo, "passConditions">) => void;
+}
+
+/** Conditions as the editor holds them, with numbers still as typed. */
+interface ConditionRow {
+  id: string;
+  scope: PassConditionScope;
+  category: string;
+  itemId: string;
+  min: string;
+  consequence: PassConditionConsequence;
+  capAt: string;
+  note: string;
+}
+
+const SCOPE_OPTIONS: { value: PassConditionScope; label: string }[] = [
+  { value: "final", label: "Final exam" },
+  { value: "category", label: "Category" },
+  { value: "item", label: "Item" },
+];
+
+const CONSEQUENCE_OPTIONS: { value: PassConditionConsequence; label: string }[] = [
+  { value: "fail", label: "Fail the class" },
+  { value: "cap", label: "Cap the grade" },
+  { value: "warn", label: "Warn only" },
+];
+
+function toRows(conditions: PassCondition[]): ConditionRow[] {
+  return conditions.map((c) => ({
+    id: c.id,
+    scope: c.scope,
+    category: c.category ?? "",
+    itemId: c.itemId ?? "",
+    min: String(c.min),
+    consequence: c.consequence,
+    capAt: c.capAt === undefined ? "" : String(c.capAt),
+    note: c.note ?? "",
+  }));
+}
+
+function toConditions(rows: ConditionRow[]): PassCondition[] {
+  return rows.map((row) => {
+    const capAt = Number.parseFloat(row.capAt);
+    return {
+      id: row.id,
+      scope: row.scope,
+      ...(row.scope === "category" && row.category && { category: row.category }),
+      ...(row.scope === "item" && row.itemId && { itemId: row.itemId }),
+      min: Number.parseFloat(row.min),
+      consequence: row.consequence,
+      ...(row.consequence === "cap" && Number.isFinite(capAt) && { capAt }),
+      ...(row.note.trim() && { note: row.note.trim() }),
+    };
+  });
+}
+
+const blankRow = (): ConditionRow => ({
+  id: newPassConditionId(),
+  scope: "final",
+  category: "",
+  itemId: "",
+  min: "60",
+  consequence: "fail",
+  capAt: "",
+  note: "",
+});
+
+export function PassConditionsDialog({ classInfo, classItems, weights, onSave }: PassConditionsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<ConditionRow[]>(() => toRows(classInfo.passConditions ?? []));
+
+  const conditions = toConditions(rows);
+  const errors = validatePassConditions(conditions);
+
+  const updateRow = (index: number, updates: Partial<ConditionRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave({ passConditions: conditions });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setRows(toRows(classInfo.passConditions ?? []));
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 text-muted-foreground"
+          title="Pass conditions"
+          aria-label={`Pass conditions for ${classInfo.code}`}
+        >
+          <ShieldAlert className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pass Conditions - {classInfo.code}</DialogTitle>
+          <DialogDescription>
+            Minimums the class has to meet on its own, whatever the overall grade. A consequence
+            applies once everything it covers is graded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground">No pass conditions.</p>
+          )}
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {rows.map((row, index) => (
+              <div key={row.id} className="space-y-2 rounded-md border border-border p-3">
+                <div className="grid grid-cols-[1fr_1fr_2rem] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Applies to</Label>
+                    <Select
+                      value={row.scope}
+                      onValueChange={(scope) => updateRow(index, { scope: scope as PassConditionScope })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCOPE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    {row.scope === "category" && (
+                      <>
+                        <Label className="text-xs text-muted-foreground">Category</Label>
+                        <Select value={row.category} onValueChange={(category) => updateRow(index, { category })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(weights).map(([key, w]) => (
+                              <SelectItem key={key} value={key}>
+                                {w.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+                    {row.scope === "item" && (
+                      <>
+                        <Label className="text-xs text-muted-foreground">Item</Label>
+                        <Select value={row.itemId} onValueChange={(itemId) => updateRow(index, { itemId })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {classItems.map((item) => (
+                              <SelectItem key={item.id} value={item.id}>
+                                {item.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label={`Remove condition ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Minimum %</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={row.min}
+                      onChange={(e) => updateRow(index, { min: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Otherwise</Label>
+                    <Select
+                      value={row.consequence}
+                      onValueChange={(consequence) =>
+                        updateRow(index, { consequence: consequence as PassConditionConsequence })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONSEQUENCE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {row.consequence === "cap" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Cap at %</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        value={row.capAt}
+                        onChange={(e) => updateRow(index, { capAt: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+                <Input
+                  placeholder="Note, e.g. the syllabus wording"
+                  value={row.note}
+                  onChange={(e) => updateRow(index, { note: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full gap-1"
+            onClick={() => setRows((prev) => [...prev, blankRow()])}
+          >
+            <Plus className="h-4 w-4" />
+            Add condition
+          </Button>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={errors.length > 0}>
+              Save Conditions
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
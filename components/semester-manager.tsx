@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -38,7 +38,24 @@ import {
   AlertTriangle,
   Pencil,
 } from "lucide-react";
-import type { Semester, ClassInfo } from "@/lib/data";
+import type { Semester, ClassInfo, GradingMode } from "@/lib/data";
+import type { GradeWeights } from "@/lib/grades";
+import { DEFAULT_LATE_POLICY } from "@/lib/late-policy";
+import { GRADE_SCALE_PRESETS } from "@/lib/grade-scales";
+import { DEFAULT_CREDITS } from "@/lib/gpa";
+import { newPassConditionId } from "@/lib/pass-conditions";
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  findTemplate,
+  getWeightTemplates,
+  setSavedTemplates,
+  weightsFromTemplate,
+  type WeightTemplate,
+} from "@/lib/weight-templates";
+import { LatePolicyDialog } from "@/components/late-policy-dialog";
+import { GradeScaleDialog } from "@/components/grade-scale-dialog";
+import { WeightTemplatesDialog } from "@/components/weight-templates-dialog";
 
 interface SemesterManagerProps {
   semesters: Semester[];
@@ -47,7 +64,7 @@ interface SemesterManagerProps {
   onAddSemester: (semester: Semester) => void;
   onUpdateSemester: (semesterId: string, updates: Partial<Pick<Semester, "name" | "startDate" | "endDate">>) => void;
   onDeleteSemester: (semesterId: string) => void;
-  onAddClass: (semesterId: string, classInfo: ClassInfo) => void;
+  onAddClass: (semesterId: string, classInfo: ClassInfo, weights: GradeWeights) => void;
   onDeleteClass: (semesterId: string, classCode: string) => void;
   onUpdateClass: (semesterId: string, classCode: string, updates: Partial<ClassInfo>) => void;
 }
@@ -91,16 +108,24 @@ export function SemesterManager({
   const [newClassName, setNewClassName] = useState("");
   const [newClassColor, setNewClassColor] = useState("bg-chart-1");
   const [newClassHasLatePenalty, setNewClassHasLatePenalty] = useState(false);
-  const [newClassKillSwitch, setNewClassKillSwitch] = useState(false);
+  const [newClassFinalRequired, setNewClassFinalRequired] = useState(false);
+  const [newClassGradingMode, setNewClassGradingMode] = useState<GradingMode>("weighted");
+  const [newClassScalePreset, setNewClassScalePreset] = useState(GRADE_SCALE_PRESETS[0].id);
+  const [newClassCredits, setNewClassCredits] = useState(String(DEFAULT_CREDITS));
   
   // Grade weights for new class
-  const [gradeWeights, setGradeWeights] = useState({
-    exam: { weight: 40, label: "Exams" },
-    final: { weight: 25, label: "Final Exam" },
-    hw: { weight: 15, label: "Homework" },
-    quiz: { weight: 10, label: "Quizzes" },
-    project: { weight: 10, label: "Projects" },
-  });
+  const [templates, setTemplates] = useState<WeightTemplate[]>(BUILT_IN_TEMPLATES);
+  const [newClassTemplateId, setNewClassTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+
+  useEffect(() => {
+    setTemplates(getWeightTemplates());
+  }, []);
+
+  const handleSavedTemplatesChange = (saved: WeightTemplate[]) => {
+    setSavedTemplates(saved);
+    setTemplates([...BUILT_IN_TEMPLATES, ...saved]);
+    if (!saved.some((t) => t.id === newClassTemplateId)) setNewClassTemplateId(DEFAULT_TEMPLATE_ID);
+  };
 
   const currentSemester = semesters.find((s) => s.id === currentSemesterId);
 
@@ -143,22 +168,29 @@ export function SemesterManager({
       name: newClassName,
       color: newClassColor,
       hasLatePenalty: newClassHasLatePenalty,
-      killSwitch: newClassKillSwitch ? "Missing the final results in a failing grade" : undefined,
+      latePolicy: newClassHasLatePenalty ? DEFAULT_LATE_POLICY : undefined,
+      passConditions: newClassFinalRequired
+        ? [{ id: newPassConditionId(), scope: "final", min: 0, consequence: "fail", note: "Missing the final results in a failing grade" }]
+        : undefined,
+      gradingMode: newClassGradingMode,
+      gradeScale: GRADE_SCALE_PRESETS.find((p) => p.id === newClassScalePreset)?.scale,
+      credits: Number.parseFloat(newClassCredits) >= 0 ? Number.parseFloat(newClassCredits) : DEFAULT_CREDITS,
     };
 
-    onAddClass(currentSemesterId, classInfo);
+    onAddClass(currentSemesterId, classInfo, weightsFromTemplate(findTemplate(templates, newClassTemplateId)));
 
     // Reset form
     setNewClassCode("");
     setNewClassName("");
     setNewClassColor("bg-chart-1");
     setNewClassHasLatePenalty(false);
-    setNewClassKillSwitch(false);
+    setNewClassFinalRequired(false);
+    setNewClassGradingMode("weighted");
+    setNewClassScalePreset(GRADE_SCALE_PRESETS[0].id);
+    setNewClassCredits(String(DEFAULT_CREDITS));
     setAddClassOpen(false);
   };
 
-  const totalWeight = Object.values(gradeWeights).reduce((sum, w) => sum + w.weight, 0);
-
   return (
     <div className="flex items-center gap-2">
       {/* Semester Dropdown */}
@@ -327,7 +359,9 @@ export function SemesterManager({
                       />
                       <div>
                         <p className="font-medium">{cls.code}</p>
-                        <p className="text-sm text-muted-foreground">{cls.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {cls.name} · {cls.credits ?? DEFAULT_CREDITS} cr
+                        </p>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -336,11 +370,29 @@ export function SemesterManager({
                           Late Penalty
                         </span>
                       )}
-                      {cls.killSwitch && (
+                      {cls.gradingMode === "points" && (
+                        <span className="text-xs px-2 py-1 rounded bg-secondary text-secondary-foreground">
+                          Total Points
+                        </span>
+                      )}
+                      {cls.gradeScale?.passFail && (
+                        <span className="text-xs px-2 py-1 rounded bg-secondary text-secondary-foreground">
+                          Pass/Fail
+                        </span>
+                      )}
+                      {!!cls.passConditions?.length && (
                         <span className="text-xs px-2 py-1 rounded bg-destructive/20 text-destructive">
-                          Final Required
+                          {cls.passConditions.length} Pass Condition{cls.passConditions.length === 1 ? "" : "s"}
                         </span>
                       )}
+                      <GradeScaleDialog
+                        classInfo={cls}
+                        onSave={(updates) => onUpdateClass(currentSemesterId, cls.code, updates)}
+                      />
+                      <LatePolicyDialog
+                        classInfo={cls}
+                        onSave={(updates) => onUpdateClass(currentSemesterId, cls.code, updates)}
+                      />
                       <Button
                         variant="ghost"
                         size="sm"
@@ -424,7 +476,7 @@ export function SemesterManager({
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <Label htmlFor="latePenalty" className="text-xs text-muted-foreground">
-                      Late Penalty (10%/day)
+                      Late Penalty (10%/day, editable later)
                     </Label>
                     <Switch
                       id="latePenalty"
@@ -433,19 +485,90 @@ export function SemesterManager({
                     />
                   </div>
                   <div className="flex items-center justify-between">
-                    <Label htmlFor="killSwitch" className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Label htmlFor="finalRequired" className="text-xs text-muted-foreground flex items-center gap-1">
                       <AlertTriangle className="h-3 w-3" />
                       Final Required
                     </Label>
                     <Switch
-                      id="killSwitch"
-                      checked={newClassKillSwitch}
-                      onCheckedChange={setNewClassKillSwitch}
+                      id="finalRequired"
+                      checked={newClassFinalRequired}
+                      onCheckedChange={setNewClassFinalRequired}
                     />
                   </div>
                 </div>
               </div>
 
+              <div className="space-y-2 mt-4">
+                <Label className="text-xs text-muted-foreground">Grade Calculation</Label>
+                <Select
+                  value={newClassGradingMode}
+                  onValueChange={(v) => setNewClassGradingMode(v as GradingMode)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weighted">Weighted categories (e.g. exams 40%)</SelectItem>
+                    <SelectItem value="points">Total points (earned ÷ possible)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2 mt-4">
+                <Label className="text-xs text-muted-foreground">Category Weights</Label>
+                <div className="flex items-center gap-2">
+                  <Select value={newClassTemplateId} onValueChange={setNewClassTemplateId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <WeightTemplatesDialog
+                    templates={templates}
+                    onSavedTemplatesChange={handleSavedTemplatesChange}
+                    classes={currentSemester?.classes ?? []}
+                    gradeWeights={currentSemester?.gradeWeights ?? {}}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-[1fr_6rem] gap-4 mt-4">
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Grade Scale</Label>
+                  <Select value={newClassScalePreset} onValueChange={setNewClassScalePreset}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GRADE_SCALE_PRESETS.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="classCredits" className="text-xs text-muted-foreground">
+                    Credits
+                  </Label>
+                  <Input
+                    id="classCredits"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={newClassCredits}
+                    onChange={(e) => setNewClassCredits(e.target.value)}
+                  />
+                </div>
+              </div>
+
               <Button
                 onClick={handleAddClass}
                 disabled={!newClassCode || !newClassName}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { StoredSnapshot } from "@/lib/storage/schema";
+import {
+  createServerAdapter,
+  isServerSyncEnabled,
+  setServerSyncEnabled,
+} from "@/lib/storage/server-adapter";
+import { resetSyncState, type SyncStatus } from "@/lib/sync/sync-engine";
+import { AlertCircle, CloudOff, Server } from "lucide-react";
+
+interface ServerSyncSettingsProps {
+  snapshot: StoredSnapshot;
+  /** Latest state of the background sync; null while sync is off. */
+  syncStatus?: { status: SyncStatus; pending: number } | null;
+  /** Controlled open state - when provided with onOpenChange, enables controlled mode */
+  open?: boolean;
+  /** Callback when open state changes - use with open for controlled mode */
+  onOpenChange?: (open: boolean) => void;
+  /** When true, hides the trigger (use with controlled open/onOpenChange for custom triggers) */
+  hideTrigger?: boolean;
+}
+
+type ServerStatus =
+  | { state: "checking" }
+  | { state: "offline"; message: string }
+  | { state: "online"; semesters: number; items: number };
+
+export function ServerSyncSettings({
+  snapshot,
+  syncStatus = null,
+  open: controlledOpen,
+  onOpenChange: controlledOnOpenChange,
+  hideTrigger = false,
+}: ServerSyncSettingsProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined && controlledOnOpenChange !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = isControlled ? controlledOnOpenChange : setInternalOpen;
+
+  const [enabled, setEnabled] = useState(false);
+  const [status, setStatus] = useState<ServerStatus>({ state: "checking" });
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setEnabled(isServerSyncEnabled());
+    setError("");
+    setStatus({ state: "checking" });
+    createServerAdapter()
+      .load()
+      .then(({ snapshot: remote }) =>
+        setStatus({
+          state: "online",
+          semesters: remote?.semesters.length ?? 0,
+          items: remote?.items.length ?? 0,
+        })
+      )
+      .catch((err) =>
+        setStatus({ state: "offline", message: err instanceof Error ? err.message : String(err) })
+      );
+  }, [open]);
+
+  // Starting or stopping the sync engine is simplest with a fresh page load.
+  const run = async (task: () => Promise<void>) => {
+    setIsWorking(true);
+    setError("");
+    try {
+      await task();
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+      setIsWorking(false);
+    }
+  };
+
+  const enableWithUpload = () =>
+    run(async () => {
+      await createServerAdapter().replaceAll(snapshot);
+      resetSyncState();
+      setServerSyncEnabled(true);
+    });
+
+  const enableWithServerData = () =>
+    run(async () => {
+      resetSyncState();
+      setServerSyncEnabled(true);
+    });
+
+  // The browser already holds everything, so turning sync off loses nothing
+  // except changes that never reached the server.
+  const disable = () =>
+    run(async () => {
+      setServerSyncEnabled(false);
+      resetSyncState();
+    });
+
+  const offline = syncStatus?.status === "offline" || syncStatus?.status === "error";
+
+  const serverHasData = status.state === "online" && (status.semesters > 0 || status.items > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {!hideTrigger && (
+        <DialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="hidden md:inline-flex"
+            title={
+              offline
+                ? `Server sync paused: ${syncStatus?.pending ?? 0} change(s) waiting`
+                : "Server sync"
+            }
+            aria-label="Server sync settings"
+          >
+            {offline ? <CloudOff className="h-4 w-4 text-amber-500" /> : <Server className="h-4 w-4" />}
+          </Button>
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Server sync</DialogTitle>
+          <DialogDescription>
+            Keep the dashboard on the computer running this app, so a laptop and a phone on the
+            same network open the same data. Each browser keeps working offline and catches up
+            when the server is reachable again. Nothing leaves that computer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="rounded-lg bg-muted/50 p-3 text-sm">
+            {status.state === "checking" && <span className="text-muted-foreground">Checking server…</span>}
+            {status.state === "offline" && (
+              <span className="text-destructive">Server not reachable: {status.message}</span>
+            )}
+            {status.state === "online" && (
+              <span>
+                Server reachable · {status.semesters} semesters, {status.items} items stored
+              </span>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Sync is {enabled ? "on" : "off"} in this browser.
+              {syncStatus && syncStatus.pending > 0 &&
+                ` ${syncStatus.pending} change(s) made here are waiting to sync and will be sent when the server is reachable.`}
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+              <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {enabled ? (
+            <Button variant="outline" className="w-full" onClick={disable} disabled={isWorking}>
+              Turn off (this browser keeps its copy)
+            </Button>
+          ) : (
+            <div className="space-y-2">
+              <Button
+                className="w-full"
+                onClick={enableWithUpload}
+                disabled={isWorking || status.state !== "online"}
+              >
+                {serverHasData ? "Replace server data with this browser's" : "Upload this browser's data"}
+              </Button>
+              {serverHasData && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={enableWithServerData}
+                  disabled={isWorking}
+                >
+                  Use the data already on the server
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
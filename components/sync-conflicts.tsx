@@ -0,0 +1,59 @@
+"use client";
+
+import type { SyncConflict } from "@/lib/sync/tab-sync";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { GitMerge } from "lucide-react";
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: "local" | "remote") => void;
+}
+
+function describe(record: { title?: string; name?: string } | null): string {
+  if (!record) return "deleted";
+  return `"${record.title ?? record.name}"`;
+}
+
+function changedFields(conflict: SyncConflict): string[] {
+  if (!conflict.local || !conflict.remote) return [];
+  const local = conflict.local as unknown as Record<string, unknown>;
+  const remote = conflict.remote as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  return [...keys].filter((k) => JSON.stringify(local[k]) !== JSON.stringify(remote[k]));
+}
+
+export function SyncConflicts({ conflicts, onResolve }: SyncConflictsProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {conflicts.map((conflict) => {
+        const fields = changedFields(conflict);
+        return (
+          <Alert key={`${conflict.kind}-${conflict.id}`} className="border-warning/50 bg-warning/10">
+            <GitMerge className="h-4 w-4" />
+            <AlertTitle className="font-semibold">
+              Edited in another tab: {conflict.kind === "item" ? "item" : "semester"}{" "}
+              {describe(conflict.local ?? conflict.remote)}
+            </AlertTitle>
+            <AlertDescription>
+              <p>
+                This tab: {describe(conflict.local)} · Other tab: {describe(conflict.remote)}
+                {fields.length > 0 && <> · Differs in {fields.join(", ")}</>}
+              </p>
+              <div className="flex gap-2 mt-2">
+                <Button size="sm" variant="outline" onClick={() => onResolve(conflict, "local")}>
+                  Keep this tab&apos;s version
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onResolve(conflict, "remote")}>
+                  Use other tab&apos;s version
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        );
+      })}
+    </div>
+  );
+}
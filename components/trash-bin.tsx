@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TRASH_RETENTION_OPTIONS, type TrashEntry, type TrashKind } from "@/lib/trash";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+interface TrashBinProps {
+  entries: TrashEntry[];
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (entries: TrashEntry[]) => void;
+  onPurge: (entries: TrashEntry[]) => void;
+  /** Controlled open state - when provided with onOpenChange, enables controlled mode */
+  open?: boolean;
+  /** Callback when open state changes - use with open for controlled mode */
+  onOpenChange?: (open: boolean) => void;
+  /** When true, hides the trigger (use with controlled open/onOpenChange for custom triggers) */
+  hideTrigger?: boolean;
+}
+
+const kindLabels: Record<TrashKind, string> = {
+  item: "Item",
+  class: "Class",
+  semester: "Semester",
+};
+
+function daysLeft(deletedAt: string, retentionDays: number): number {
+  const expires = new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((expires - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+export function TrashBin({
+  entries,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onPurge,
+  open: controlledOpen,
+  onOpenChange: controlledOnOpenChange,
+  hideTrigger = false,
+}: TrashBinProps) {
+  const [internalOpen, setInternalOpen] = useState(false);
+  const isControlled = controlledOpen !== undefined && controlledOnOpenChange !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const setOpen = isControlled ? controlledOnOpenChange : setInternalOpen;
+
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+
+  const entryId = (entry: TrashEntry) => `${entry.kind}:${entry.key}`;
+  const selected = entries.filter((e) => selectedKeys.has(entryId(e)));
+  const allSelected = entries.length > 0 && selected.length === entries.length;
+
+  const toggle = (entry: TrashEntry, checked: boolean) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(entryId(entry));
+      else next.delete(entryId(entry));
+      return next;
+    });
+  };
+
+  const run = (action: (entries: TrashEntry[]) => void, chosen: TrashEntry[]) => {
+    if (chosen.length === 0) return;
+    action(chosen);
+    setSelectedKeys(new Set());
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setSelectedKeys(new Set());
+      }}
+    >
+      {!hideTrigger && (
+        <DialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="hidden md:inline-flex relative"
+            title="Trash"
+            aria-label="Trash"
+          >
+            <Trash2 className="h-4 w-4" />
+            {entries.length > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-muted-foreground text-background text-[10px] leading-4">
+                {entries.length}
+              </span>
+            )}
+          </Button>
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted items, classes and semesters wait here until they are restored or their
+            retention period runs out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="trash-retention" className="text-sm font-normal text-muted-foreground">
+              Delete permanently after
+            </Label>
+            <Select
+              value={String(retentionDays)}
+              onValueChange={(v) => onRetentionChange(Number(v))}
+            >
+              <SelectTrigger id="trash-retention" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between border-t border-border pt-3">
+                <Label className="flex items-center gap-2 text-sm font-normal cursor-pointer">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      setSelectedKeys(checked ? new Set(entries.map(entryId)) : new Set())
+                    }
+                  />
+                  {selected.length > 0 ? `${selected.length} selected` : "Select all"}
+                </Label>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    disabled={selected.length === 0}
+                    onClick={() => run(onRestore, selected)}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 text-destructive hover:text-destructive"
+                    disabled={selected.length === 0}
+                    onClick={() => run(onPurge, selected)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    Delete forever
+                  </Button>
+                </div>
+              </div>
+
+              <ul className="max-h-80 overflow-y-auto divide-y divide-border">
+                {entries.map((entry) => (
+                  <li key={entryId(entry)} className="flex items-center gap-3 py-2">
+                    <Checkbox
+                      checked={selectedKeys.has(entryId(entry))}
+                      onCheckedChange={(checked) => toggle(entry, checked === true)}
+                      aria-label={`Select ${entry.label}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                          {kindLabels[entry.kind]}
+                        </Badge>
+                        <span className="truncate text-sm font-medium">{entry.label}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[
+                          entry.context,
+                          entry.itemCount > 0 &&
+                            `${entry.itemCount} item${entry.itemCount === 1 ? "" : "s"}`,
+                          `deleted ${new Date(entry.deletedAt).toLocaleDateString()}`,
+                          `${daysLeft(entry.deletedAt, retentionDays)} days left`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      title="Restore"
+                      aria-label={`Restore ${entry.label}`}
+                      onClick={() => run(onRestore, [entry])}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+
+              <Button
+                variant="outline"
+                className="w-full text-destructive hover:text-destructive hover:bg-destructive/10 bg-transparent"
+                onClick={() => run(onPurge, entries)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty trash
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
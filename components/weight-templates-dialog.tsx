@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ClassInfo } from "@/lib/data";
+import { regularWeightTotal, type GradeWeights } from "@/lib/grades";
+import {
+  describeTemplate,
+  exportTemplates,
+  mergeTemplates,
+  newTemplateId,
+  parseTemplates,
+  type WeightTemplate,
+} from "@/lib/weight-templates";
+import { Download, Library, Trash2 } from "lucide-react";
+
+interface WeightTemplatesDialogProps {
+  templates: WeightTemplate[];
+  /** Called with the saved (non-built-in) templates after any change. */
+  onSavedTemplatesChange: (saved: WeightTemplate[]) => void;
+  /** Classes whose weights can be saved as a template. */
+  classes: ClassInfo[];
+  gradeWeights: Record<string, GradeWeights>;
+}
+
+function downloadTemplates(templates: WeightTemplate[]) {
+  const blob = new Blob([exportTemplates(templates)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "weight-templates.json";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function WeightTemplatesDialog({
+  templates,
+  onSavedTemplatesChange,
+  classes,
+  gradeWeights,
+}: WeightTemplatesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [sourceClass, setSourceClass] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState("");
+
+  const saved = templates.filter((t) => !t.builtIn);
+  // Only classes whose weights add up can become templates
+  const savableClasses = classes.filter(
+    (c) => gradeWeights[c.code] && Math.abs(regularWeightTotal(gradeWeights[c.code]) - 1) < 0.01
+  );
+
+  const handleSaveFromClass = () => {
+    const weights = gradeWeights[sourceClass];
+    const name = templateName.trim() || sourceClass;
+    if (!weights) return;
+    onSavedTemplatesChange(mergeTemplates(saved, [{ id: newTemplateId(), name, weights }]));
+    setSourceClass("");
+    setTemplateName("");
+  };
+
+  const handleImport = () => {
+    setImportError("");
+    try {
+      onSavedTemplatesChange(mergeTemplates(saved, parseTemplates(importText)));
+      setImportText("");
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Could not import templates.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Library className="h-4 w-4" />
+          Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Weight Templates</DialogTitle>
+          <DialogDescription>
+            Category weights to start new and imported classes from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between gap-2 rounded-md border border-border p-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {template.name}
+                    {template.builtIn && (
+                      <Badge variant="secondary" className="text-xs">
+                        Built-in
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{describeTemplate(template)}</p>
+                </div>
+                {!template.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive shrink-0"
+                    onClick={() => onSavedTemplatesChange(saved.filter((t) => t.id !== template.id))}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 border-t border-border pt-4">
+            <Label className="text-sm font-medium">Save from a class</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={sourceClass} onValueChange={setSourceClass}>
+                <SelectTrigger aria-label="Class to save">
+                  <SelectValue placeholder="Choose a class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {savableClasses.map((c) => (
+                    <SelectItem key={c.code} value={c.code}>
+                      {c.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder={sourceClass || "Template name"}
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                aria-label="Template name"
+              />
+            </div>
+            <Button size="sm" className="w-full" onClick={handleSaveFromClass} disabled={!sourceClass}>
+              Save Template
+            </Button>
+          </div>
+
+          <div className="space-y-2 border-t border-border pt-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Share</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => downloadTemplates(saved)}
+                disabled={saved.length === 0}
+              >
+                <Download className="h-4 w-4" />
+                Download JSON
+              </Button>
+            </div>
+            <Textarea
+              placeholder="Paste templates JSON someone shared with you"
+              value={importText}
+              onChange={(e) => {
+                setImportText(e.target.value);
+                setImportError("");
+              }}
+              className="min-h-[100px] font-mono text-xs"
+            />
+            {importError && <p className="text-xs text-destructive">{importError}</p>}
+            <Button size="sm" variant="outline" className="w-full" onClick={handleImport} disabled={!importText.trim()}>
+              Import Templates
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
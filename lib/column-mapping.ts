@@ -0,0 +1,135 @@
+/**
+ * Which AcademicItem field each spreadsheet column fills. Columns are matched
+ * to fields by header name, and the choices made on the import screen are
+ * remembered per header name so the next paste from the same sheet maps
+ * itself.
+ */
+
+export type ImportField =
+  | "class"
+  | "title"
+  | "type"
+  | "dueDate"
+  | "time"
+  | "description"
+  | "location"
+  | "grade"
+  | "gradeCategory"
+  | "isFinal"
+  | "ignore";
+
+/** One field per column, in column order. */
+export type ColumnMapping = ImportField[];
+
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: "class", label: "Class" },
+  { value: "title", label: "Title" },
+  { value: "type", label: "Type" },
+  { value: "dueDate", label: "Due date" },
+  { value: "time", label: "Time" },
+  { value: "description", label: "Description" },
+  { value: "location", label: "Location" },
+  { value: "grade", label: "Grade" },
+  { value: "gradeCategory", label: "Grade category" },
+  { value: "isFinal", label: "Final exam?" },
+  { value: "ignore", label: "Ignore" },
+];
+
+/** Fields an item can't be imported without. */
+export const REQUIRED_FIELDS: ImportField[] = ["class", "title", "dueDate"];
+
+// Checked in this order, so "Grade Category" is a category before it is a grade
+// and "Course Name" a class before it is a title
+const FIELD_ALIASES: [ImportField, string[]][] = [
+  ["class", ["class", "course", "subject"]],
+  ["title", ["title", "name", "assignment"]],
+  ["gradeCategory", ["grade category", "weight category", "weight"]],
+  ["grade", ["grade", "score", "mark", "points"]],
+  ["type", ["type", "category", "kind"]],
+  ["time", ["time"]],
+  ["dueDate", ["due date", "due", "date", "deadline"]],
+  ["description", ["description", "details", "notes", "note"]],
+  ["location", ["location", "room", "where", "place"]],
+  ["isFinal", ["final", "is final"]],
+];
+
+const MAPPINGS_KEY = "academic-dashboard:column-mappings";
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, " ");
+
+export const fieldLabel = (field: ImportField) =>
+  IMPORT_FIELDS.find((f) => f.value === field)?.label ?? field;
+
+/** Fields chosen before, by normalized header name. */
+export function getSavedColumnNames(): Record<string, ImportField> {
+  try {
+    const raw = localStorage.getItem(MAPPINGS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    const known = new Set(IMPORT_FIELDS.map((f) => f.value));
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, ImportField] => known.has(entry[1]))
+    );
+  } catch {
+    return {};
+  }
+}
+
+/** Remembers the field each header was mapped to, alongside earlier ones. */
+export function rememberColumnMapping(headers: string[], mapping: ColumnMapping) {
+  const saved = getSavedColumnNames();
+  headers.forEach((header, index) => {
+    const name = normalizeHeader(header);
+    if (name && mapping[index]) saved[name] = mapping[index];
+  });
+  localStorage.setItem(MAPPINGS_KEY, JSON.stringify(saved));
+}
+
+/**
+ * A field per header: a remembered choice first, then an exact alias, then a
+ * header containing an alias. Each field except "ignore" goes to one column
+ * at most; columns nothing fits are ignored.
+ */
+export function detectColumnMapping(
+  headers: string[],
+  saved: Record<string, ImportField> = {}
+): ColumnMapping {
+  const names = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = names.map((name) => saved[name] ?? "ignore");
+  const taken = new Set<ImportField>(mapping.filter((field) => field !== "ignore"));
+  const assign = (index: number, field: ImportField) => {
+    mapping[index] = field;
+    taken.add(field);
+  };
+
+  const unmapped = () =>
+    names.flatMap((name, index) => (mapping[index] === "ignore" && !(name in saved) && name ? [index] : []));
+
+  for (const index of unmapped()) {
+    const exact = FIELD_ALIASES.find(([field, aliases]) => !taken.has(field) && aliases.includes(names[index]));
+    if (exact) assign(index, exact[0]);
+  }
+  for (const index of unmapped()) {
+    const partial = FIELD_ALIASES.find(
+      ([field, aliases]) => !taken.has(field) && aliases.some((alias) => names[index].includes(alias))
+    );
+    if (partial) assign(index, partial[0]);
+  }
+
+  return mapping;
+}
+
+/**
+ * Required fields no column is mapped to. A workbook sheet's name can stand
+ * in for the class.
+ */
+export function missingFields(mapping: ColumnMapping, hasClassHint = false): ImportField[] {
+  return REQUIRED_FIELDS.filter((field) => !mapping.includes(field) && !(field === "class" && hasClassHint));
+}
+
+/** Fields mapped to more than one column. */
+export function duplicateFields(mapping: ColumnMapping): ImportField[] {
+  return IMPORT_FIELDS.map((f) => f.value).filter(
+    (field) => field !== "ignore" && mapping.filter((m) => m === field).length > 1
+  );
+}
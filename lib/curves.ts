@@ -0,0 +1,63 @@
+import type { AcademicItem, GradeCurve, GradeCurveKind } from "./data";
+import type { GradeWeights } from "./grades";
+
+/**
+ * Grade curves. Items keep their raw score; the curve attached to the item,
+ * or else to its category, is applied when the grade is calculated, so
+ * changing a curve never loses the original score.
+ */
+
+export const CURVE_KINDS: { value: GradeCurveKind; label: string }[] = [
+  { value: "add", label: "Add points" },
+  { value: "scale", label: "Scale top score to 100" },
+  { value: "sqrt", label: "Square root" },
+];
+
+/** The curve in force for an item: its own, else its category's. */
+export function curveFor(item: AcademicItem, weights: GradeWeights | undefined): GradeCurve | undefined {
+  return item.curve ?? (item.gradeCategory ? weights?.[item.gradeCategory]?.curve : undefined);
+}
+
+/**
+ * A raw percent after the curve. Curves only ever help, and never lift a score
+ * past 100; a score already above 100 keeps its extra credit.
+ */
+export function applyCurve(percent: number, curve: GradeCurve | undefined): number {
+  if (!curve) return percent;
+  let curved = percent;
+  switch (curve.kind) {
+    case "add":
+      curved = percent + (curve.amount ?? 0);
+      break;
+    case "scale":
+      curved = curve.topScore && curve.topScore > 0 ? (percent / curve.topScore) * 100 : percent;
+      break;
+    case "sqrt":
+      curved = Math.sqrt(Math.max(0, percent)) * 10;
+      break;
+  }
+  return Math.max(percent, Math.min(curved, 100));
+}
+
+/** "+5", "top 88% → 100", "√". */
+export function describeCurve(curve: GradeCurve): string {
+  switch (curve.kind) {
+    case "add":
+      return `+${curve.amount ?? 0}`;
+    case "scale":
+      return `top ${curve.topScore ?? 100}% → 100`;
+    case "sqrt":
+      return "√";
+  }
+}
+
+/** Problems that keep a curve from being saved; empty when valid. */
+export function validateCurve(curve: GradeCurve): string[] {
+  if (curve.kind === "add" && !(Number.isFinite(curve.amount) && curve.amount! > 0)) {
+    return ["Points to add must be more than 0"];
+  }
+  if (curve.kind === "scale" && !(Number.isFinite(curve.topScore) && curve.topScore! > 0 && curve.topScore! <= 100)) {
+    return ["Top score must be between 0 and 100"];
+  }
+  return [];
+}
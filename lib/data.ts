@@ -7,6 +7,14 @@ export type ItemType =
   | "homework";
 export type ItemStatus = "not-started" | "in-progress" | "completed";
 
+// A score as it stood from `at` on; no grade means the score was cleared.
+export interface GradeChange {
+  at: string; // ISO timestamp
+  grade?: number;
+  pointsEarned?: number;
+  pointsPossible?: number;
+}
+
 export interface AcademicItem {
   id: string;
   title: string;
@@ -18,12 +26,93 @@ export interface AcademicItem {
   time?: string;
   description?: string;
   location?: string;
-  grade?: number; // Score out of 100
+  grade?: number; // Score as a percent (0-100, more with extra credit); derived from points when those are set
+  pointsEarned?: number; // Raw score, e.g. 18 of 25
+  pointsPossible?: number; // Maximum raw score
   isLate?: boolean; // Late submission toggle
-  daysLate?: number; // Number of days late
+  daysLate?: number; // Number of days late; only used when there is no submittedAt
+  submittedAt?: string; // ISO timestamp of the submission; lateness is measured from it
   isFinal?: boolean; // Is this a final exam?
-  gradeCategory?: "exam" | "final" | "hw" | "quiz" | "project" | "lab" | "participation"; // Grade weight category
+  extraCredit?: boolean; // Its score adds to its category without adding to what's possible
+  curve?: GradeCurve; // Overrides its category's curve; `grade` stays the raw score
+  gradeHistory?: GradeChange[]; // Every change to the score, oldest first
+  gradeCategory?: "exam" | "final" | "hw" | "quiz" | "project" | "lab" | "participation" | "bonus"; // Grade weight category
   semesterId?: string; // Which semester this item belongs to
+  deletedAt?: string; // ISO timestamp when moved to the trash
+}
+
+// "weighted": each category's percent counts by its weight.
+// "points": the grade is total points earned over total points possible.
+export type GradingMode = "weighted" | "points";
+
+// How an instructor curves raw scores. "add": `amount` percentage points on
+// top. "scale": scores are scaled so a raw `topScore` percent becomes 100.
+// "sqrt": 10 × √percent, so 64 becomes 80.
+export type GradeCurveKind = "add" | "scale" | "sqrt";
+
+export interface GradeCurve {
+  kind: GradeCurveKind;
+  amount?: number; // For "add"
+  topScore?: number; // For "scale"
+}
+
+export interface GradeCategoryWeight {
+  weight: number;
+  label: string;
+  dropLowest?: number; // The lowest N graded items in this category don't count
+  curve?: GradeCurve; // Applies to the category's items that have no curve of their own
+}
+
+// "Final replaces lowest midterm": the source category's score stands in for
+// the lowest `count` items of the target category when that helps.
+export interface ReplacementRule {
+  source: string;
+  target: string;
+  count?: number; // Defaults to 1
+}
+
+// How a class docks late work. `amount` is taken off per started day or hour
+// after the due time, either in percentage points or in raw points.
+export interface LatePolicy {
+  amount: number;
+  unit: "percent" | "points";
+  per: "day" | "hour";
+  graceMinutes?: number; // Submissions within this many minutes of the due time aren't late
+  maxPenalty?: number; // Cap on the total deduction, in the same unit as `amount`
+  zeroAfterDays?: number; // Work more than this many days late scores 0
+  freeLateDays?: number; // Days of lateness forgiven over the semester, used up in due-date order
+}
+
+// A rule the class has to be passed by on its own, e.g. "must score at least
+// 60% on the final" or "exam average under 50% caps the grade at a D".
+// "category" scopes cover a grade category, "item" one item, "final" whichever
+// item is marked as the final.
+export type PassConditionScope = "category" | "item" | "final";
+
+// "fail": the class is failed whatever its percent. "cap": the grade is capped
+// at `capAt`. "warn": only flagged.
+export type PassConditionConsequence = "fail" | "cap" | "warn";
+
+export interface PassCondition {
+  id: string;
+  scope: PassConditionScope;
+  category?: string; // For "category" scopes
+  itemId?: string; // For "item" scopes
+  min: number; // Lowest percent that meets the condition
+  consequence: PassConditionConsequence;
+  capAt?: number; // For "cap" consequences
+  note?: string; // E.g. the syllabus wording
+}
+
+export interface GradeCutoff {
+  letter: string;
+  min: number; // Lowest percent that earns this letter
+  points?: number; // GPA points; left out on pass/fail scales
+}
+
+export interface GradeScale {
+  cutoffs: GradeCutoff[];
+  passFail?: boolean; // Pass/fail classes don't count toward GPA
 }
 
 export interface ClassInfo {
@@ -31,7 +120,14 @@ export interface ClassInfo {
   name: string;
   color: string;
   hasLatePenalty: boolean;
-  killSwitch?: string;
+  latePolicy?: LatePolicy; // Defaults to 10% per day when hasLatePenalty is set
+  passConditions?: PassCondition[];
+  extraCreditCap?: number; // Most percentage points extra credit can add to the grade
+  gradeScale?: GradeScale; // Defaults to the standard plus/minus scale
+  credits?: number; // Credit hours; defaults to 3 for GPA
+  gradingMode?: GradingMode; // Defaults to "weighted"
+  replacementRules?: ReplacementRule[];
+  deletedAt?: string; // ISO timestamp when moved to the trash
 }
 
 export interface Semester {
@@ -40,15 +136,13 @@ export interface Semester {
   startDate: string;
   endDate: string;
   classes: ClassInfo[];
-  gradeWeights: Record<string, Record<string, { weight: number; label: string }>>;
+  gradeWeights: Record<string, Record<string, GradeCategoryWeight>>;
+  deletedAt?: string; // ISO timestamp when moved to the trash
 }
 
 export const defaultClasses: ClassInfo[] = [];
 
-export const defaultGradeWeights: Record<
-  string,
-  Record<string, { weight: number; label: string }>
-> = {};
+export const defaultGradeWeights: Record<string, Record<string, GradeCategoryWeight>> = {};
 
 function createEmptySemester(): Semester {
   return {
@@ -68,16 +162,3 @@ export const initialItems: AcademicItem[] = [];
 // Backwards-compatible aliases
 export { defaultClasses as classes };
 export { defaultGradeWeights as gradeWeights };
-
-// Helper function to calculate late penalty
-export function calculateLatePenalty(
-  grade: number,
-  daysLate: number,
-  classCode: string
-): number {
-  const classInfo = defaultClasses.find((c) => c.code === classCode);
-  if (!classInfo?.hasLatePenalty || daysLate <= 0) return grade;
-  // 10% deduction per day late
-  const penalty = daysLate * 10;
-  return Math.max(0, grade - penalty);
-}
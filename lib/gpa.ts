@@ -0,0 +1,143 @@
+import type { AcademicItem, Semester } from "./data";
+import { calculateClassGrade } from "./grades";
+import { gradeScaleFor, letterFor } from "./grade-scales";
+
+/**
+ * Term and cumulative GPA. Each class's current grade is turned into GPA
+ * points through its own letter scale and weighted by its credit hours.
+ * Pass/fail classes and classes without grades yet don't count toward GPA;
+ * passed pass/fail credits still count as earned.
+ */
+
+export const DEFAULT_CREDITS = 3;
+
+export type GpaScale = "4.0" | "4.3";
+
+const GPA_SCALE_KEY = "academic-dashboard:gpa-scale";
+
+/** On the 4.0 scale an A+ counts as 4.0; the 4.3 scale keeps the extra 0.3. */
+export function getGpaScale(): GpaScale {
+  try {
+    return localStorage.getItem(GPA_SCALE_KEY) === "4.3" ? "4.3" : "4.0";
+  } catch {
+    return "4.0";
+  }
+}
+
+export function setGpaScale(scale: GpaScale) {
+  localStorage.setItem(GPA_SCALE_KEY, scale);
+}
+
+/** A letter's GPA points on the chosen scale. */
+export function scaledPoints(points: number, scale: GpaScale): number {
+  return scale === "4.0" ? Math.min(points, 4) : points;
+}
+
+/**
+ * A semester's items. Items saved before semesters existed have no
+ * `semesterId` and belong to whichever semester has their class.
+ */
+export function itemsForSemester(items: AcademicItem[], semester: Semester): AcademicItem[] {
+  const classCodes = new Set(semester.classes.map((c) => c.code));
+  return items.filter((item) =>
+    item.semesterId ? item.semesterId === semester.id : classCodes.has(item.classCode)
+  );
+}
+
+export interface ClassGpaEntry {
+  classCode: string;
+  name: string;
+  credits: number;
+  percent: number | null;
+  letter: string | null;
+  /** GPA points after the scale cap; undefined for pass/fail or ungraded classes. */
+  points?: number;
+  passFail: boolean;
+  passed: boolean;
+  /** Whether the class is part of the GPA. */
+  counted: boolean;
+}
+
+export interface TermGpa {
+  semesterId: string;
+  name: string;
+  classes: ClassGpaEntry[];
+  gpa: number | null;
+  /** Credits that count toward GPA this term. */
+  gpaCredits: number;
+  /** Credits of passed classes, pass/fail included. */
+  earnedCredits: number;
+  /** GPA over this and every earlier term. */
+  cumulativeGpa: number | null;
+}
+
+export interface GpaSummary {
+  terms: TermGpa[];
+  cumulativeGpa: number | null;
+  gpaCredits: number;
+  earnedCredits: number;
+}
+
+const weightedMean = (entries: ClassGpaEntry[]) => {
+  const credits = entries.reduce((sum, e) => sum + e.credits, 0);
+  if (credits === 0) return null;
+  return entries.reduce((sum, e) => sum + (e.points ?? 0) * e.credits, 0) / credits;
+};
+
+export function termGpa(items: AcademicItem[], semester: Semester, scale: GpaScale): Omit<TermGpa, "cumulativeGpa"> {
+  const semesterItems = itemsForSemester(items, semester);
+  const classes = semester.classes.map((classInfo): ClassGpaEntry => {
+    const { currentGrade, failed } = calculateClassGrade(
+      semesterItems,
+      classInfo.code,
+      semester.classes,
+      semester.gradeWeights
+    );
+    const gradeScale = gradeScaleFor(classInfo);
+    const letter = currentGrade !== null ? letterFor(currentGrade, gradeScale, failed) : null;
+    const points = letter?.points !== undefined ? scaledPoints(letter.points, scale) : undefined;
+    const passFail = !!gradeScale.passFail;
+    return {
+      classCode: classInfo.code,
+      name: classInfo.name,
+      credits: classInfo.credits ?? DEFAULT_CREDITS,
+      percent: currentGrade,
+      letter: letter?.letter ?? null,
+      points,
+      passFail,
+      passed: !!letter?.passed,
+      counted: !passFail && points !== undefined,
+    };
+  });
+
+  const counted = classes.filter((c) => c.counted);
+  return {
+    semesterId: semester.id,
+    name: semester.name,
+    classes,
+    gpa: weightedMean(counted),
+    gpaCredits: counted.reduce((sum, c) => sum + c.credits, 0),
+    earnedCredits: classes.filter((c) => c.passed).reduce((sum, c) => sum + c.credits, 0),
+  };
+}
+
+/** Every semester, oldest first, with a running cumulative GPA. */
+export function computeGpa(items: AcademicItem[], semesters: Semester[], scale: GpaScale): GpaSummary {
+  const ordered = [...semesters].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const counted: ClassGpaEntry[] = [];
+  let earnedCredits = 0;
+
+  const terms = ordered.map((semester): TermGpa => {
+    const term = termGpa(items, semester, scale);
+    counted.push(...term.classes.filter((c) => c.counted));
+    earnedCredits += term.earnedCredits;
+    return { ...term, cumulativeGpa: weightedMean(counted) };
+  });
+
+  return {
+    terms,
+    cumulativeGpa: weightedMean(counted),
+    gpaCredits: counted.reduce((sum, c) => sum + c.credits, 0),
+    earnedCredits,
+  };
+}
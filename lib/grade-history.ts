@@ -0,0 +1,163 @@
+import type { AcademicItem, ClassInfo, GradeChange } from "./data";
+import { calculateClassGrade, pointsToPercent, type GradeWeights } from "./grades";
+import { dueAt } from "./late-policy";
+
+/**
+ * Grade history. Every change to an item's score is appended to its
+ * `gradeHistory`, so a class's grade can be replayed as it stood on any day.
+ * Grades saved before history was kept count from their item's due time.
+ */
+
+const sameScore = (a: Omit<GradeChange, "at">, b: Omit<GradeChange, "at">) =>
+  a.grade === b.grade && a.pointsEarned === b.pointsEarned && a.pointsPossible === b.pointsPossible;
+
+const scoreOf = (item: AcademicItem): Omit<GradeChange, "at"> => ({
+  grade: item.grade,
+  pointsEarned: item.pointsEarned,
+  pointsPossible: item.pointsPossible,
+});
+
+/**
+ * Appends a history entry to every item in `next` whose score differs from
+ * its version in `prev`, including new items that arrive graded. Unchanged
+ * items are returned as they are.
+ */
+export function recordGradeChanges(
+  prev: AcademicItem[],
+  next: AcademicItem[],
+  at = new Date().toISOString()
+): AcademicItem[] {
+  const before = new Map(prev.map((item) => [item.id, item]));
+  return next.map((item) => {
+    const old = before.get(item.id);
+    if (old === item) return item;
+    const score = scoreOf(item);
+    const changed = old ? !sameScore(scoreOf(old), score) : item.grade !== undefined;
+    if (!changed) return item;
+    // Nothing to record when a grade is cleared that was never set
+    if (!old?.gradeHistory?.length && old?.grade === undefined && item.grade === undefined) return item;
+    // A grade set before history was kept starts the history at its due time
+    const history =
+      old && !old.gradeHistory?.length && old.grade !== undefined
+        ? [{ at: legacyGradedAt(old), ...scoreOf(old) }]
+        : (item.gradeHistory ?? []);
+    return { ...item, gradeHistory: [...history, { at, ...score }] };
+  });
+}
+
+function legacyGradedAt(item: AcademicItem): string {
+  return (dueAt(item) ?? new Date(0)).toISOString();
+}
+
+/** An item's score history, with a legacy grade standing in from its due time. */
+export function historyOf(item: AcademicItem): GradeChange[] {
+  if (item.gradeHistory?.length) return item.gradeHistory;
+  if (item.grade === undefined) return [];
+  return [{ at: legacyGradedAt(item), ...scoreOf(item) }];
+}
+
+/** The item as it stood at `time`: the latest change at or before it, else ungraded. */
+export function itemAsOf(item: AcademicItem, time: number): AcademicItem {
+  let latest: GradeChange | undefined;
+  for (const change of historyOf(item)) {
+    if (new Date(change.at).getTime() <= time) latest = change;
+  }
+  return {
+    ...item,
+    grade: latest?.grade,
+    pointsEarned: latest?.pointsEarned,
+    pointsPossible: latest?.pointsPossible,
+  };
+}
+
+export interface GradeTimelineEntry {
+  item: AcademicItem;
+  at: string;
+  /** Percent before this change; null when it was ungraded. */
+  from: number | null;
+  /** Percent after; null when the grade was cleared. */
+  to: number | null;
+}
+
+const percentOf = (change: Omit<GradeChange, "at"> | undefined) =>
+  change?.pointsEarned !== undefined && change.pointsPossible
+    ? pointsToPercent(change.pointsEarned, change.pointsPossible)
+    : (change?.grade ?? null);
+
+/** Every grade change across the items, newest first. */
+export function gradeTimeline(items: AcademicItem[]): GradeTimelineEntry[] {
+  return items
+    .flatMap((item) =>
+      historyOf(item).map((change, index, history) => ({
+        item,
+        at: change.at,
+        from: percentOf(history[index - 1]),
+        to: percentOf(change),
+      }))
+    )
+    .sort((a, b) => b.at.localeCompare(a.at));
+}
+
+export interface GradeTrendPoint {
+  /** Epoch milliseconds at the end of the day. */
+  time: number;
+  overall: number | null;
+  /** Average per category that had grades by then. */
+  categories: Record<string, number>;
+}
+
+export interface ExamMarker {
+  time: number;
+  title: string;
+  isFinal: boolean;
+}
+
+export interface GradeTrend {
+  points: GradeTrendPoint[];
+  exams: ExamMarker[];
+}
+
+const endOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+/**
+ * The class's running grade at the end of each day a grade changed, through
+ * `calculateClassGrade`, so weights, curves, drops and penalties count the way
+ * they did at the time; plus the exams to mark on the chart.
+ */
+export function gradeTrend(
+  items: AcademicItem[],
+  classCode: string,
+  classList: ClassInfo[],
+  gradeWeightsMap: Record<string, GradeWeights>
+): GradeTrend {
+  const classItems = items.filter((item) => item.classCode === classCode);
+  const days = [
+    ...new Set(
+      classItems.flatMap((item) => historyOf(item).map((change) => endOfDay(new Date(change.at).getTime())))
+    ),
+  ]
+    .filter((time) => Number.isFinite(time))
+    .sort((a, b) => a - b);
+
+  const points = days.map((time): GradeTrendPoint => {
+    const asOf = classItems.map((item) => itemAsOf(item, time));
+    const result = calculateClassGrade(asOf, classCode, classList, gradeWeightsMap);
+    const categories: Record<string, number> = {};
+    for (const [cat, data] of Object.entries(result.categoryBreakdown)) {
+      if (data.possible > 0) categories[cat] = pointsToPercent(data.earned + data.extra, data.possible);
+    }
+    return { time, overall: result.currentGrade, categories };
+  });
+
+  const exams = classItems
+    .filter((item) => item.type === "exam" || item.isFinal)
+    .map((item) => ({ time: dueAt(item)?.getTime() ?? NaN, title: item.title, isFinal: !!item.isFinal }))
+    .filter((marker) => Number.isFinite(marker.time))
+    .sort((a, b) => a.time - b.time);
+
+  return { points, exams };
+}
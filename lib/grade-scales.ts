@@ -0,0 +1,124 @@
+import type { ClassInfo, GradeScale } from "./data";
+
+/**
+ * Letter-grade scales. A scale is a list of cutoffs, highest first; a percent
+ * earns the first letter whose minimum it reaches. Pass/fail scales carry no
+ * GPA points, so those classes stay out of GPA.
+ */
+
+export const STANDARD_SCALE: GradeScale = {
+  cutoffs: [
+    { letter: "A", min: 93, points: 4.0 },
+    { letter: "A-", min: 90, points: 3.7 },
+    { letter: "B+", min: 87, points: 3.3 },
+    { letter: "B", min: 83, points: 3.0 },
+    { letter: "B-", min: 80, points: 2.7 },
+    { letter: "C+", min: 77, points: 2.3 },
+    { letter: "C", min: 73, points: 2.0 },
+    { letter: "C-", min: 70, points: 1.7 },
+    { letter: "D+", min: 67, points: 1.3 },
+    { letter: "D", min: 63, points: 1.0 },
+    { letter: "D-", min: 60, points: 0.7 },
+    { letter: "F", min: 0, points: 0 },
+  ],
+};
+
+export const GRADE_SCALE_PRESETS: { id: string; label: string; scale: GradeScale }[] = [
+  { id: "standard", label: "Plus/minus (A 93, A- 90, …)", scale: STANDARD_SCALE },
+  {
+    id: "with-a-plus",
+    label: "Plus/minus with A+ (97)",
+    scale: {
+      cutoffs: [
+        { letter: "A+", min: 97, points: 4.3 },
+        ...STANDARD_SCALE.cutoffs,
+      ],
+    },
+  },
+  {
+    id: "straight",
+    label: "Straight letters (90/80/70/60)",
+    scale: {
+      cutoffs: [
+        { letter: "A", min: 90, points: 4.0 },
+        { letter: "B", min: 80, points: 3.0 },
+        { letter: "C", min: 70, points: 2.0 },
+        { letter: "D", min: 60, points: 1.0 },
+        { letter: "F", min: 0, points: 0 },
+      ],
+    },
+  },
+  {
+    id: "pass-fail",
+    label: "Pass/fail (pass at 70)",
+    scale: {
+      passFail: true,
+      cutoffs: [
+        { letter: "P", min: 70 },
+        { letter: "F", min: 0 },
+      ],
+    },
+  },
+];
+
+export function gradeScaleFor(classInfo: ClassInfo | undefined): GradeScale {
+  return classInfo?.gradeScale ?? STANDARD_SCALE;
+}
+
+/** Highest cutoff first, so lookups can stop at the first match. */
+export function sortedCutoffs(scale: GradeScale) {
+  return [...scale.cutoffs].sort((a, b) => b.min - a.min);
+}
+
+export interface LetterGrade {
+  letter: string;
+  /** GPA points; undefined for pass/fail grades. */
+  points?: number;
+  color: string;
+  passed: boolean;
+}
+
+const LETTER_COLORS: Record<string, string> = {
+  A: "text-primary",
+  P: "text-primary",
+  B: "text-chart-1",
+  C: "text-warning",
+  D: "text-destructive",
+  F: "text-destructive",
+};
+
+/** `failed` forces the lowest letter, e.g. after a failed pass condition. */
+export function letterFor(percent: number, scale: GradeScale, failed = false): LetterGrade {
+  const cutoffs = sortedCutoffs(scale);
+  const lowest = cutoffs[cutoffs.length - 1];
+  const match = failed ? lowest : (cutoffs.find((c) => percent >= c.min) ?? lowest);
+  if (!match) return { letter: "--", color: "text-muted-foreground", passed: false };
+
+  const passed = match !== lowest;
+  const color =
+    LETTER_COLORS[match.letter.charAt(0).toUpperCase()] ??
+    (passed ? "text-chart-1" : "text-destructive");
+  return { letter: match.letter, points: scale.passFail ? undefined : match.points, color, passed };
+}
+
+const scaleKey = (scale: GradeScale) =>
+  JSON.stringify([!!scale.passFail, sortedCutoffs(scale).map((c) => [c.letter, c.min, c.points ?? null])]);
+
+/** The preset a scale was copied from, if it is still unchanged. */
+export function matchingPreset(scale: GradeScale | undefined) {
+  const target = scaleKey(scale ?? STANDARD_SCALE);
+  return GRADE_SCALE_PRESETS.find((p) => scaleKey(p.scale) === target);
+}
+
+/** Problems that would make a scale ambiguous, or an empty list. */
+export function validateGradeScale(scale: GradeScale): string[] {
+  const errors: string[] = [];
+  if (scale.cutoffs.length < 2) errors.push("A scale needs at least two grades.");
+  const letters = scale.cutoffs.map((c) => c.letter.trim());
+  if (letters.some((l) => !l)) errors.push("Every grade needs a letter.");
+  if (new Set(letters).size !== letters.length) errors.push("Letters must be unique.");
+  const mins = scale.cutoffs.map((c) => c.min);
+  if (new Set(mins).size !== mins.length) errors.push("Two grades share the same minimum.");
+  if (!mins.includes(0)) errors.push("The lowest grade should start at 0%.");
+  return errors;
+}
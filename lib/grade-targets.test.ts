@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { AcademicItem, ClassInfo } from "./data";
+import type { GradeWeights } from "./grades";
+import { solveGradeTargets } from "./grade-targets";
+
+const classInfo: ClassInfo = { code: "MATH101", name: "Calculus", color: "bg-chart-1", hasLatePenalty: false };
+
+const exam = (id: string, grade?: number, isFinal?: boolean): AcademicItem => ({
+  id,
+  title: id,
+  class: "Calculus",
+  classCode: "MATH101",
+  type: "exam",
+  status: grade === undefined ? "not-started" : "completed",
+  dueDate: "2026-04-01",
+  gradeCategory: isFinal ? "final" : "exam",
+  grade,
+  isFinal,
+});
+
+const solve = (items: AcademicItem[], weights: GradeWeights, solveFor?: "remaining" | "final") =>
+  solveGradeTargets(items, "MATH101", [classInfo], { MATH101: weights }, solveFor)!;
+
+const target = (solution: ReturnType<typeof solve>, letter: string) =>
+  solution.targets.find((t) => t.letter === letter)!;
+
+const halves: GradeWeights = { exam: { weight: 0.5, label: "Exams" }, final: { weight: 0.5, label: "Final" } };
+
+describe("solveGradeTargets", () => {
+  it("finds the lowest score on the remaining work that reaches a cutoff", () => {
+    const solution = solve([exam("midterm", 80), exam("final", undefined, true)], halves);
+    // (80 + s) / 2 >= 83
+    expect(target(solution, "B")).toMatchObject({ status: "reachable", best: 90 });
+    expect(target(solution, "B").needed).toBeCloseTo(86, 1);
+  });
+
+  it("marks cutoffs a perfect score can't reach as impossible", () => {
+    const solution = solve([exam("midterm", 80), exam("final", undefined, true)], halves);
+    expect(target(solution, "A")).toEqual({ letter: "A", min: 93, needed: null, status: "impossible", best: 90 });
+  });
+
+  it("marks cutoffs a zero on the remaining work still reaches as secured", () => {
+    const weights = { exam: { weight: 0.9, label: "Exams" }, final: { weight: 0.1, label: "Final" } };
+    const solution = solve([exam("midterm", 100), exam("final", undefined, true)], weights);
+    expect(target(solution, "A-")).toMatchObject({ needed: null, status: "secured" });
+    expect(target(solution, "A").needed).toBeCloseTo(30, 1);
+  });
+
+  it("counts a weighted category with no items yet as remaining work", () => {
+    const solution = solve([exam("midterm", 80)], halves);
+    expect(solution.unscheduled).toEqual(["final"]);
+    expect(target(solution, "B").needed).toBeCloseTo(86, 1);
+  });
+
+  it("holds other remaining work at its category average when solving for the final", () => {
+    const items = [exam("midterm", 70), exam("midterm-2"), exam("final", undefined, true)];
+    const solution = solve(items, halves, "final");
+    expect(solution.final?.id).toBe("final");
+    // Exams stay at 70, so (70 + s) / 2 >= 80
+    expect(target(solution, "B-").needed).toBeCloseTo(90, 1);
+  });
+
+  it("has nothing to solve for the final when there is no ungraded final", () => {
+    expect(solveGradeTargets([exam("midterm")], "MATH101", [classInfo], { MATH101: halves }, "final")).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import type { AcademicItem, ClassInfo } from "./data";
+import {
+  BONUS_CATEGORY,
+  calculateClassGrade,
+  itemScore,
+  pointsToPercent,
+  withPercentScore,
+  type GradeWeights,
+} from "./grades";
+import { gradeScaleFor, sortedCutoffs } from "./grade-scales";
+
+/**
+ * "What do I need?" Finds the lowest score that, earned on every piece of
+ * remaining work, still lands the class at each letter cutoff. The class is
+ * simulated through `calculateClassGrade`, so weights, points mode, drop and
+ * replacement rules, late penalties and pass conditions all count the way they do for real.
+ */
+
+export type TargetStatus = "secured" | "reachable" | "impossible";
+
+export interface GradeTarget {
+  letter: string;
+  min: number;
+  /** Score needed on the remaining work; null when secured or impossible. */
+  needed: number | null;
+  status: TargetStatus;
+  /** Class grade with a perfect score on everything remaining. */
+  best: number;
+}
+
+/** "remaining": one score on all ungraded work. "final": the final only, with the rest at current averages. */
+export type SolveFor = "remaining" | "final";
+
+export interface TargetSolution {
+  solveFor: SolveFor;
+  /** Ungraded items the solver fills in. */
+  remaining: AcademicItem[];
+  /** Weighted categories with no items at all yet, counted as one placeholder each. */
+  unscheduled: string[];
+  final?: AcademicItem;
+  targets: GradeTarget[];
+}
+
+const PLACEHOLDER_PREFIX = "__unscheduled:";
+
+/** Smallest score in [0, 100] that reaches `min`, to a hundredth; the grade never falls as the score rises. */
+function lowestScoreFor(min: number, gradeAt: (score: number) => number): number {
+  let low = 0;
+  let high = 100;
+  while (high - low > 0.01) {
+    const mid = (low + high) / 2;
+    if (gradeAt(mid) >= min) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+export function solveGradeTargets(
+  items: AcademicItem[],
+  classCode: string,
+  classList: ClassInfo[],
+  gradeWeightsMap: Record<string, GradeWeights>,
+  solveFor: SolveFor = "remaining"
+): TargetSolution | null {
+  const classInfo = classList.find((c) => c.code === classCode);
+  const mode = classInfo?.gradingMode ?? "weighted";
+  const weights = gradeWeightsMap[classCode] ?? {};
+  const classItems = items.filter((item) => item.classCode === classCode);
+  // Extra credit is never needed, so the solver leaves it ungraded
+  const counts = (item: AcademicItem) =>
+    (!!item.gradeCategory || mode === "points") && !item.extraCredit && item.gradeCategory !== BONUS_CATEGORY;
+
+  const remaining = classItems.filter((item) => counts(item) && !itemScore(item));
+  const final = remaining.find((item) => item.isFinal);
+
+  // A weighted category with nothing in it yet still has to be earned
+  const unscheduled =
+    mode === "weighted"
+      ? Object.keys(weights).filter(
+          (cat) =>
+            cat !== BONUS_CATEGORY &&
+            weights[cat].weight > 0 &&
+            !classItems.some((item) => item.gradeCategory === cat)
+        )
+      : [];
+  const placeholders: AcademicItem[] = unscheduled.map((cat) => ({
+    id: `${PLACEHOLDER_PREFIX}${cat}`,
+    title: weights[cat].label,
+    class: classInfo?.name ?? classCode,
+    classCode,
+    type: "assignment",
+    status: "not-started",
+    dueDate: "",
+    gradeCategory: cat as AcademicItem["gradeCategory"],
+  }));
+
+  if (solveFor === "final" && !final) return null;
+  if (remaining.length === 0 && placeholders.length === 0) return null;
+
+  // In "final" mode everything else is assumed to land at its category's current average
+  const current = calculateClassGrade(items, classCode, classList, gradeWeightsMap);
+  const assumed = (item: AcademicItem) => {
+    const cat = item.gradeCategory && current.categoryBreakdown[item.gradeCategory];
+    if (cat && cat.possible > 0) return pointsToPercent(cat.earned, cat.possible);
+    return current.currentGrade ?? 100;
+  };
+
+  const others = items.filter((item) => item.classCode !== classCode);
+  const gradeAt = (score: number) => {
+    const simulated = [
+      ...classItems.map((item) => {
+        if (!remaining.includes(item)) return item;
+        if (solveFor === "final" && item !== final) return withPercentScore(item, assumed(item));
+        return withPercentScore(item, score);
+      }),
+      ...placeholders.map((item) => withPercentScore(item, solveFor === "final" ? assumed(item) : score)),
+    ];
+    // A failed pass condition sinks the class whatever its percent
+    const result = calculateClassGrade([...others, ...simulated], classCode, classList, gradeWeightsMap);
+    return result.failed ? 0 : (result.currentGrade ?? 0);
+  };
+
+  const worst = gradeAt(0);
+  const best = gradeAt(100);
+  const targets: GradeTarget[] = sortedCutoffs(gradeScaleFor(classInfo))
+    .filter((cutoff) => cutoff.min > 0)
+    .map((cutoff) => {
+      if (worst >= cutoff.min) return { letter: cutoff.letter, min: cutoff.min, needed: null, status: "secured", best };
+      if (best < cutoff.min) return { letter: cutoff.letter, min: cutoff.min, needed: null, status: "impossible", best };
+      return {
+        letter: cutoff.letter,
+        min: cutoff.min,
+        needed: lowestScoreFor(cutoff.min, gradeAt),
+        status: "reachable",
+        best,
+      };
+    });
+
+  return { solveFor, remaining, unscheduled, final, targets };
+}
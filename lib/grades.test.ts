@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { AcademicItem, ClassInfo } from "./data";
+import { calculateClassGrade, type GradeWeights } from "./grades";
+
+const cls = (extra: Partial<ClassInfo> = {}): ClassInfo => ({
+  code: "MATH101",
+  name: "Calculus",
+  color: "bg-chart-1",
+  hasLatePenalty: false,
+  ...extra,
+});
+
+const graded = (
+  id: string,
+  gradeCategory: AcademicItem["gradeCategory"],
+  score: Partial<AcademicItem>
+): AcademicItem => ({
+  id,
+  title: id,
+  class: "Calculus",
+  classCode: "MATH101",
+  type: "homework",
+  status: "completed",
+  dueDate: "2026-02-15",
+  gradeCategory,
+  ...score,
+});
+
+const gradeOf = (items: AcademicItem[], classInfo: ClassInfo, weights?: GradeWeights) =>
+  calculateClassGrade(items, "MATH101", [classInfo], weights ? { MATH101: weights } : {});
+
+describe("calculateClassGrade in points mode", () => {
+  it("divides total earned by total possible and ignores weights", () => {
+    const items = [
+      graded("hw", "hw", { pointsEarned: 9, pointsPossible: 10 }),
+      graded("exam", "exam", { pointsEarned: 60, pointsPossible: 90 }),
+    ];
+    const weights = { hw: { weight: 0.9, label: "Homework" }, exam: { weight: 0.1, label: "Exams" } };
+    const result = gradeOf(items, cls({ gradingMode: "points" }), weights);
+    expect(result.currentGrade).toBeCloseTo(69);
+    expect(result.earnedPoints).toBeCloseTo(69);
+    expect(result.possiblePoints).toBeCloseTo(100);
+  });
+
+  it("counts items with no category", () => {
+    const items = [graded("quiz", undefined, { pointsEarned: 15, pointsPossible: 20 })];
+    expect(gradeOf(items, cls({ gradingMode: "points" })).currentGrade).toBeCloseTo(75);
+  });
+});
+
+describe("calculateClassGrade drop-lowest", () => {
+  const items = [
+    graded("q1", "quiz", { grade: 50 }),
+    graded("q2", "quiz", { grade: 90 }),
+    graded("q3", "quiz", { grade: 80 }),
+  ];
+
+  it("leaves out the lowest N scores", () => {
+    const result = gradeOf(items, cls(), { quiz: { weight: 1, label: "Quizzes", dropLowest: 1 } });
+    expect(result.currentGrade).toBeCloseTo(85);
+    expect(result.categoryBreakdown.quiz.dropped.map((e) => e.item.id)).toEqual(["q1"]);
+  });
+
+  it("always keeps one score", () => {
+    const result = gradeOf(items, cls(), { quiz: { weight: 1, label: "Quizzes", dropLowest: 5 } });
+    expect(result.currentGrade).toBeCloseTo(90);
+    expect(result.categoryBreakdown.quiz.dropped).toHaveLength(2);
+  });
+});
+
+describe("calculateClassGrade replacement", () => {
+  const weights: GradeWeights = {
+    exam: { weight: 0.5, label: "Exams" },
+    final: { weight: 0.5, label: "Final" },
+  };
+  const rules = { replacementRules: [{ source: "final", target: "exam" }] };
+
+  it("raises the lowest target score to the source percent", () => {
+    const items = [
+      graded("m1", "exam", { grade: 60 }),
+      graded("m2", "exam", { grade: 80 }),
+      graded("final", "final", { grade: 90 }),
+    ];
+    const result = gradeOf(items, cls(rules), weights);
+    expect(result.currentGrade).toBeCloseTo(87.5);
+    expect(result.categoryBreakdown.exam.replaced).toEqual([
+      { item: items[0], source: "Final", fromPercent: 60, toPercent: 90 },
+    ]);
+  });
+
+  it("never lowers a score", () => {
+    const items = [graded("m1", "exam", { grade: 80 }), graded("final", "final", { grade: 70 })];
+    const result = gradeOf(items, cls(rules), weights);
+    expect(result.currentGrade).toBeCloseTo(75);
+    expect(result.categoryBreakdown.exam.replaced).toEqual([]);
+  });
+
+  it("runs before drop-lowest", () => {
+    const items = [
+      graded("m1", "exam", { grade: 40 }),
+      graded("m2", "exam", { grade: 70 }),
+      graded("final", "final", { grade: 90 }),
+    ];
+    const dropping = { ...weights, exam: { ...weights.exam, dropLowest: 1 } };
+    const result = gradeOf(items, cls(rules), dropping);
+    // m1 is raised to 90 first, so m2 is the one dropped
+    expect(result.categoryBreakdown.exam.dropped.map((e) => e.item.id)).toEqual(["m2"]);
+    expect(result.currentGrade).toBeCloseTo(90);
+  });
+});
+
+describe("calculateClassGrade extra credit", () => {
+  const weights: GradeWeights = {
+    exam: { weight: 1, label: "Exams" },
+    bonus: { weight: 0.05, label: "Bonus" },
+  };
+
+  it("adds scores above full marks on top of the grade", () => {
+    const result = gradeOf([graded("e1", "exam", { pointsEarned: 22, pointsPossible: 20 })], cls(), weights);
+    expect(result).toMatchObject({ baseGrade: 100, extraCredit: 10, currentGrade: 110 });
+  });
+
+  it("adds items flagged as extra credit without adding to what's possible", () => {
+    const items = [
+      graded("e1", "exam", { pointsEarned: 80, pointsPossible: 100 }),
+      graded("ec", "exam", { pointsEarned: 5, pointsPossible: 10, extraCredit: true }),
+    ];
+    const result = gradeOf(items, cls(), weights);
+    expect(result.baseGrade).toBeCloseTo(80);
+    expect(result.currentGrade).toBeCloseTo(85);
+  });
+
+  it("adds the bonus category's average times its weight", () => {
+    const items = [graded("e1", "exam", { grade: 80 }), graded("b1", "bonus", { grade: 80 })];
+    const result = gradeOf(items, cls(), weights);
+    expect(result.extraCredit).toBeCloseTo(4);
+    expect(result.currentGrade).toBeCloseTo(84);
+  });
+
+  it("holds extra credit to the class cap", () => {
+    const items = [graded("e1", "exam", { grade: 80 }), graded("b1", "bonus", { grade: 100 })];
+    const result = gradeOf(items, cls({ extraCreditCap: 2 }), weights);
+    expect(result).toMatchObject({ extraCredit: 2, extraCreditCapped: true, currentGrade: 82 });
+  });
+
+  it("waits for a regular grade before adding bonus points", () => {
+    const result = gradeOf([graded("b1", "bonus", { grade: 100 })], cls(), weights);
+    expect(result).toMatchObject({ currentGrade: null, extraCredit: 0 });
+  });
+});
@@ -0,0 +1,428 @@
+import type {
+  AcademicItem,
+  ClassInfo,
+  GradeCategoryWeight,
+  GradeCurve,
+  GradingMode,
+  PassCondition,
+  ReplacementRule,
+} from "./data";
+import { applyPenalty, latePenaltiesForClass, type LatePenalty } from "./late-policy";
+import { applyCurve, curveFor } from "./curves";
+
+export type GradeWeights = Record<string, GradeCategoryWeight>;
+
+/**
+ * Items in this category add on top of the grade instead of counting toward
+ * it: its weight is the most it can add when every bonus item is aced, and it
+ * stays out of the 100% the other weights sum to.
+ */
+export const BONUS_CATEGORY = "bonus";
+
+/** Sum of the weights that must add up to 100%; the bonus category sits on top. */
+export function regularWeightTotal(weights: GradeWeights): number {
+  return Object.entries(weights).reduce((sum, [cat, w]) => (cat === BONUS_CATEGORY ? sum : sum + w.weight), 0);
+}
+
+export interface ScoredItem {
+  item: AcademicItem;
+  earned: number;
+  possible: number;
+}
+
+/** An item whose score a replacement rule raised, e.g. a midterm replaced by the final. */
+export interface ReplacedScore {
+  item: AcademicItem;
+  source: string;
+  fromPercent: number;
+  toPercent: number;
+}
+
+/** An item's raw score beside what its curve made of it. */
+export interface CurvedScore {
+  item: AcademicItem;
+  rawPercent: number;
+  curvedPercent: number;
+}
+
+export interface CategoryResult {
+  earned: number;
+  possible: number;
+  items: number;
+  weight: number;
+  /**
+   * Extra-credit points earned on top of `earned`, in the same scale: scores
+   * above full marks and items flagged as extra credit. They never add to
+   * `possible`.
+   */
+  extra: number;
+  /** Graded items left out by the category's drop-lowest rule. */
+  dropped: ScoredItem[];
+  replaced: ReplacedScore[];
+  curved: CurvedScore[];
+}
+
+/**
+ * "pending": nothing in scope is graded yet. "at-risk": at or above the
+ * threshold but within AT_RISK_MARGIN of it. "violated": below it.
+ */
+export type PassConditionStatus = "pending" | "met" | "at-risk" | "violated";
+
+export const AT_RISK_MARGIN = 5;
+
+export interface PassConditionResult {
+  condition: PassCondition;
+  /** What the condition is about, e.g. "Final Exam" or "Exams". */
+  subject: string;
+  /** Current percent in scope; null while pending. */
+  current: number | null;
+  /** Percentage points above (positive) or below (negative) the threshold. */
+  margin: number | null;
+  status: PassConditionStatus;
+  /** Nothing in scope is left ungraded, so a violation can no longer be undone. */
+  settled: boolean;
+}
+
+export interface ClassGradeResult {
+  mode: GradingMode;
+  /** Including extra credit, after any cap from a settled, violated pass condition. */
+  currentGrade: number | null;
+  /** Grade before extra credit. */
+  baseGrade: number | null;
+  /** Percentage points extra credit adds, after the class cap. */
+  extraCredit: number;
+  /** The class's extra-credit cap held `extraCredit` down. */
+  extraCreditCapped: boolean;
+  earnedPoints: number;
+  possiblePoints: number;
+  categoryBreakdown: Record<string, CategoryResult>;
+  conditions: PassConditionResult[];
+  /** A settled "fail" pass condition was violated: the class is failed whatever its percent. */
+  failed: boolean;
+}
+
+export interface ItemScore {
+  earned: number;
+  possible: number;
+}
+
+/** Percent for a raw score, e.g. 18/25 → 72. */
+export function pointsToPercent(earned: number, possible: number): number {
+  return possible > 0 ? (earned / possible) * 100 : 0;
+}
+
+/** The score as entered, before any curve or late penalty; null when ungraded. */
+export function rawPercent(item: AcademicItem): number | null {
+  if (item.pointsEarned !== undefined && item.pointsPossible) {
+    return pointsToPercent(item.pointsEarned, item.pointsPossible);
+  }
+  return item.grade ?? null;
+}
+
+/**
+ * What a graded item contributes, curved and then docked its late penalty.
+ * Items graded in points count with their own maximum; percent-only grades
+ * count out of 100.
+ */
+export function itemScore(item: AcademicItem, penalty?: LatePenalty, curve?: GradeCurve): ItemScore | null {
+  const raw = rawPercent(item);
+  if (raw === null) return null;
+
+  const possible = item.pointsEarned !== undefined && item.pointsPossible ? item.pointsPossible : 100;
+  return { earned: (applyPenalty(applyCurve(raw, curve), penalty) / 100) * possible, possible };
+}
+
+/** An item as if it were graded `percent`, keeping its points scale when it has one. */
+export function withPercentScore(item: AcademicItem, percent: number): AcademicItem {
+  return item.pointsPossible
+    ? { ...item, grade: percent, pointsEarned: (percent / 100) * item.pointsPossible }
+    : { ...item, grade: percent, pointsEarned: undefined };
+}
+
+const percentOf = (entry: ItemScore) => pointsToPercent(entry.earned, entry.possible);
+
+/** Lowest percent first; ties keep their original order. */
+function byPercent(entries: ScoredItem[]): ScoredItem[] {
+  return [...entries].sort((a, b) => percentOf(a) - percentOf(b));
+}
+
+/**
+ * Leaves out the `count` lowest entries, always keeping at least one so a
+ * category never empties itself.
+ */
+export function dropLowest(entries: ScoredItem[], count: number) {
+  const n = Math.min(Math.max(0, Math.floor(count)), entries.length - 1);
+  if (n <= 0) return { kept: entries, dropped: [] as ScoredItem[] };
+  const dropped = byPercent(entries).slice(0, n);
+  return { kept: entries.filter((e) => !dropped.includes(e)), dropped };
+}
+
+/**
+ * Raises the lowest target items to the source category's percent, but only
+ * where that helps: a weak final never lowers a midterm.
+ */
+function applyReplacement(
+  rule: ReplacementRule,
+  scored: Record<string, ScoredItem[]>,
+  breakdown: Record<string, CategoryResult>,
+  weights: GradeWeights | undefined
+) {
+  const sources = scored[rule.source];
+  const targets = scored[rule.target];
+  if (!sources?.length || !targets?.length || rule.source === rule.target) return;
+
+  const sourcePercent = percentOf({
+    earned: sources.reduce((sum, e) => sum + e.earned, 0),
+    possible: sources.reduce((sum, e) => sum + e.possible, 0),
+  });
+  const sourceLabel = weights?.[rule.source]?.label ?? rule.source;
+
+  for (const entry of byPercent(targets).slice(0, rule.count ?? 1)) {
+    const fromPercent = percentOf(entry);
+    if (fromPercent >= sourcePercent) continue;
+    targets[targets.indexOf(entry)] = { ...entry, earned: (sourcePercent / 100) * entry.possible };
+    breakdown[rule.target].replaced.push({
+      item: entry.item,
+      source: sourceLabel,
+      fromPercent,
+      toPercent: sourcePercent,
+    });
+  }
+}
+
+/** Splits a score into what counts toward the grade and what is extra credit on top. */
+function splitExtra(entry: ScoredItem): { regular: ScoredItem; extra: number } {
+  if (entry.item.extraCredit || entry.item.gradeCategory === BONUS_CATEGORY) {
+    return { regular: { ...entry, earned: 0, possible: 0 }, extra: entry.earned };
+  }
+  const earned = Math.min(entry.earned, entry.possible);
+  return { regular: { ...entry, earned }, extra: entry.earned - earned };
+}
+
+/**
+ * A class's current grade from its graded items. In "weighted" mode each
+ * category's points ratio counts by its weight (renormalized over categories
+ * that have grades yet); in "points" mode it is total earned over total
+ * possible, and weights are ignored. Replacement rules run before each
+ * category's drop-lowest rule, in both modes.
+ *
+ * Curves (the item's own, else its category's) apply before late penalties.
+ * Extra credit (scores above full marks, items flagged as extra credit and the
+ * bonus category) adds to the grade without adding to what's possible, up to
+ * the class's `extraCreditCap`.
+ */
+export function calculateClassGrade(
+  items: AcademicItem[],
+  classCode: string,
+  classList: ClassInfo[],
+  gradeWeightsMap: Record<string, GradeWeights>
+): ClassGradeResult {
+  const classInfo = classList.find((c) => c.code === classCode);
+  const mode: GradingMode = classInfo?.gradingMode ?? "weighted";
+  const weights = gradeWeightsMap[classCode];
+  const classItems = items.filter(
+    (item) => item.classCode === classCode && (item.gradeCategory || mode === "points")
+  );
+
+  if (!weights && mode === "weighted")
+    return {
+      mode,
+      currentGrade: null,
+      earnedPoints: 0,
+      possiblePoints: 0,
+      baseGrade: null,
+      extraCredit: 0,
+      extraCreditCapped: false,
+      categoryBreakdown: {},
+      conditions: [],
+      failed: false,
+    };
+
+  const categoryBreakdown: Record<string, CategoryResult> = {};
+  const emptyCategory = (weight: number): CategoryResult => ({
+    earned: 0,
+    possible: 0,
+    items: 0,
+    weight,
+    extra: 0,
+    dropped: [],
+    replaced: [],
+    curved: [],
+  });
+
+  // Initialize categories
+  for (const [cat, info] of Object.entries(weights ?? {})) {
+    categoryBreakdown[cat] = emptyCategory(info.weight);
+  }
+
+  // Free late days are spent across all of the class's items, graded or not
+  const penalties = latePenaltiesForClass(items, classInfo);
+
+  // Score every graded item, grouped by category
+  const scored: Record<string, ScoredItem[]> = {};
+  const uncategorized: ScoredItem[] = [];
+  // Extra-credit points with no category; they only count in points mode
+  let uncategorizedExtra = 0;
+  for (const item of classItems) {
+    const curve = curveFor(item, weights);
+    const score = itemScore(item, penalties.get(item.id), curve);
+    if (!score) continue;
+    const { regular, extra } = splitExtra({ item, ...score });
+    const cat = item.gradeCategory;
+    if (!cat) {
+      uncategorizedExtra += extra;
+      if (regular.possible > 0) uncategorized.push(regular);
+      continue;
+    }
+    if (!categoryBreakdown[cat]) {
+      if (mode === "weighted") continue;
+      categoryBreakdown[cat] = emptyCategory(0);
+    }
+    const data = categoryBreakdown[cat];
+    data.extra += extra;
+    const raw = rawPercent(item)!;
+    const curvedPercent = applyCurve(raw, curve);
+    if (curvedPercent !== raw) data.curved.push({ item, rawPercent: raw, curvedPercent });
+    if (regular.possible > 0) {
+      (scored[cat] ??= []).push(regular);
+    } else {
+      // Pure extra-credit items stay out of drop and replacement rules
+      data.items += 1;
+      // The bonus category's possible is what its extra is measured against, never a denominator
+      if (cat === BONUS_CATEGORY) data.possible += score.possible;
+    }
+  }
+
+  for (const rule of classInfo?.replacementRules ?? []) {
+    applyReplacement(rule, scored, categoryBreakdown, weights);
+  }
+
+  let totalEarned = 0;
+  let totalPossible = 0;
+  let totalExtra = uncategorizedExtra;
+  for (const entry of uncategorized) {
+    totalEarned += entry.earned;
+    totalPossible += entry.possible;
+  }
+
+  for (const data of Object.values(categoryBreakdown)) totalExtra += data.extra;
+
+  for (const [cat, entries] of Object.entries(scored)) {
+    const { kept, dropped } = dropLowest(entries, weights?.[cat]?.dropLowest ?? 0);
+    const data = categoryBreakdown[cat];
+    data.dropped = dropped;
+    for (const entry of kept) {
+      data.earned += entry.earned;
+      data.possible += entry.possible;
+      data.items += 1;
+      totalEarned += entry.earned;
+      totalPossible += entry.possible;
+    }
+  }
+
+  let baseGrade: number | null;
+  let uncappedExtra: number;
+  // Percentage points per point of grade, to turn the result back into points
+  let pointsPerPercent: number;
+  if (mode === "points") {
+    baseGrade = totalPossible > 0 ? pointsToPercent(totalEarned, totalPossible) : null;
+    uncappedExtra = pointsToPercent(totalExtra, totalPossible);
+    pointsPerPercent = totalPossible / 100;
+  } else {
+    // Calculate weighted average based on graded categories only
+    let totalWeightedEarned = 0;
+    let totalWeightedExtra = 0;
+    let totalWeightUsed = 0;
+
+    // Extra credit in a category with nothing regular graded yet waits until there is
+    for (const [cat, data] of Object.entries(categoryBreakdown)) {
+      if (cat === BONUS_CATEGORY) continue;
+      if (data.possible > 0) {
+        totalWeightedEarned += pointsToPercent(data.earned, data.possible) * data.weight;
+        totalWeightedExtra += pointsToPercent(data.extra, data.possible) * data.weight;
+        totalWeightUsed += data.weight;
+      }
+    }
+    baseGrade = totalWeightUsed > 0 ? totalWeightedEarned / totalWeightUsed : null;
+    uncappedExtra = totalWeightUsed > 0 ? totalWeightedExtra / totalWeightUsed : 0;
+    // The bonus category adds its average times its weight, e.g. 80% of a 5% bonus is +4
+    const bonus = categoryBreakdown[BONUS_CATEGORY];
+    if (bonus && bonus.possible > 0) {
+      uncappedExtra += pointsToPercent(bonus.extra, bonus.possible) * bonus.weight;
+    }
+    pointsPerPercent = totalWeightUsed;
+  }
+
+  const cap = classInfo?.extraCreditCap;
+  const extraCredit = baseGrade === null ? 0 : cap !== undefined ? Math.min(uncappedExtra, cap) : uncappedExtra;
+  const extraCreditCapped = baseGrade !== null && cap !== undefined && uncappedExtra > cap;
+  let currentGrade = baseGrade === null ? null : baseGrade + extraCredit;
+  const earnedPoints = (currentGrade ?? 0) * pointsPerPercent;
+  const possiblePoints = 100 * pointsPerPercent;
+
+  const conditions = (classInfo?.passConditions ?? []).map((condition) =>
+    evaluatePassCondition(
+      condition,
+      items.filter((item) => item.classCode === classCode),
+      categoryBreakdown,
+      penalties,
+      weights
+    )
+  );
+  const broken = conditions.filter((c) => c.status === "violated" && c.settled);
+  const failed = broken.some((c) => c.condition.consequence === "fail");
+  for (const { condition } of broken) {
+    if (condition.consequence === "cap" && condition.capAt !== undefined && currentGrade !== null) {
+      currentGrade = Math.min(currentGrade, condition.capAt);
+    }
+  }
+
+  return {
+    mode,
+    currentGrade,
+    baseGrade,
+    extraCredit,
+    extraCreditCapped,
+    earnedPoints,
+    possiblePoints,
+    categoryBreakdown,
+    conditions,
+    failed,
+  };
+}
+
+function evaluatePassCondition(
+  condition: PassCondition,
+  classItems: AcademicItem[],
+  categoryBreakdown: Record<string, CategoryResult>,
+  penalties: Map<string, LatePenalty>,
+  weights: GradeWeights | undefined
+): PassConditionResult {
+  let subject: string;
+  let current: number | null = null;
+  let settled: boolean;
+
+  if (condition.scope === "category") {
+    const cat = condition.category ?? "";
+    const data = categoryBreakdown[cat];
+    subject = weights?.[cat]?.label ?? cat;
+    if (data && data.possible > 0) current = pointsToPercent(data.earned, data.possible);
+    settled = classItems
+      .filter((item) => item.gradeCategory === cat)
+      .every((item) => itemScore(item) !== null);
+  } else {
+    const item =
+      condition.scope === "final"
+        ? classItems.find((i) => i.isFinal)
+        : classItems.find((i) => i.id === condition.itemId);
+    subject = item?.title ?? (condition.scope === "final" ? "Final exam" : "Missing item");
+    const score = item && itemScore(item, penalties.get(item.id), curveFor(item, weights));
+    if (score) current = pointsToPercent(score.earned, score.possible);
+    settled = !!score;
+  }
+
+  const margin = current !== null ? current - condition.min : null;
+  const status: PassConditionStatus =
+    margin === null ? "pending" : margin < 0 ? "violated" : margin < AT_RISK_MARGIN ? "at-risk" : "met";
+  return { condition, subject, current, margin, status, settled };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, historyReducer, type HistoryState } from "./history";
+
+const add = (amount: number, id?: string) =>
+  ({ type: "execute", command: { id, label: `Add ${amount}`, run: (n: number) => n + amount } }) as const;
+
+describe("historyReducer undo", () => {
+  it("undoes the latest edit when it is the one named", () => {
+    const history = historyReducer(historyReducer(createHistory(0), add(1, "a")), add(2, "b"));
+    expect(historyReducer(history, { type: "undo", entryId: "b" }).present).toBe(1);
+  });
+
+  it("ignores an undo for an edit that something else has followed", () => {
+    const history = historyReducer(historyReducer(createHistory(0), add(1, "a")), add(2, "b"));
+    expect(historyReducer(history, { type: "undo", entryId: "a" })).toBe(history);
+  });
+
+  it("keeps the entry's id through undo and redo", () => {
+    let history: HistoryState<number> = historyReducer(createHistory(0), add(1, "a"));
+    history = historyReducer(history, { type: "undo" });
+    history = historyReducer(history, { type: "redo" });
+    expect(history.present).toBe(1);
+    expect(historyReducer(history, { type: "undo", entryId: "a" }).present).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Undo/redo over an immutable state value. Every mutation goes through a
+ * Command; the history keeps the state from before each command, which is
+ * cheap because unchanged records are shared between snapshots.
+ */
+
+export interface Command<S> {
+  /** Shown in undo toasts, e.g. `Deleted "Quiz 3"`. */
+  label: string;
+  run: (state: S) => S;
+  /** Kept on the history entry so an undo can name the edit it is for. */
+  id?: string;
+}
+
+export interface HistoryEntry<S> {
+  id?: string;
+  label: string;
+  state: S;
+}
+
+export interface HistoryState<S> {
+  past: HistoryEntry<S>[];
+  present: S;
+  future: HistoryEntry<S>[];
+}
+
+export type HistoryAction<S> =
+  | { type: "execute"; command: Command<S> }
+  /**
+   * With `entryId`, undoes only while that entry is the latest one, so an
+   * Undo button left over from an earlier edit can't revert a later one.
+   */
+  | { type: "undo"; entryId?: string }
+  | { type: "redo" }
+  /** Changes `present` without recording history (navigation, not data). */
+  | { type: "set"; update: (state: S) => S }
+  /**
+   * Applies a change made elsewhere (another tab) to `present` and to every
+   * history entry, so undoing a local edit does not revert it.
+   */
+  | { type: "rebase"; update: (state: S) => S }
+  /** Replaces everything and forgets history, e.g. after loading from storage. */
+  | { type: "reset"; state: S };
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<S>(present: S): HistoryState<S> {
+  return { past: [], present, future: [] };
+}
+
+export function historyReducer<S>(history: HistoryState<S>, action: HistoryAction<S>): HistoryState<S> {
+  switch (action.type) {
+    case "execute": {
+      const next = action.command.run(history.present);
+      if (next === history.present) return history;
+      return {
+        past: [
+          ...history.past,
+          { id: action.command.id, label: action.command.label, state: history.present },
+        ].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      };
+    }
+    case "undo": {
+      const previous = history.past[history.past.length - 1];
+      if (!previous || (action.entryId !== undefined && previous.id !== action.entryId)) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: previous.state,
+        future: [{ id: previous.id, label: previous.label, state: history.present }, ...history.future],
+      };
+    }
+    case "redo": {
+      const next = history.future[0];
+      if (!next) return history;
+      return {
+        past: [...history.past, { id: next.id, label: next.label, state: history.present }],
+        present: next.state,
+        future: history.future.slice(1),
+      };
+    }
+    case "set": {
+      const next = action.update(history.present);
+      return next === history.present ? history : { ...history, present: next };
+    }
+    case "rebase": {
+      const rebaseEntry = (entry: HistoryEntry<S>) => ({ ...entry, state: action.update(entry.state) });
+      return {
+        past: history.past.map(rebaseEntry),
+        present: action.update(history.present),
+        future: history.future.map(rebaseEntry),
+      };
+    }
+    case "reset":
+      return createHistory(action.state);
+  }
+}
+
+export function canUndo<S>(history: HistoryState<S>): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo<S>(history: HistoryState<S>): boolean {
+  return history.future.length > 0;
+}
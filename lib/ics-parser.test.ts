@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { isIcsText, parseIcs } from "./ics-parser";
+
+// Floating times (no Z or TZID) are read as local time, so results don't depend on the machine's zone
+const calendar = (...lines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+const event = (...lines: string[]) => ["BEGIN:VEVENT", "UID:lecture@example.edu", ...lines, "END:VEVENT"];
+
+const dueDates = (text: string) => parseIcs(text).items.map((item) => item.dueDate);
+
+describe("parseIcs recurrence", () => {
+  it("follows a weekly BYDAY rule and leaves out its EXDATEs", () => {
+    const text = calendar(
+      ...event(
+        "SUMMARY:MATH101 Quiz",
+        // January 12, 2026 is a Monday
+        "DTSTART:20260112T090000",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4",
+        "EXDATE:20260114T090000"
+      )
+    );
+    const { items } = parseIcs(text);
+    expect(items.map((i) => i.dueDate)).toEqual(["2026-01-12", "2026-01-19", "2026-01-21"]);
+    expect(items[0]).toMatchObject({ time: "9:00 AM", classCode: "MATH101", title: "Quiz", type: "quiz" });
+  });
+
+  it("includes an occurrence that falls exactly on UNTIL", () => {
+    const rule = (until: string) =>
+      calendar(...event("SUMMARY:CS200 Lab", "DTSTART:20260112T090000", `RRULE:FREQ=WEEKLY;UNTIL=${until}`));
+    expect(dueDates(rule("20260126T090000"))).toEqual(["2026-01-12", "2026-01-19", "2026-01-26"]);
+    expect(dueDates(rule("20260126T085959"))).toEqual(["2026-01-12", "2026-01-19"]);
+  });
+
+  it("stops after COUNT occurrences", () => {
+    const text = calendar(...event("SUMMARY:CS200 Reading", "DTSTART;VALUE=DATE:20260130", "RRULE:FREQ=DAILY;COUNT=3"));
+    expect(dueDates(text)).toEqual(["2026-01-30", "2026-01-31", "2026-02-01"]);
+  });
+
+  it("follows a rule with no end for a year and says so", () => {
+    const text = calendar(...event("SUMMARY:CS200 Lab", "DTSTART:20260112T090000", "RRULE:FREQ=WEEKLY"));
+    const { rows } = parseIcs(text);
+    expect(rows).toHaveLength(53);
+    expect(rows[0].warnings).toContain("Repeats with no end; using the 53 dates in the first year");
+  });
+});
+
+describe("parseIcs lines", () => {
+  it("joins folded lines, including inside a rule", () => {
+    const text = calendar(
+      ...event(
+        "SUMMARY:MATH101 Problem Set 1 on lim",
+        " its and continuity",
+        "DTSTART:20260112T235900",
+        "RRULE:FREQ=WEEKLY;CO",
+        "\tUNT=2"
+      )
+    );
+    const { items } = parseIcs(text);
+    expect(items.map((i) => i.title)).toEqual([
+      "Problem Set 1 on limits and continuity",
+      "Problem Set 1 on limits and continuity",
+    ]);
+    expect(items.map((i) => i.dueDate)).toEqual(["2026-01-12", "2026-01-19"]);
+  });
+
+  it("reads LF-only files the same way", () => {
+    const text = calendar(...event("SUMMARY:CS200 Exam", "DTSTART:20260305T140000")).replace(/\r\n/g, "\n");
+    expect(isIcsText(text)).toBe(true);
+    expect(parseIcs(text).items).toMatchObject([{ title: "Exam", dueDate: "2026-03-05", time: "2:00 PM" }]);
+  });
+});
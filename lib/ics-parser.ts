@@ -0,0 +1,444 @@
+import { format } from "date-fns";
+import type { AcademicItem, ClassInfo, ItemStatus, ItemType } from "./data";
+import {
+  CLASS_COLORS,
+  isKnownType,
+  normalizeType,
+  type ParseResult,
+  type ParseRowError,
+  type ParsedRow,
+} from "./spreadsheet-parser";
+
+/**
+ * Reading iCalendar (.ics) files, as exported by Canvas, Blackboard, Moodle
+ * and Google Calendar, into the same rows a pasted spreadsheet gives, so they
+ * go through the same preview. Events (VEVENT) are due when they start and
+ * to-dos (VTODO) when they are due; repeating ones become one item per
+ * occurrence.
+ */
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  name: string;
+  /** 1-based line of the BEGIN line. */
+  line: number;
+  properties: IcsProperty[];
+}
+
+/** A date and time as written in the file, in ms as if it were UTC. */
+interface IcsDate {
+  wall: number;
+  /** VALUE=DATE: a day with no time. */
+  allDay: boolean;
+  /** "utc" for a trailing Z, "floating" for no zone, otherwise a TZID. */
+  zone: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+/** How far a rule with no COUNT or UNTIL is followed. */
+const OPEN_RULE_DAYS = 366;
+const MAX_OCCURRENCES = 500;
+/** Periods (days, weeks, months or years) a rule is followed for at most. */
+const MAX_PERIODS = 5000;
+
+/** Whether pasted text is a calendar rather than a spreadsheet. */
+export const isIcsText = (text: string) => /^\uFEFF?\s*BEGIN:VCALENDAR/i.test(text);
+
+/** Joins folded lines (a line starting with a space or tab continues the last one). */
+function unfold(text: string): { text: string; line: number }[] {
+  const lines: { text: string; line: number }[] = [];
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n|\n|\r/)
+    .forEach((raw, index) => {
+      if ((raw.startsWith(" ") || raw.startsWith("\t")) && lines.length > 0) {
+        lines[lines.length - 1].text += raw.slice(1);
+      } else if (raw.trim()) {
+        lines.push({ text: raw, line: index + 1 });
+      }
+    });
+  return lines;
+}
+
+/** NAME;PARAM=value;PARAM="quoted:value":value */
+function parseProperty(text: string): IcsProperty | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = text.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.trim().toUpperCase(), params, value: text.slice(colon + 1) };
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch)).trim();
+
+/** Splits a list value on commas that aren't escaped. */
+const splitList = (value: string) => (value.match(/(?:\\.|[^,])+/g) ?? []).map(unescapeText).filter(Boolean);
+
+function readComponents(text: string): { calendarName?: string; components: IcsComponent[] } {
+  const stack: IcsComponent[] = [];
+  const components: IcsComponent[] = [];
+  let calendarName: string | undefined;
+
+  for (const { text: line, line: number } of unfold(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === "BEGIN") {
+      stack.push({ name: property.value.trim().toUpperCase(), line: number, properties: [] });
+    } else if (property.name === "END") {
+      const component = stack.pop();
+      if (component && (component.name === "VEVENT" || component.name === "VTODO")) components.push(component);
+    } else if (stack.length === 1 && property.name === "X-WR-CALNAME") {
+      calendarName = unescapeText(property.value);
+    } else {
+      // Alarms and time zone definitions nest their own properties; only the
+      // event's own ones count
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  }
+
+  return { calendarName, components };
+}
+
+function parseDate(value: string, params: Record<string, string>): IcsDate | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = m;
+  return {
+    wall: Date.UTC(+year, +month - 1, +day, +(hours ?? 0), +(minutes ?? 0), +(seconds ?? 0)),
+    allDay: params.VALUE === "DATE" || !hours,
+    zone: utc ? "utc" : (params.TZID?.replace(/^\//, "") ?? "floating"),
+  };
+}
+
+/** How far `timeZone` is ahead of UTC at `instant`, in ms. */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second")) - instant;
+}
+
+const isKnownZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The local Date a wall time in `zone` falls on; unknown zones are read as local time. */
+function toLocal(wall: number, zone: string): Date {
+  if (zone === "utc") return new Date(wall);
+  if (zone !== "floating" && isKnownZone(zone)) {
+    const guess = wall - zoneOffset(wall, zone);
+    return new Date(wall - zoneOffset(guess, zone));
+  }
+  const d = new Date(wall);
+  return new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds());
+}
+
+/** A key that is equal for equal moments, or equal days for all-day dates. */
+const dateKey = (date: IcsDate, wall = date.wall) =>
+  date.allDay ? new Date(wall).toISOString().slice(0, 10) : String(toLocal(wall, date.zone).getTime());
+
+interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: IcsDate;
+  /** Weekdays (0 is Sunday), with an ordinal like the 2 of 2TU in monthly rules. */
+  byDay: { nth?: number; weekday: number }[];
+  byMonthDay: number[];
+}
+
+function parseRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, val = ""] = part.split("=");
+    parts[key.trim().toUpperCase()] = val.trim().toUpperCase();
+  }
+  const freq = parts.FREQ;
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") return null;
+  // Rules narrowed by hour, week number and the like aren't followed
+  if (["BYSETPOS", "BYMONTH", "BYYEARDAY", "BYWEEKNO", "BYHOUR", "BYMINUTE", "BYSECOND"].some((key) => key in parts)) return null;
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(",") : []).flatMap((day) => {
+    const m = day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return m ? [{ nth: m[1] ? Number(m[1]) : undefined, weekday: WEEKDAYS.indexOf(m[2]) }] : [];
+  });
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Math.max(1, Number(parts.COUNT) || 1) : undefined,
+    until: parts.UNTIL ? (parseDate(parts.UNTIL, {}) ?? undefined) : undefined,
+    byDay,
+    byMonthDay: parts.BYMONTHDAY ? parts.BYMONTHDAY.split(",").map(Number).filter(Boolean) : [],
+  };
+}
+
+/** Days of a month a monthly rule picks, before the start's time is added. */
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay.map((day) => (day > 0 ? day : length + day + 1)).filter((day) => day >= 1 && day <= length);
+  }
+  if (rule.byDay.length > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return rule.byDay.flatMap(({ nth, weekday }) => {
+      const all: number[] = [];
+      for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= length; day += 7) all.push(day);
+      if (nth === undefined) return all;
+      const picked = nth > 0 ? all[nth - 1] : all[all.length + nth];
+      return picked === undefined ? [] : [picked];
+    });
+  }
+  return startDay <= length ? [startDay] : [];
+}
+
+/** Wall times of a rule's occurrences in period `period` (0 is the start's). */
+function periodCandidates(start: number, rule: RecurrenceRule, period: number): number[] {
+  const s = new Date(start);
+  const timeOfDay = start - Date.UTC(s.getUTCFullYear(), s.getUTCMonth(), s.getUTCDate());
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [start + step * DAY_MS];
+    case "WEEKLY": {
+      // Weeks start on Monday
+      const weekStart = start - ((s.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [s.getUTCDay()];
+      return weekdays.map((weekday) => weekStart + ((weekday + 6) % 7) * DAY_MS);
+    }
+    case "MONTHLY": {
+      const first = new Date(Date.UTC(s.getUTCFullYear(), s.getUTCMonth() + step, 1));
+      return monthDays(first.getUTCFullYear(), first.getUTCMonth(), rule, s.getUTCDate()).map(
+        (day) => Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), day) + timeOfDay
+      );
+    }
+    case "YEARLY": {
+      const year = s.getUTCFullYear() + step;
+      // A February 29 start only repeats in leap years
+      const wall = Date.UTC(year, s.getUTCMonth(), s.getUTCDate()) + timeOfDay;
+      return new Date(wall).getUTCMonth() === s.getUTCMonth() ? [wall] : [];
+    }
+  }
+}
+
+/**
+ * Wall times of every occurrence, the start first. A rule with no COUNT or
+ * UNTIL is followed for a year and any rule for MAX_OCCURRENCES dates; `cut`
+ * says which of those stopped it.
+ */
+function expandRule(start: IcsDate, rule: RecurrenceRule): { walls: number[]; cut?: "open" | "limit" } {
+  const walls = [start.wall];
+  const until = rule.until && toLocal(rule.until.wall, rule.until.zone).getTime();
+  const open = rule.count === undefined && until === undefined;
+  const horizon = start.wall + OPEN_RULE_DAYS * DAY_MS;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const wall of periodCandidates(start.wall, rule, period).sort((a, b) => a - b)) {
+      if (wall <= start.wall) continue;
+      if (until !== undefined && toLocal(wall, start.zone).getTime() > until) return { walls };
+      if (open && wall > horizon) return { walls, cut: "open" };
+      if (walls.length === MAX_OCCURRENCES) return { walls, cut: "limit" };
+      walls.push(wall);
+      if (walls.length === rule.count) return { walls };
+    }
+  }
+  return { walls, cut: open ? "open" : undefined };
+}
+
+const CLASS_CODE = /\b([A-Z]{2,5})[ -]?(\d{3,4}[A-Z]?)\b/;
+
+/** "CS 200" or "MATH-101A" from the text, with letters and number joined. */
+function findClassCode(text: string): { code: string; match: string } | null {
+  const m = text.match(CLASS_CODE);
+  return m ? { code: `${m[1]}${m[2]}`, match: m[0] } : null;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * The summary without the class code it was tagged with: a bracketed group
+ * holding the code ("Homework 3 [CS200-01 Fall 2026]"), or the code as a
+ * prefix or suffix ("CS 200: Homework 3", "Homework 3 - CS 200").
+ */
+function stripClassCode(summary: string, match: string): string {
+  const code = escapeRegExp(match);
+  const cleaned = summary
+    .replace(new RegExp(`\\s*[\\[(][^\\])]*${code}[^\\])]*[\\])]\\s*`), " ")
+    .replace(new RegExp(`^\\s*${code}(?:-\\d+)?\\s*[:|–-]?\\s*`), "")
+    .replace(new RegExp(`\\s*[:|–-]?\\s*${code}(?:-\\d+)?\\s*$`), "")
+    .trim();
+  return cleaned || summary;
+}
+
+const TYPE_PRIORITY: ItemType[] = ["exam", "quiz", "project", "homework", "assignment", "lecture"];
+
+/** The most telling type named by a word of the summary, e.g. exam for "Midterm review quiz". */
+function typeFromSummary(summary: string): ItemType | undefined {
+  const types = summary
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(isKnownType)
+    .map(normalizeType);
+  return TYPE_PRIORITY.find((type) => types.includes(type));
+}
+
+const first = (component: IcsComponent, name: string) => component.properties.find((p) => p.name === name);
+
+/** Reads the events and to-dos of an iCalendar file into importable rows. */
+export function parseIcs(text: string): ParseResult {
+  const baseId = `imported-${Date.now()}`;
+  const { calendarName, components } = readComponents(text);
+  const fallbackCode = calendarName && (findClassCode(calendarName)?.code ?? calendarName.replace(/\s+/g, "").toUpperCase());
+
+  // Occurrences moved or cancelled by a RECURRENCE-ID component, per UID
+  const overridden = new Map<string, Set<string>>();
+  for (const component of components) {
+    const uid = first(component, "UID")?.value.trim();
+    const recurrenceId = first(component, "RECURRENCE-ID");
+    const date = recurrenceId && parseDate(recurrenceId.value, recurrenceId.params);
+    if (uid && date) overridden.set(uid, (overridden.get(uid) ?? new Set()).add(dateKey(date)));
+  }
+
+  const classMap = new Map<string, ClassInfo>();
+  const rows: ParsedRow[] = [];
+  const errors: ParseRowError[] = [];
+
+  components.forEach((component, index) => {
+    if (first(component, "STATUS")?.value.trim().toUpperCase() === "CANCELLED") return;
+
+    const summary = unescapeText(first(component, "SUMMARY")?.value ?? "");
+    const label = summary ? `"${summary}"` : component.name === "VTODO" ? "To-do" : "Event";
+    const dateProperty =
+      component.name === "VTODO" ? (first(component, "DUE") ?? first(component, "DTSTART")) : first(component, "DTSTART");
+    if (!dateProperty) {
+      errors.push({ line: component.line, message: `${label} has no ${component.name === "VTODO" ? "due date" : "start date"}` });
+      return;
+    }
+    const start = parseDate(dateProperty.value, dateProperty.params);
+    if (!start) {
+      errors.push({ line: component.line, message: `${label} has a date that can't be read: ${dateProperty.value.trim()}` });
+      return;
+    }
+
+    const warnings: string[] = [];
+    if (!["utc", "floating"].includes(start.zone) && !isKnownZone(start.zone)) {
+      warnings.push(`Time zone "${start.zone}" isn't known; using local time`);
+    }
+
+    const categories = component.properties.filter((p) => p.name === "CATEGORIES").flatMap((p) => splitList(p.value));
+    const categoryType = categories.find(isKnownType);
+    const type = categoryType ? normalizeType(categoryType) : (typeFromSummary(summary) ?? "assignment");
+
+    const tagged = findClassCode(summary) ?? categories.map(findClassCode).find(Boolean) ?? null;
+    const classCode = tagged?.code || fallbackCode || "CALENDAR";
+    if (!tagged) warnings.push(`No class code in the summary; using ${classCode}`);
+    if (!classMap.has(classCode)) {
+      classMap.set(classCode, {
+        code: classCode,
+        name: classCode,
+        color: CLASS_COLORS[classMap.size % CLASS_COLORS.length],
+        hasLatePenalty: false,
+      });
+    }
+    const title = tagged && findClassCode(summary) ? stripClassCode(summary, tagged.match) : summary;
+    if (!title) warnings.push(`No summary; using "${type} ${index + 1}"`);
+
+    // A RECURRENCE-ID component is a single moved occurrence of another one
+    const isOverride = !!first(component, "RECURRENCE-ID");
+    let walls = [start.wall];
+    const ruleProperty = first(component, "RRULE");
+    if (ruleProperty && !isOverride) {
+      const rule = parseRule(ruleProperty.value);
+      if (!rule) {
+        warnings.push("Repeats in a way that can't be followed; using the first date only");
+      } else {
+        const expanded = expandRule(start, rule);
+        walls = expanded.walls;
+        if (expanded.cut === "open") warnings.push(`Repeats with no end; using the ${walls.length} dates in the first year`);
+        if (expanded.cut === "limit") warnings.push(`Repeats more than ${MAX_OCCURRENCES} times; using the first ${MAX_OCCURRENCES}`);
+      }
+    }
+
+    const excluded = new Set(isOverride ? [] : (overridden.get(first(component, "UID")?.value.trim() ?? "") ?? []));
+    for (const exdate of component.properties.filter((p) => p.name === "EXDATE")) {
+      for (const value of exdate.value.split(",")) {
+        const date = parseDate(value, exdate.params);
+        if (!date) continue;
+        // An EXDATE with no zone of its own is in the start's
+        if (date.zone === "floating") date.zone = start.zone;
+        excluded.add(dateKey(date));
+      }
+    }
+
+    const statusValue = first(component, "STATUS")?.value.trim().toUpperCase();
+    const status: ItemStatus =
+      statusValue === "COMPLETED" ? "completed" : statusValue === "IN-PROCESS" ? "in-progress" : "not-started";
+    const description = unescapeText(first(component, "DESCRIPTION")?.value ?? "") || undefined;
+    const location = unescapeText(first(component, "LOCATION")?.value ?? "") || undefined;
+
+    walls.forEach((wall, occurrence) => {
+      // An all-day EXDATE removes that day whatever the time
+      const day = new Date(wall).toISOString().slice(0, 10);
+      if (excluded.has(dateKey(start, wall)) || excluded.has(day)) return;
+
+      const due = start.allDay ? null : toLocal(wall, start.zone);
+      const item: AcademicItem = {
+        id: `${baseId}-${index + 1}-${occurrence + 1}-${Math.random().toString(36).slice(2, 9)}`,
+        title: title || `${type} ${index + 1}`,
+        class: classCode,
+        classCode,
+        type,
+        status,
+        dueDate: due ? format(due, "yyyy-MM-dd") : day,
+        time: due ? format(due, "h:mm a") : undefined,
+        description,
+        location,
+        isFinal: type === "exam" && /\bfinal\b/i.test(summary) ? true : undefined,
+      };
+      const guessed = new Set<keyof AcademicItem>(["id", "class", "classCode"]);
+      if (!title) guessed.add("title");
+      if (!categoryType) guessed.add("type");
+      if (status === "not-started") guessed.add("status");
+      const provided = (Object.keys(item) as (keyof AcademicItem)[]).filter(
+        (key) => item[key] !== undefined && !guessed.has(key)
+      );
+      rows.push({ item, line: component.line, provided, warnings });
+    });
+  });
+
+  return { items: rows.map((row) => row.item), classes: Array.from(classMap.values()), rows, errors };
+}
@@ -0,0 +1,116 @@
+import type { AcademicItem } from "./data";
+import { rowLocation, type ParsedRow } from "./spreadsheet-parser";
+
+/**
+ * Sorting imported rows against what's already there before anything is
+ * saved. A row is a duplicate when an item with the same class, title and due
+ * date already says the same thing, changed when it says something different
+ * (including a new due date for an item whose class and title match exactly
+ * one item), and new otherwise.
+ */
+
+export type ImportRowStatus = "new" | "duplicate" | "changed";
+
+export interface ImportPreviewRow extends ParsedRow {
+  status: ImportRowStatus;
+  /** The item this row matches, for duplicates and changes. */
+  existing?: AcademicItem;
+  /** Labels of the fields a changed row would update. */
+  changes: string[];
+}
+
+const FIELD_LABELS: Partial<Record<keyof AcademicItem, string>> = {
+  title: "title",
+  type: "type",
+  dueDate: "due date",
+  time: "time",
+  description: "description",
+  location: "location",
+  grade: "grade",
+  gradeCategory: "grade category",
+  isFinal: "final exam",
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, " ");
+const titleKey = (item: AcademicItem) => `${item.classCode}\u0000${normalizeTitle(item.title)}`;
+const itemKey = (item: AcademicItem) => `${titleKey(item)}\u0000${item.dueDate}`;
+
+const sameValue = (key: keyof AcademicItem, a: unknown, b: unknown) => {
+  if (key === "isFinal") return !!a === !!b;
+  if (key === "title") return normalizeTitle(String(a ?? "")) === normalizeTitle(String(b ?? ""));
+  return a === b;
+};
+
+/** Labels of the row's fields that differ from the item. */
+function changedFields(row: ParsedRow, existing: AcademicItem): string[] {
+  return row.provided.flatMap((key) => {
+    const label = FIELD_LABELS[key];
+    return label && !sameValue(key, row.item[key], existing[key]) ? [label] : [];
+  });
+}
+
+/**
+ * Classifies each row against `existing`, which should be the live items of
+ * the semester being imported into. A row repeating an earlier row of the
+ * same import is a duplicate too.
+ */
+export function previewImport(rows: ParsedRow[], existing: AcademicItem[]): ImportPreviewRow[] {
+  const byKey = new Map<string, AcademicItem>();
+  const byTitle = new Map<string, AcademicItem[]>();
+  for (const item of existing) {
+    if (!byKey.has(itemKey(item))) byKey.set(itemKey(item), item);
+    byTitle.set(titleKey(item), [...(byTitle.get(titleKey(item)) ?? []), item]);
+  }
+
+  const seen = new Map<string, ParsedRow>();
+  return rows.map((row): ImportPreviewRow => {
+    const key = itemKey(row.item);
+    const repeats = seen.get(key);
+    if (repeats !== undefined) {
+      return { ...row, status: "duplicate", changes: [], warnings: [...row.warnings, `Repeats an earlier row (${rowLocation(repeats)})`] };
+    }
+    seen.set(key, row);
+
+    const sameTitle = byTitle.get(titleKey(row.item)) ?? [];
+    const match = byKey.get(key) ?? (sameTitle.length === 1 ? sameTitle[0] : undefined);
+    if (!match) return { ...row, status: "new", changes: [] };
+
+    const changes = changedFields(row, match);
+    return { ...row, status: changes.length > 0 ? "changed" : "duplicate", existing: match, changes };
+  });
+}
+
+/** Rows that are worth importing unless deselected: new and changed ones. */
+export function defaultSelection(rows: ImportPreviewRow[]): Set<string> {
+  return new Set(rows.filter((row) => row.status !== "duplicate").map((row) => row.item.id));
+}
+
+/**
+ * `existing` with the chosen rows applied: changed rows update the item they
+ * match with the fields the row had, leaving the rest (id, status, history)
+ * as it was, and every other row becomes an item in `semesterId`, so a
+ * duplicate that was chosen anyway is added as a copy.
+ */
+export function applyImport(
+  existing: AcademicItem[],
+  rows: ImportPreviewRow[],
+  semesterId: string
+): AcademicItem[] {
+  const updates = new Map<string, Partial<AcademicItem>>();
+  const added: AcademicItem[] = [];
+  for (const row of rows) {
+    if (row.status === "changed" && row.existing) {
+      // A new percent replaces any points the item had
+      const keys = row.provided.includes("grade")
+        ? [...new Set([...row.provided, "pointsEarned", "pointsPossible"] as (keyof AcademicItem)[])]
+        : row.provided;
+      updates.set(row.existing.id, Object.fromEntries(keys.map((key) => [key, row.item[key]])));
+    } else {
+      added.push({ ...row.item, semesterId });
+    }
+  }
+  return [
+    ...existing.map((item) => (updates.has(item.id) ? { ...item, ...updates.get(item.id) } : item)),
+    ...added,
+  ];
+}
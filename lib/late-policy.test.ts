@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { AcademicItem, ClassInfo, LatePolicy } from "./data";
+import { applyLatePolicy, applyPenalty, latePenaltiesForClass } from "./late-policy";
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+const perDay: LatePolicy = { amount: 10, unit: "percent", per: "day" };
+
+describe("applyLatePolicy", () => {
+  it("charges every started day", () => {
+    expect(applyLatePolicy(perDay, DAY + 1, 100).deduction).toBe(20);
+  });
+
+  it("lets submissions within the grace period through", () => {
+    const policy = { ...perDay, graceMinutes: 15 };
+    expect(applyLatePolicy(policy, 15, 100).deduction).toBe(0);
+    expect(applyLatePolicy(policy, 16, 100).deduction).toBe(10);
+  });
+
+  it("caps the deduction at maxPenalty", () => {
+    const penalty = applyLatePolicy({ ...perDay, maxPenalty: 25 }, 5 * DAY, 100);
+    expect(penalty).toMatchObject({ periods: 5, deduction: 25, zeroed: false });
+  });
+
+  it("caps points-based amounts before turning them into percent", () => {
+    const policy: LatePolicy = { amount: 3, unit: "points", per: "hour", maxPenalty: 10 };
+    expect(applyLatePolicy(policy, 2 * HOUR, 20).deduction).toBe(30);
+    expect(applyLatePolicy(policy, 6 * HOUR, 20).deduction).toBe(50);
+  });
+
+  it("zeroes work past zeroAfterDays, whatever the cap", () => {
+    const policy = { ...perDay, maxPenalty: 30, zeroAfterDays: 3 };
+    expect(applyLatePolicy(policy, 3 * DAY, 100)).toMatchObject({ deduction: 30, zeroed: false });
+    expect(applyLatePolicy(policy, 3 * DAY + 1, 100)).toMatchObject({ deduction: 100, zeroed: true });
+  });
+
+  it("spends free late days before charging", () => {
+    expect(applyLatePolicy(perDay, 2 * DAY, 100, 1)).toMatchObject({ freeDaysUsed: 1, periods: 1, deduction: 10 });
+    expect(applyLatePolicy(perDay, 2 * DAY, 100, 5)).toMatchObject({ freeDaysUsed: 2, deduction: 0 });
+  });
+});
+
+describe("applyPenalty", () => {
+  it("never takes a score below zero", () => {
+    const penalty = applyLatePolicy({ ...perDay, amount: 40 }, 3 * DAY, 100);
+    expect(applyPenalty(70, penalty)).toBe(0);
+  });
+
+  it("scores zeroed work as 0", () => {
+    const penalty = applyLatePolicy({ ...perDay, zeroAfterDays: 1 }, 2 * DAY, 100);
+    expect(applyPenalty(95, penalty)).toBe(0);
+  });
+});
+
+describe("latePenaltiesForClass", () => {
+  const classInfo: ClassInfo = {
+    code: "MATH101",
+    name: "Calculus",
+    color: "bg-chart-1",
+    hasLatePenalty: true,
+    latePolicy: { ...perDay, freeLateDays: 2 },
+  };
+  const late = (id: string, dueDate: string, daysLate: number): AcademicItem => ({
+    id,
+    title: id,
+    class: "Calculus",
+    classCode: "MATH101",
+    type: "homework",
+    status: "completed",
+    dueDate,
+    isLate: true,
+    daysLate,
+  });
+
+  it("spends free late days on the earliest-due items first", () => {
+    const penalties = latePenaltiesForClass(
+      [late("later", "2026-03-01", 2), late("earlier", "2026-02-01", 1)],
+      classInfo
+    );
+    expect(penalties.get("earlier")).toMatchObject({ freeDaysUsed: 1, deduction: 0 });
+    expect(penalties.get("later")).toMatchObject({ freeDaysUsed: 1, deduction: 10 });
+  });
+
+  it("charges nothing for a class without a late penalty", () => {
+    const penalties = latePenaltiesForClass([late("a", "2026-02-01", 3)], { ...classInfo, hasLatePenalty: false });
+    expect(penalties.size).toBe(0);
+  });
+});
@@ -0,0 +1,149 @@
+import type { AcademicItem, ClassInfo, LatePolicy } from "./data";
+
+/**
+ * Late penalties. A class's policy turns how late an item was handed in into
+ * a deduction from its score. Lateness comes from the item's `submittedAt`
+ * against its due date and time; items saved before submission times were
+ * recorded fall back to their whole `daysLate`.
+ */
+
+export const DEFAULT_LATE_POLICY: LatePolicy = { amount: 10, unit: "percent", per: "day" };
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+
+export interface LatePenalty {
+  minutesLate: number;
+  /** Free late days this item used up. */
+  freeDaysUsed: number;
+  /** Started days or hours charged after grace and free days. */
+  periods: number;
+  /** Percentage points taken off the item's score. */
+  deduction: number;
+  /** Past the policy's zero-after limit. */
+  zeroed: boolean;
+}
+
+/** The policy in force for a class, or null when it has no late penalty. */
+export function latePolicyFor(classInfo: ClassInfo | undefined): LatePolicy | null {
+  if (!classInfo?.hasLatePenalty) return null;
+  return classInfo.latePolicy ?? DEFAULT_LATE_POLICY;
+}
+
+/** Accepts "23:59", "9:30" and "11:59 PM". */
+function parseTime(time: string | undefined): [number, number] | null {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return [hours, minutes];
+}
+
+/** When an item is due, in local time. Without a time it is due at the end of the day. */
+export function dueAt(item: Pick<AcademicItem, "dueDate" | "time">): Date | null {
+  const [year, month, day] = item.dueDate.split("-").map(Number);
+  if (!year || !month || !day) return null;
+  const [hours, minutes] = parseTime(item.time) ?? [23, 59];
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/** How many minutes after the due time an item was handed in; 0 when on time or not late. */
+export function minutesLate(item: AcademicItem): number {
+  if (item.submittedAt) {
+    const due = dueAt(item);
+    const submitted = new Date(item.submittedAt);
+    if (!due || Number.isNaN(submitted.getTime())) return 0;
+    return Math.max(0, Math.ceil((submitted.getTime() - due.getTime()) / 60_000));
+  }
+  return item.isLate && item.daysLate && item.daysLate > 0 ? item.daysLate * MINUTES_PER_DAY : 0;
+}
+
+/**
+ * The penalty for handing in an item `minutes` late, given how many free late
+ * days are still available. `possible` is the item's maximum score, used to
+ * turn points-based amounts into percentage points.
+ */
+export function applyLatePolicy(
+  policy: LatePolicy,
+  minutes: number,
+  possible: number,
+  freeDaysAvailable = 0
+): LatePenalty {
+  const onTime: LatePenalty = { minutesLate: minutes, freeDaysUsed: 0, periods: 0, deduction: 0, zeroed: false };
+  if (minutes <= 0 || minutes <= (policy.graceMinutes ?? 0)) return onTime;
+
+  const freeDaysUsed = Math.min(Math.max(0, freeDaysAvailable), Math.ceil(minutes / MINUTES_PER_DAY));
+  const charged = Math.max(0, minutes - freeDaysUsed * MINUTES_PER_DAY);
+  if (charged === 0) return { ...onTime, freeDaysUsed };
+
+  const periods = Math.ceil(charged / (policy.per === "hour" ? MINUTES_PER_HOUR : MINUTES_PER_DAY));
+  const zeroed =
+    policy.zeroAfterDays !== undefined && charged > policy.zeroAfterDays * MINUTES_PER_DAY;
+
+  const raw = Math.min(periods * policy.amount, policy.maxPenalty ?? Number.POSITIVE_INFINITY);
+  const deduction = policy.unit === "points" ? (possible > 0 ? (raw / possible) * 100 : 0) : raw;
+  return { minutesLate: minutes, freeDaysUsed, periods, deduction: zeroed ? 100 : deduction, zeroed };
+}
+
+/** A percent score after its late penalty. */
+export function applyPenalty(percent: number, penalty: LatePenalty | undefined): number {
+  if (!penalty) return percent;
+  return penalty.zeroed ? 0 : Math.max(0, percent - penalty.deduction);
+}
+
+/**
+ * Penalties for every late item of a class, keyed by item id. Free late days
+ * go to the earliest-due late items first, the way a student would spend them.
+ */
+export function latePenaltiesForClass(
+  items: AcademicItem[],
+  classInfo: ClassInfo | undefined
+): Map<string, LatePenalty> {
+  const penalties = new Map<string, LatePenalty>();
+  const policy = latePolicyFor(classInfo);
+  if (!policy || !classInfo) return penalties;
+
+  const late = items
+    .filter((item) => item.classCode === classInfo.code)
+    .map((item) => ({ item, minutes: minutesLate(item), due: dueAt(item)?.getTime() ?? 0 }))
+    .filter((entry) => entry.minutes > 0)
+    .sort((a, b) => a.due - b.due);
+
+  let freeDays = policy.freeLateDays ?? 0;
+  for (const { item, minutes } of late) {
+    const penalty = applyLatePolicy(policy, minutes, item.pointsPossible ?? 100, freeDays);
+    freeDays -= penalty.freeDaysUsed;
+    penalties.set(item.id, penalty);
+  }
+  return penalties;
+}
+
+/** e.g. "-10% per day, 15 min grace, max 50%, 0 after 3 days, 2 free late days". */
+export function describeLatePolicy(policy: LatePolicy): string {
+  const amount = policy.unit === "points" ? `${policy.amount} pts` : `${policy.amount}%`;
+  const parts = [`-${amount} per ${policy.per}`];
+  if (policy.graceMinutes) parts.push(`${policy.graceMinutes} min grace`);
+  if (policy.maxPenalty !== undefined) {
+    parts.push(`max ${policy.unit === "points" ? `${policy.maxPenalty} pts` : `${policy.maxPenalty}%`}`);
+  }
+  if (policy.zeroAfterDays !== undefined) {
+    parts.push(`0 after ${policy.zeroAfterDays} day${policy.zeroAfterDays === 1 ? "" : "s"}`);
+  }
+  if (policy.freeLateDays) {
+    parts.push(`${policy.freeLateDays} free late day${policy.freeLateDays === 1 ? "" : "s"}`);
+  }
+  return parts.join(", ");
+}
+
+/** "2d 3h" / "45m". */
+export function formatLateness(minutes: number): string {
+  const days = Math.floor(minutes / MINUTES_PER_DAY);
+  const hours = Math.floor((minutes % MINUTES_PER_DAY) / MINUTES_PER_HOUR);
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return `${hours}h`;
+  return `${minutes}m`;
+}
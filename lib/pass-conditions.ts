@@ -0,0 +1,44 @@
+import type { PassCondition } from "./data";
+
+/**
+ * Helpers for per-class pass conditions. The conditions themselves are
+ * evaluated in `calculateClassGrade`, beside the grade they can cap or fail.
+ */
+
+export function newPassConditionId(): string {
+  return `condition-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** E.g. "fails the class" or "caps the grade at 69%". */
+export function describeConsequence(condition: PassCondition): string {
+  switch (condition.consequence) {
+    case "fail":
+      return "fails the class";
+    case "cap":
+      return `caps the grade at ${condition.capAt ?? 0}%`;
+    case "warn":
+      return "is flagged";
+  }
+}
+
+/** E.g. "Final Exam ≥ 60%, or fails the class". */
+export function describePassCondition(condition: PassCondition, subject: string): string {
+  return `${subject} ≥ ${condition.min}%, or ${describeConsequence(condition)}`;
+}
+
+/** Problems that keep a set of conditions from being saved; empty when valid. */
+export function validatePassConditions(conditions: PassCondition[]): string[] {
+  const errors: string[] = [];
+  conditions.forEach((condition, index) => {
+    const label = `Condition ${index + 1}`;
+    if (condition.scope === "category" && !condition.category) errors.push(`${label} needs a category`);
+    if (condition.scope === "item" && !condition.itemId) errors.push(`${label} needs an item`);
+    if (!Number.isFinite(condition.min) || condition.min < 0 || condition.min > 100) {
+      errors.push(`${label} needs a minimum between 0 and 100`);
+    }
+    if (condition.consequence === "cap" && (condition.capAt === undefined || !Number.isFinite(condition.capAt))) {
+      errors.push(`${label} needs a cap`);
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,359 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { AcademicItem, Semester } from "../data";
+import type { QuarantinedRecord } from "../storage/schema";
+import { CURRENT_SCHEMA_VERSION } from "../storage/schema";
+import { migrateSnapshot } from "../storage/migrations";
+import type {
+  ChangeLogEntry,
+  FieldMergeReport,
+  RecordKind,
+  RejectedChange,
+  RevisionMap,
+  SyncRecord,
+  SyncRequest,
+  SyncResponse,
+} from "../sync/protocol";
+import { resolveStaleChange } from "../sync/field-merge";
+import { sameRecord } from "../sync/tab-sync";
+
+/**
+ * JSON-file store behind the /api routes. Everything lives in one file on the
+ * machine running `next dev`/`next start`, so no database or hosted service is
+ * needed. Writes go through a single queue and are renamed into place so a
+ * crash never leaves a half-written file.
+ *
+ * Every change bumps the record's revision and appends to a change log, which
+ * is what /api/sync hands out to devices catching up from their cursor.
+ */
+
+// Older entries are dropped; a device further behind than this gets a full snapshot.
+const MAX_LOG_ENTRIES = 2000;
+
+export interface ServerData {
+  version: number;
+  savedAt: string;
+  items: AcademicItem[];
+  semesters: Semester[];
+  quarantine: QuarantinedRecord[];
+  /** Sequence number of the latest change-log entry. */
+  seq: number;
+  revisions: RevisionMap;
+  log: ChangeLogEntry[];
+}
+
+export class NotFoundError extends Error {}
+export class ConflictError extends Error {}
+
+function dataFile(): string {
+  return process.env.DASHBOARD_DATA_FILE ?? path.join(process.cwd(), "data", "dashboard.json");
+}
+
+function emptyData(): ServerData {
+  return {
+    version: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    items: [],
+    semesters: [],
+    quarantine: [],
+    seq: 0,
+    revisions: { items: {}, semesters: {} },
+    log: [],
+  };
+}
+
+async function readData(): Promise<ServerData> {
+  let text: string;
+  try {
+    text = await fs.readFile(dataFile(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptyData();
+    throw error;
+  }
+
+  const stored = JSON.parse(text) as Partial<ServerData>;
+  const { snapshot, quarantined } = migrateSnapshot({
+    version: stored.version ?? 0,
+    items: stored.items ?? [],
+    semesters: stored.semesters ?? [],
+    currentSemesterId: "",
+  });
+  return {
+    version: CURRENT_SCHEMA_VERSION,
+    savedAt: stored.savedAt ?? new Date().toISOString(),
+    items: snapshot.items,
+    semesters: snapshot.semesters,
+    quarantine: [...(stored.quarantine ?? []), ...quarantined],
+    seq: stored.seq ?? 0,
+    revisions: stored.revisions ?? { items: {}, semesters: {} },
+    log: stored.log ?? [],
+  };
+}
+
+async function writeData(data: ServerData) {
+  const file = dataFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify({ ...data, savedAt: new Date().toISOString() }, null, 2));
+  await fs.rename(tmp, file);
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+export function read<T>(select: (data: ServerData) => T): Promise<T> {
+  return serialize(async () => select(await readData()));
+}
+
+/** Runs `update` against the current data and saves the result. */
+export function mutate<T>(update: (data: ServerData) => T): Promise<T> {
+  return serialize(async () => {
+    const data = await readData();
+    const result = update(data);
+    await writeData(data);
+    return result;
+  });
+}
+
+function upsert<T extends { id: string }>(records: T[], record: T): { records: T[]; created: boolean } {
+  const index = records.findIndex((r) => r.id === record.id);
+  if (index < 0) return { records: [...records, record], created: true };
+  return { records: records.map((r, i) => (i === index ? record : r)), created: false };
+}
+
+const revisionKey = (kind: RecordKind) => (kind === "item" ? "items" : "semesters");
+
+interface ChangeOrigin {
+  clientId?: string;
+  changeId?: string;
+}
+
+/** Bumps the record's revision and appends the change to the log. */
+function recordChange(
+  data: ServerData,
+  kind: RecordKind,
+  id: string,
+  record: SyncRecord | null,
+  origin: ChangeOrigin = {}
+): number {
+  const revisions = data.revisions[revisionKey(kind)];
+  const revision = (revisions[id] ?? 0) + 1;
+  revisions[id] = revision;
+  data.seq += 1;
+  data.log.push({ seq: data.seq, kind, id, revision, record, ...origin, at: new Date().toISOString() });
+  if (data.log.length > MAX_LOG_ENTRIES) data.log = data.log.slice(-MAX_LOG_ENTRIES);
+  return revision;
+}
+
+/** Logs the difference between two versions of a collection. */
+function recordCollectionChanges<T extends SyncRecord>(
+  data: ServerData,
+  kind: RecordKind,
+  previous: T[],
+  next: T[]
+) {
+  const previousById = new Map(previous.map((r) => [r.id, r]));
+  const nextIds = new Set(next.map((r) => r.id));
+  for (const record of next) {
+    if (!sameRecord(previousById.get(record.id), record)) recordChange(data, kind, record.id, record);
+  }
+  for (const record of previous) {
+    if (!nextIds.has(record.id)) recordChange(data, kind, record.id, null);
+  }
+}
+
+export function listItems(filter: { semesterId?: string; classCode?: string } = {}) {
+  return read((data) =>
+    data.items.filter(
+      (i) =>
+        (!filter.semesterId || i.semesterId === filter.semesterId) &&
+        (!filter.classCode || i.classCode === filter.classCode)
+    )
+  );
+}
+
+export function getItem(id: string) {
+  return read((data) => {
+    const item = data.items.find((i) => i.id === id);
+    if (!item) throw new NotFoundError(`Item ${id} not found`);
+    return item;
+  });
+}
+
+export function createItems(items: AcademicItem[]) {
+  return mutate((data) => {
+    const existing = new Set(data.items.map((i) => i.id));
+    const duplicate = items.find((i) => existing.has(i.id));
+    if (duplicate) throw new ConflictError(`Item ${duplicate.id} already exists`);
+    data.items = [...data.items, ...items];
+    items.forEach((item) => recordChange(data, "item", item.id, item));
+    return items;
+  });
+}
+
+/** Creates or replaces one item. Resolves to true when it was created. */
+export function putItem(item: AcademicItem) {
+  return mutate((data) => {
+    const { records, created } = upsert(data.items, item);
+    data.items = records;
+    recordChange(data, "item", item.id, item);
+    return created;
+  });
+}
+
+export function deleteItem(id: string) {
+  return mutate((data) => {
+    if (!data.items.some((i) => i.id === id)) throw new NotFoundError(`Item ${id} not found`);
+    data.items = data.items.filter((i) => i.id !== id);
+    recordChange(data, "item", id, null);
+  });
+}
+
+export function replaceItems(items: AcademicItem[]) {
+  return mutate((data) => {
+    recordCollectionChanges(data, "item", data.items, items);
+    data.items = items;
+  });
+}
+
+export function listSemesters() {
+  return read((data) => data.semesters);
+}
+
+export function getSemester(id: string) {
+  return read((data) => {
+    const semester = data.semesters.find((s) => s.id === id);
+    if (!semester) throw new NotFoundError(`Semester ${id} not found`);
+    return semester;
+  });
+}
+
+export function createSemester(semester: Semester) {
+  return mutate((data) => {
+    if (data.semesters.some((s) => s.id === semester.id)) {
+      throw new ConflictError(`Semester ${semester.id} already exists`);
+    }
+    data.semesters = [...data.semesters, semester];
+    recordChange(data, "semester", semester.id, semester);
+    return semester;
+  });
+}
+
+export function putSemester(semester: Semester) {
+  return mutate((data) => {
+    const { records, created } = upsert(data.semesters, semester);
+    data.semesters = records;
+    recordChange(data, "semester", semester.id, semester);
+    return created;
+  });
+}
+
+/** Deleting a semester also deletes its items, matching the dashboard. */
+export function deleteSemester(id: string) {
+  return mutate((data) => {
+    if (!data.semesters.some((s) => s.id === id)) throw new NotFoundError(`Semester ${id} not found`);
+    data.semesters = data.semesters.filter((s) => s.id !== id);
+    recordChange(data, "semester", id, null);
+    for (const item of data.items) {
+      if (item.semesterId === id) recordChange(data, "item", item.id, null);
+    }
+    data.items = data.items.filter((i) => i.semesterId !== id);
+  });
+}
+
+export function replaceSemesters(semesters: Semester[]) {
+  return mutate((data) => {
+    recordCollectionChanges(data, "semester", data.semesters, semesters);
+    data.semesters = semesters;
+  });
+}
+
+function findRecord(data: ServerData, kind: RecordKind, id: string): SyncRecord | null {
+  const records: SyncRecord[] = kind === "item" ? data.items : data.semesters;
+  return records.find((r) => r.id === id) ?? null;
+}
+
+function storeRecord(data: ServerData, kind: RecordKind, id: string, record: SyncRecord | null) {
+  if (kind === "item") {
+    data.items = data.items.filter((i) => i.id !== id);
+    if (record) data.items.push(record as AcademicItem);
+  } else {
+    data.semesters = data.semesters.filter((s) => s.id !== id);
+    if (record) data.semesters.push(record as Semester);
+  }
+}
+
+/**
+ * Applies a device's queued changes, then returns everything it has not seen.
+ * Changes made against an older revision are merged field by field. Replays
+ * of a change the log already holds (e.g. a retry after a dropped response)
+ * are skipped. `rejected` are the changes that failed validation, passed back
+ * so the device can stop resending them.
+ */
+export function applySync(request: SyncRequest, rejected: RejectedChange[] = []): Promise<SyncResponse> {
+  return mutate((data) => {
+    const applied: Record<string, number> = {};
+    const merges: FieldMergeReport[] = [];
+    const logged = new Map(data.log.filter((e) => e.changeId).map((e) => [e.changeId, e.revision]));
+
+    for (const change of request.changes) {
+      const revision = logged.get(change.changeId);
+      if (revision !== undefined) {
+        applied[change.changeId] = revision;
+        continue;
+      }
+
+      const current = findRecord(data, change.kind, change.id);
+      const currentRevision = data.revisions[revisionKey(change.kind)][change.id] ?? 0;
+      let next = change.record;
+      if (change.baseRevision !== currentRevision) {
+        const merge = resolveStaleChange(change.base, change.record, current);
+        next = merge.record;
+        if (merge.conflicts.length > 0 && current) {
+          const overwritten = current as unknown as Record<string, unknown>;
+          merges.push({
+            kind: change.kind,
+            id: change.id,
+            fields: merge.conflicts,
+            overwritten: Object.fromEntries(merge.conflicts.map((f) => [f, overwritten[f]])),
+          });
+        }
+      }
+
+      if (sameRecord(next, current)) {
+        applied[change.changeId] = currentRevision;
+        continue;
+      }
+      storeRecord(data, change.kind, change.id, next);
+      applied[change.changeId] = recordChange(data, change.kind, change.id, next, {
+        clientId: request.clientId,
+        changeId: change.changeId,
+      });
+    }
+
+    const { cursor } = request;
+    const oldest = data.log[0]?.seq ?? data.seq + 1;
+    if (cursor === null || cursor < oldest - 1 || cursor > data.seq) {
+      return {
+        cursor: data.seq,
+        entries: [],
+        snapshot: { items: data.items, semesters: data.semesters, revisions: data.revisions },
+        applied,
+        merges,
+        rejected,
+      };
+    }
+    return {
+      cursor: data.seq,
+      entries: data.log.filter((e) => e.seq > cursor),
+      applied,
+      merges,
+      rejected,
+    };
+  });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import { ConflictError, NotFoundError } from "./dashboard-store";
+
+export class ValidationError extends Error {
+  constructor(message: string, readonly issues: z.ZodIssue[] = []) {
+    super(message);
+  }
+}
+
+export async function parseBody<T>(request: Request, schema: z.ZodType<T>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError("Request body must be JSON");
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError("Request body failed validation", result.error.issues);
+  }
+  return result.data;
+}
+
+/** Maps store and validation errors to status codes; anything else is a 500. */
+export function errorResponse(error: unknown) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+  }
+  if (error instanceof NotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof ConflictError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  console.error("Unhandled API error:", error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
+
+/** Rejects a body whose `id` disagrees with the id in the URL. */
+export function assertMatchingId(urlId: string, record: { id: string }) {
+  if (record.id !== urlId) {
+    throw new ValidationError(`Body id "${record.id}" does not match URL id "${urlId}"`);
+  }
+}
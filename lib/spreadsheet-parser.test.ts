@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseSpreadsheet, tokenizeDelimited } from "./spreadsheet-parser";
+
+const cells = (text: string, delimiter = ",") => tokenizeDelimited(text, delimiter).map((row) => row.cells);
+
+describe("tokenizeDelimited", () => {
+  it("keeps delimiters inside quoted fields", () => {
+    expect(cells('Essay,"Smith, J.",2026-02-15')).toEqual([["Essay", "Smith, J.", "2026-02-15"]]);
+    expect(cells('Essay;"a;b"', ";")).toEqual([["Essay", "a;b"]]);
+  });
+
+  it("keeps line breaks inside quoted fields and counts their lines", () => {
+    const rows = tokenizeDelimited('Lab,"Part 1\nPart 2"\nQuiz,Done', ",");
+    expect(rows.map((r) => r.cells)).toEqual([
+      ["Lab", "Part 1\nPart 2"],
+      ["Quiz", "Done"],
+    ]);
+    expect(rows.map((r) => r.line)).toEqual([1, 3]);
+  });
+
+  it("reads a doubled quote as a literal quote", () => {
+    expect(cells('"Read ""Hamlet""",""')).toEqual([['Read "Hamlet"', ""]]);
+  });
+
+  it("keeps quotes inside an unquoted field as typed", () => {
+    expect(cells('5" ruler,x')).toEqual([['5" ruler', "x"]]);
+  });
+
+  it("ends records on CRLF, LF and CR alike", () => {
+    expect(cells("a,b\r\nc,d\ne,f\rg,h\r\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+      ["g", "h"],
+    ]);
+  });
+
+  it("keeps a CRLF inside a quoted field and counts it as one line", () => {
+    const rows = tokenizeDelimited('"x\r\ny",z\r\nnext', ",");
+    expect(rows[0].cells).toEqual(["x\r\ny", "z"]);
+    expect(rows[1].line).toBe(3);
+  });
+
+  it("skips a leading byte order mark", () => {
+    expect(cells("\ufeffTitle,Due")).toEqual([["Title", "Due"]]);
+  });
+
+  it("flags a quoted value that is never closed", () => {
+    expect(tokenizeDelimited('a,"open', ",")[0].error).toBe("A quoted value is never closed");
+  });
+
+  it("flags text after a closing quote and keeps it", () => {
+    const [row] = tokenizeDelimited('"a"b,c', ",");
+    expect(row.cells).toEqual(["ab", "c"]);
+    expect(row.error).toMatch(/after a closing quote/);
+  });
+});
+
+describe("parseSpreadsheet", () => {
+  it("imports titles with commas, quotes and line breaks from CRLF text", () => {
+    const text = [
+      "Title,Class,Due Date",
+      '"Read ""Hamlet"", Act 1",ENG101,2026-02-15',
+      '"Lab report\nwith appendix",CHEM110,2026-02-20',
+    ].join("\r\n");
+    const { items, errors } = parseSpreadsheet(text);
+    expect(errors).toEqual([]);
+    expect(items.map((i) => [i.title, i.classCode, i.dueDate])).toEqual([
+      ['Read "Hamlet", Act 1', "ENG101", "2026-02-15"],
+      ["Lab report\nwith appendix", "CHEM110", "2026-02-20"],
+    ]);
+  });
+});
@@ -1,6 +1,16 @@
 import type { AcademicItem, ClassInfo, ItemType } from "./data";
-
-const COLORS = ["bg-chart-1", "bg-chart-2", "bg-chart-3", "bg-chart-4", "bg-chart-5"];
+import type { WorkbookSheet } from "./workbook";
+import { pointsToPercent } from "./grades";
+import {
+  detectColumnMapping,
+  duplicateFields,
+  fieldLabel,
+  missingFields,
+  type ColumnMapping,
+  type ImportField,
+} from "./column-mapping";
+
+export const CLASS_COLORS = ["bg-chart-1", "bg-chart-2", "bg-chart-3", "bg-chart-4", "bg-chart-5"];
 
 const TYPE_MAP: Record<string, ItemType> = {
   assignment: "assignment",
@@ -20,11 +30,51 @@ const TYPE_MAP: Record<string, ItemType> = {
   reading: "lecture",
 };
 
-function normalizeType(value: string): ItemType {
+export function normalizeType(value: string): ItemType {
   const key = value.toLowerCase().trim();
   return TYPE_MAP[key] ?? "assignment";
 }
 
+export const isKnownType = (value: string) => value.toLowerCase().trim() in TYPE_MAP;
+
+const CATEGORY_MAP: Record<string, NonNullable<AcademicItem["gradeCategory"]>> = {
+  exam: "exam",
+  exams: "exam",
+  midterm: "exam",
+  midterms: "exam",
+  final: "final",
+  "final exam": "final",
+  hw: "hw",
+  homework: "hw",
+  quiz: "quiz",
+  quizzes: "quiz",
+  project: "project",
+  projects: "project",
+  lab: "lab",
+  labs: "lab",
+  participation: "participation",
+  bonus: "bonus",
+  "extra credit": "bonus",
+};
+
+const YES = new Set(["yes", "y", "true", "1", "x", "final"]);
+const NO = new Set(["", "no", "n", "false", "0"]);
+
+type GradeFields = Pick<AcademicItem, "grade" | "pointsEarned" | "pointsPossible">;
+
+/** "92", "92%" or "18/25"; null when it is none of those. */
+function parseGrade(value: string): GradeFields | null {
+  const points = value.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  if (points) {
+    const earned = parseFloat(points[1]);
+    const possible = parseFloat(points[2]);
+    if (possible <= 0) return null;
+    return { grade: pointsToPercent(earned, possible), pointsEarned: earned, pointsPossible: possible };
+  }
+  const percent = value.match(/^(\d+(?:\.\d+)?)\s*%?$/);
+  return percent ? { grade: parseFloat(percent[1]) } : null;
+}
+
 function parseDate(value: string): string | null {
   if (!value?.trim()) return null;
   const str = value.trim();
@@ -66,147 +116,425 @@ function parseDate(value: string): string | null {
   return null;
 }
 
-function detectDelimiter(firstLine: string): string {
-  return firstLine.includes("\t") ? "\t" : ",";
+/** One record from delimited text, with where it came from. */
+export interface DelimitedRow {
+  cells: string[];
+  /** 1-based line the record starts on. */
+  line: number;
+  /** Offsets of the record in the tokenized text, line break excluded. */
+  start: number;
+  end: number;
+  /** Set when the record is malformed; its cells are a best guess. */
+  error?: string;
+}
+
+/**
+ * Splits delimited text into records per RFC 4180: fields may be quoted,
+ * a doubled quote inside a quoted field is a literal quote, and quoted fields
+ * may contain the delimiter and line breaks. A leading byte order mark is
+ * skipped, and CRLF, LF and CR all end a record. Quotes inside an unquoted
+ * field are kept as typed (5" ruler).
+ */
+export function tokenizeDelimited(text: string, delimiter: string): DelimitedRow[] {
+  const rows: DelimitedRow[] = [];
+  const isBreak = (ch: string | undefined) => ch === "\n" || ch === "\r";
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+
+  while (i < text.length) {
+    const row: DelimitedRow = { cells: [], line, start: i, end: i };
+
+    for (;;) {
+      // Spaces before an opening quote are allowed (a, "b")
+      let j = i;
+      while (text[j] === " ") j++;
+
+      if (text[j] === '"') {
+        let value = "";
+        let closed = false;
+        i = j + 1;
+        while (i < text.length) {
+          const ch = text[i];
+          if (ch === '"') {
+            if (text[i + 1] === '"') {
+              value += '"';
+              i += 2;
+              continue;
+            }
+            closed = true;
+            i++;
+            break;
+          }
+          if (ch === "\n" || (ch === "\r" && text[i + 1] !== "\n")) line++;
+          value += ch;
+          i++;
+        }
+        if (!closed) row.error ??= "A quoted value is never closed";
+
+        let rest = i;
+        while (rest < text.length && text[rest] !== delimiter && !isBreak(text[rest])) rest++;
+        const trailing = text.slice(i, rest);
+        if (trailing.trim()) {
+          row.error ??= `Unexpected text after a closing quote: ${trailing.trim()}`;
+          value += trailing;
+        }
+        i = rest;
+        row.cells.push(value);
+      } else {
+        let end = i;
+        while (end < text.length && text[end] !== delimiter && !isBreak(text[end])) end++;
+        row.cells.push(text.slice(i, end));
+        i = end;
+      }
+
+      if (text[i] === delimiter) {
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    row.end = i;
+    if (text[i] === "\r") i++;
+    if (text[i] === "\n") i++;
+    line++;
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const DELIMITER_NAMES: Record<string, string> = { "\t": "tabs", ",": "commas", ";": "semicolons" };
+
+/**
+ * Tab when the header has one, otherwise whichever of comma and semicolon it
+ * uses more; semicolons are what spreadsheets export where the comma is the
+ * decimal separator. Quoted text is not counted.
+ */
+function detectDelimiter(headerLine: string): string {
+  const unquoted = headerLine.replace(/"(?:[^"]|"")*"/g, "");
+  if (unquoted.includes("\t")) return "\t";
+  const count = (ch: string) => unquoted.split(ch).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+export interface ParseRowError {
+  line: number;
+  /** The workbook sheet the row is on; pasted text has none. */
+  sheet?: string;
+  message: string;
+}
+
+/** An item read from a row, with what the row actually said. */
+export interface ParsedRow {
+  item: AcademicItem;
+  line: number;
+  sheet?: string;
+  /** Item fields the row had a value for; the rest are defaults. */
+  provided: (keyof AcademicItem)[];
+  /** Values that were read with a guess, e.g. a due date that wasn't a date. */
+  warnings: string[];
 }
 
 export interface ParseResult {
   items: AcademicItem[];
   classes: ClassInfo[];
+  rows: ParsedRow[];
+  /** Rows that could not be read and were left out. */
+  errors: ParseRowError[];
 }
 
-function looksLikeHeader(line: string): boolean {
-  const lower = line.toLowerCase();
+/** "Line 4" for pasted text, "Row 4 of Fall" for a workbook sheet. */
+export const rowLocation = ({ line, sheet }: { line: number; sheet?: string }) =>
+  sheet ? `Row ${line} of ${sheet}` : `Line ${line}`;
+
+const isBlankRow = (row: DelimitedRow) => row.cells.every((cell) => !cell.trim());
+
+function looksLikeHeader(row: DelimitedRow): boolean {
+  const lower = row.cells.join(" ").toLowerCase();
   return (
     (lower.includes("class") || lower.includes("course")) &&
     (lower.includes("title") || lower.includes("name") || lower.includes("assignment") || lower.includes("due") || lower.includes("date"))
   );
 }
 
-function parseSingleBlock(lines: string[], baseId: string): ParseResult {
-  if (lines.length < 2) return { items: [], classes: [] };
-
-  const delimiter = detectDelimiter(lines[0]);
-  const headers = lines[0].split(delimiter).map((h) => h.toLowerCase().trim());
+/** A header row and the rows under it, from pasted text or a workbook sheet. */
+export interface SpreadsheetSheet {
+  header: string[];
+  /** 1-based line of the header. */
+  line: number;
+  rows: DelimitedRow[];
+  /** The delimiter of pasted text; workbook sheets have none. */
+  delimiter?: string;
+  /** The workbook sheet's name, which stands in for a missing class. */
+  name?: string;
+}
 
-  const col = (names: string[]): number => {
-    for (const name of names) {
-      const i = headers.findIndex((h) => h.includes(name) || name.includes(h));
-      if (i >= 0) return i;
-    }
-    return -1;
-  };
+function splitClass(classRaw: string, fallback: string): { classCode: string; className: string } {
+  const dash = classRaw.indexOf(" - ");
+  if (dash > 0) {
+    const classCode = classRaw.slice(0, dash).trim();
+    return { classCode, className: classRaw.slice(dash + 3).trim() || classCode };
+  }
+  const classCode = classRaw.replace(/\s+/g, "").toUpperCase() || fallback;
+  return { classCode, className: classRaw || classCode };
+}
 
-  const classCol = col(["class", "course", "subject"]) >= 0 ? col(["class", "course", "subject"]) : 0;
-  const titleCol = col(["title", "name", "assignment"]) >= 0 ? col(["title", "name", "assignment"]) : 1;
-  const typeCol = col(["type", "category"]);
-  const dateCol = col(["due date", "due", "date"]) >= 0 ? col(["due date", "due", "date"]) : 2;
-  const timeCol = col(["time"]);
+function parseSheet(sheet: SpreadsheetSheet, mapping: ColumnMapping, baseId: string): ParseResult {
+  const problems = [
+    ...missingFields(mapping, !!sheet.name).map((field) => `No column is mapped to ${fieldLabel(field)}`),
+    ...duplicateFields(mapping).map((field) => `More than one column is mapped to ${fieldLabel(field)}`),
+  ];
+  if (problems.length > 0) {
+    return {
+      items: [],
+      classes: [],
+      rows: [],
+      errors: problems.map((message) => ({ line: sheet.line, sheet: sheet.name, message })),
+    };
+  }
 
+  const headerKey = sheet.header.map((h) => h.trim().toLowerCase()).join("\u0000");
   const classMap = new Map<string, ClassInfo>();
-  const items: AcademicItem[] = [];
+  const parsed: ParsedRow[] = [];
+  const errors: ParseRowError[] = [];
   let colorIndex = 0;
 
-  for (let i = 1; i < lines.length; i++) {
-    if (looksLikeHeader(lines[i])) continue;
+  for (let i = 0; i < sheet.rows.length; i++) {
+    const row = sheet.rows[i];
+    if (row.error) {
+      errors.push({ line: row.line, sheet: sheet.name, message: row.error });
+      continue;
+    }
 
-    const cells = lines[i].split(delimiter).map((c) => c.trim());
-    const classRaw = cells[classCol] ?? "";
-    const titleRaw = cells[titleCol] ?? "";
-    const dateRaw = cells[dateCol] ?? "";
+    const cells = row.cells.map((c) => c.trim());
+    // A repeat of the header, e.g. from copying a sheet twice
+    if (cells.map((c) => c.toLowerCase()).join("\u0000") === headerKey) continue;
+
+    // Trailing empty cells are common in spreadsheet exports; anything else past
+    // the last header means the columns would shift
+    const lastFilled = cells.reduce((last, cell, index) => (cell ? index : last), -1);
+    if (lastFilled >= sheet.header.length) {
+      const delimiter = sheet.delimiter && (DELIMITER_NAMES[sheet.delimiter] ?? `"${sheet.delimiter}"`);
+      errors.push({
+        line: row.line,
+        sheet: sheet.name,
+        message: delimiter
+          ? `Has ${lastFilled + 1} columns but the header has ${sheet.header.length}; put values containing ${delimiter} in double quotes`
+          : `Has ${lastFilled + 1} columns but the header has ${sheet.header.length}`,
+      });
+      continue;
+    }
 
+    const value = (field: ImportField) => {
+      const index = mapping.indexOf(field);
+      return index >= 0 ? (cells[index] ?? "") : "";
+    };
+    const classRaw = value("class") || sheet.name || "";
+    const titleRaw = value("title");
     if (!titleRaw && !classRaw) continue;
 
-    let classCode = classRaw;
-    let className = classRaw;
-    const dash = classRaw.indexOf(" - ");
-    if (dash > 0) {
-      classCode = classRaw.slice(0, dash).trim();
-      className = classRaw.slice(dash + 3).trim() || classCode;
-    } else {
-      classCode = classRaw.replace(/\s+/g, "").toUpperCase() || `CLASS-${i}`;
-      className = classRaw || classCode;
+    const gradeRaw = value("grade");
+    const score = gradeRaw ? parseGrade(gradeRaw) : {};
+    if (!score) {
+      errors.push({ line: row.line, sheet: sheet.name, message: `Grade "${gradeRaw}" is not a percent or points like 18/25` });
+      continue;
+    }
+    const categoryRaw = value("gradeCategory").toLowerCase();
+    const gradeCategory = categoryRaw ? CATEGORY_MAP[categoryRaw] : undefined;
+    if (categoryRaw && !gradeCategory) {
+      errors.push({ line: row.line, sheet: sheet.name, message: `Grade category "${value("gradeCategory")}" is not one this app tracks` });
+      continue;
+    }
+    const finalRaw = value("isFinal").toLowerCase();
+    if (!YES.has(finalRaw) && !NO.has(finalRaw)) {
+      errors.push({ line: row.line, sheet: sheet.name, message: `Final exam? should be yes or no, not "${value("isFinal")}"` });
+      continue;
     }
 
+    const { classCode, className } = splitClass(classRaw, `CLASS-${i + 1}`);
     if (!classMap.has(classCode)) {
       classMap.set(classCode, {
         code: classCode,
         name: className,
-        color: COLORS[colorIndex % COLORS.length],
+        color: CLASS_COLORS[colorIndex % CLASS_COLORS.length],
         hasLatePenalty: false,
       });
       colorIndex++;
     }
 
-    const dueDate = parseDate(dateRaw) ?? new Date().toISOString().slice(0, 10);
-    const type = typeCol >= 0 && cells[typeCol] ? normalizeType(cells[typeCol]) : "assignment";
-    const time = timeCol >= 0 && cells[timeCol] ? cells[timeCol] : undefined;
-
-    items.push({
-      id: `${baseId}-${i}-${Math.random().toString(36).slice(2, 9)}`,
-      title: titleRaw || `${type} ${i}`,
+    const warnings: string[] = [];
+    const dateRaw = value("dueDate");
+    const parsedDate = parseDate(dateRaw);
+    const today = new Date().toISOString().slice(0, 10);
+    if (!dateRaw) warnings.push("No due date; using today");
+    else if (!parsedDate) warnings.push(`Due date "${dateRaw}" isn't a date; using today`);
+    const typeRaw = value("type");
+    const type = typeRaw ? normalizeType(typeRaw) : "assignment";
+    if (typeRaw && !isKnownType(typeRaw)) warnings.push(`Type "${typeRaw}" isn't known; using assignment`);
+    if (!classRaw) warnings.push(`No class; using ${classCode}`);
+    if (!titleRaw) warnings.push(`No title; using "${type} ${i + 1}"`);
+
+    const item: AcademicItem = {
+      id: `${baseId}-${i + 1}-${Math.random().toString(36).slice(2, 9)}`,
+      title: titleRaw || `${type} ${i + 1}`,
       class: className,
       classCode,
       type,
-      status: "not-started",
-      dueDate,
-      time: time || undefined,
-    });
+      status: score.grade !== undefined ? "completed" : "not-started",
+      dueDate: parsedDate ?? today,
+      time: value("time") || undefined,
+      description: value("description") || undefined,
+      location: value("location") || undefined,
+      ...score,
+      gradeCategory,
+      isFinal: finalRaw ? YES.has(finalRaw) : undefined,
+    };
+    // Everything else on the item is a default the row didn't ask for
+    const guessed = new Set<keyof AcademicItem>(["id", "class", "classCode"]);
+    if (!titleRaw) guessed.add("title");
+    if (!typeRaw || !isKnownType(typeRaw)) guessed.add("type");
+    if (!parsedDate) guessed.add("dueDate");
+    if (score.grade === undefined) guessed.add("status");
+    const provided = (Object.keys(item) as (keyof AcademicItem)[]).filter(
+      (key) => item[key] !== undefined && !guessed.has(key)
+    );
+    parsed.push({ item, line: row.line, sheet: sheet.name, provided, warnings });
   }
 
-  return { items, classes: Array.from(classMap.values()) };
+  return { items: parsed.map((row) => row.item), classes: Array.from(classMap.values()), rows: parsed, errors };
 }
 
-export function parseSpreadsheet(text: string): ParseResult {
-  const trimmed = text.trim();
-  if (!trimmed) return { items: [], classes: [] };
+/** Groups rows into sheets, which are separated by blank rows. */
+function splitBlocks(rows: DelimitedRow[]): DelimitedRow[][] {
+  const blocks: DelimitedRow[][] = [];
+  let current: DelimitedRow[] = [];
+  for (const row of rows) {
+    if (isBlankRow(row)) {
+      if (current.length) blocks.push(current);
+      current = [];
+    } else {
+      current.push(row);
+    }
+  }
+  if (current.length) blocks.push(current);
+  return blocks;
+}
 
-  const baseId = `imported-${Date.now()}`;
-  const allItems: AcademicItem[] = [];
-  const allClassesMap = new Map<string, ClassInfo>();
-  let globalColorIndex = 0;
+/**
+ * Re-reads a sheet whose header uses a different delimiter than the first
+ * one, so sheets pasted from different sources can be mixed.
+ */
+function retokenize(source: string, block: DelimitedRow[], delimiter: string): DelimitedRow[] {
+  const offset = block[0].start;
+  const lineOffset = block[0].line - 1;
+  return tokenizeDelimited(source.slice(offset, block[block.length - 1].end), delimiter)
+    .filter((row) => !isBlankRow(row))
+    .map((row) => ({ ...row, line: row.line + lineOffset, start: row.start + offset, end: row.end + offset }));
+}
 
-  // Split by blank lines (double newline = new sheet)
-  const blocks = trimmed.split(/\n\s*\n/);
+/** Splits a block at header rows repeated after data; the first row is a header. */
+function splitHeaders(
+  rows: DelimitedRow[],
+  source: Pick<SpreadsheetSheet, "delimiter" | "name">
+): SpreadsheetSheet[] {
+  if (rows.length < 2) return [];
+
+  const chunkStarts: number[] = [0];
+  for (let i = 1; i < rows.length; i++) {
+    if (looksLikeHeader(rows[i]) && !looksLikeHeader(rows[i - 1])) {
+      chunkStarts.push(i);
+    }
+  }
 
-  for (let b = 0; b < blocks.length; b++) {
-    const block = blocks[b].trim();
-    if (!block) continue;
+  return chunkStarts.flatMap((start, c) => {
+    const end = c + 1 < chunkStarts.length ? chunkStarts[c + 1] : rows.length;
+    if (end - start < 2) return [];
+    return [
+      {
+        header: rows[start].cells.map((h) => h.trim()),
+        line: rows[start].line,
+        rows: rows.slice(start + 1, end),
+        ...source,
+      },
+    ];
+  });
+}
 
-    const rawLines = block.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
-    if (rawLines.length < 2) continue;
+/**
+ * Splits pasted text into sheets. Blank rows separate sheets, and so does a
+ * header row repeated after data.
+ */
+export function readSheets(text: string): SpreadsheetSheet[] {
+  if (!text.trim()) return [];
+
+  // Excel's "sep=;" first line names the delimiter; blank it so line numbers hold
+  let source = text.replace(/^\uFEFF/, "");
+  const sepHint = source.match(/^sep=(.)[ \t]*(?=\r?\n|$)/i);
+  const hinted = sepHint?.[1];
+  if (sepHint) source = source.slice(sepHint[0].length);
+
+  const firstLine = source.split(/\r?\n|\r/).find((l) => l.trim()) ?? "";
+  const defaultDelimiter = hinted ?? detectDelimiter(firstLine);
+  const sheets: SpreadsheetSheet[] = [];
+
+  for (const block of splitBlocks(tokenizeDelimited(source, defaultDelimiter))) {
+    const delimiter = hinted ?? detectDelimiter(source.slice(block[0].start, block[0].end));
+    const rows = delimiter === defaultDelimiter ? block : retokenize(source, block, delimiter);
+    sheets.push(...splitHeaders(rows, { delimiter }));
+  }
 
-    // Detect multiple header blocks within same text (repeated header = new sheet)
-    const chunkStarts: number[] = [0];
-    for (let i = 1; i < rawLines.length; i++) {
-      if (looksLikeHeader(rawLines[i]) && !looksLikeHeader(rawLines[i - 1])) {
-        chunkStarts.push(i);
-      }
-    }
+  return sheets;
+}
 
-    for (let c = 0; c < chunkStarts.length; c++) {
-      const start = chunkStarts[c];
-      const end = c + 1 < chunkStarts.length ? chunkStarts[c + 1] : rawLines.length;
-      const chunk = rawLines.slice(start, end);
-      if (chunk.length < 2) continue;
-
-      const { items, classes } = parseSingleBlock(chunk, `${baseId}-${b}-${c}`);
-
-      for (const cls of classes) {
-        if (!allClassesMap.has(cls.code)) {
-          allClassesMap.set(cls.code, {
-            ...cls,
-            color: COLORS[globalColorIndex % COLORS.length],
-          });
-          globalColorIndex++;
-        }
+/**
+ * Each workbook sheet as a block of its own. Blank rows inside a sheet are
+ * just skipped, but a repeated header still starts a new block, and the
+ * sheet's name is kept as the class for rows that don't name one.
+ */
+export function readWorkbookSheets(workbook: WorkbookSheet[]): SpreadsheetSheet[] {
+  return workbook.flatMap((sheet) =>
+    splitHeaders(
+      sheet.rows.map((row) => ({ cells: row.cells, line: row.line, start: 0, end: 0 })),
+      { name: sheet.name }
+    )
+  );
+}
+
+/** Reads items from sheets, using each sheet's column mapping. */
+export function parseSheets(sheets: SpreadsheetSheet[], mappings: ColumnMapping[]): ParseResult {
+  const baseId = `imported-${Date.now()}`;
+  const allRows: ParsedRow[] = [];
+  const allErrors: ParseRowError[] = [];
+  const allClassesMap = new Map<string, ClassInfo>();
+  let globalColorIndex = 0;
+
+  sheets.forEach((sheet, index) => {
+    const { rows, classes, errors } = parseSheet(sheet, mappings[index] ?? [], `${baseId}-${index}`);
+    allErrors.push(...errors);
+
+    for (const cls of classes) {
+      if (!allClassesMap.has(cls.code)) {
+        allClassesMap.set(cls.code, {
+          ...cls,
+          color: CLASS_COLORS[globalColorIndex % CLASS_COLORS.length],
+        });
+        globalColorIndex++;
       }
-      allItems.push(...items);
     }
-  }
+    allRows.push(...rows);
+  });
 
   return {
-    items: allItems,
+    items: allRows.map((row) => row.item),
     classes: Array.from(allClassesMap.values()),
+    rows: allRows,
+    errors: allErrors,
   };
 }
+
+/** Reads pasted text with each sheet's columns mapped by header name. */
+export function parseSpreadsheet(text: string): ParseResult {
+  const sheets = readSheets(text);
+  return parseSheets(sheets, sheets.map((sheet) => detectColumnMapping(sheet.header)));
+}
@@ -0,0 +1,89 @@
+import type { AcademicItem, Semester } from "../data";
+import type { QuarantinedRecord, StoredSnapshot } from "./schema";
+
+export interface LoadSnapshotResult {
+  snapshot: StoredSnapshot | null;
+  quarantined: QuarantinedRecord[];
+}
+
+/** Incremental write: only the records that changed since the last persist. */
+export interface StorageChangeSet {
+  upsertItems: AcademicItem[];
+  deleteItemIds: string[];
+  upsertSemesters: Semester[];
+  deleteSemesterIds: string[];
+  currentSemesterId?: string;
+}
+
+/**
+ * A place the dashboard can persist to. Implementations own their on-disk
+ * layout, run schema migrations on load and keep their own quarantine of
+ * records that could not be migrated.
+ */
+export interface StorageAdapter {
+  readonly kind: "local-storage" | "indexeddb" | "memory" | "server";
+  /** Returns a null snapshot when nothing has been stored yet. */
+  load(): Promise<LoadSnapshotResult>;
+  apply(changes: StorageChangeSet): Promise<void>;
+  replaceAll(snapshot: StoredSnapshot): Promise<void>;
+  clear(): Promise<void>;
+  loadQuarantine(): Promise<QuarantinedRecord[]>;
+}
+
+export const emptySnapshot: StoredSnapshot = {
+  items: [],
+  semesters: [],
+  currentSemesterId: "",
+};
+
+function diffRecords<T extends { id: string }>(prev: T[], next: T[]) {
+  const prevById = new Map(prev.map((r) => [r.id, r]));
+  const nextIds = new Set(next.map((r) => r.id));
+  return {
+    upserts: next.filter((r) => prevById.get(r.id) !== r),
+    deletes: prev.filter((r) => !nextIds.has(r.id)).map((r) => r.id),
+  };
+}
+
+/**
+ * Compares two snapshots by record identity. React state updates replace only
+ * the objects that changed, so unchanged records are skipped without a deep compare.
+ */
+export function diffSnapshots(prev: StoredSnapshot, next: StoredSnapshot): StorageChangeSet {
+  const items = diffRecords(prev.items, next.items);
+  const semesters = diffRecords(prev.semesters, next.semesters);
+  return {
+    upsertItems: items.upserts,
+    deleteItemIds: items.deletes,
+    upsertSemesters: semesters.upserts,
+    deleteSemesterIds: semesters.deletes,
+    currentSemesterId:
+      prev.currentSemesterId !== next.currentSemesterId ? next.currentSemesterId : undefined,
+  };
+}
+
+export function isEmptyChangeSet(changes: StorageChangeSet): boolean {
+  return (
+    changes.upsertItems.length === 0 &&
+    changes.deleteItemIds.length === 0 &&
+    changes.upsertSemesters.length === 0 &&
+    changes.deleteSemesterIds.length === 0 &&
+    changes.currentSemesterId === undefined
+  );
+}
+
+export function applyChangeSet(snapshot: StoredSnapshot, changes: StorageChangeSet): StoredSnapshot {
+  const items = new Map(snapshot.items.map((i) => [i.id, i]));
+  for (const id of changes.deleteItemIds) items.delete(id);
+  for (const item of changes.upsertItems) items.set(item.id, item);
+
+  const semesters = new Map(snapshot.semesters.map((s) => [s.id, s]));
+  for (const id of changes.deleteSemesterIds) semesters.delete(id);
+  for (const semester of changes.upsertSemesters) semesters.set(semester.id, semester);
+
+  return {
+    items: Array.from(items.values()),
+    semesters: Array.from(semesters.values()),
+    currentSemesterId: changes.currentSemesterId ?? snapshot.currentSemesterId,
+  };
+}
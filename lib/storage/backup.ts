@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { QuarantinedRecord, StoredSnapshot } from "./schema";
+import { CURRENT_SCHEMA_VERSION } from "./schema";
+import { migrateSnapshot } from "./migrations";
+
+export const BACKUP_FORMAT = "academic-dashboard-backup";
+
+export type RestoreMode = "merge" | "replace";
+
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().nonnegative(),
+  exportedAt: z.string(),
+  currentSemesterId: z.string(),
+  semesters: z.array(z.unknown()),
+  items: z.array(z.unknown()),
+});
+
+export type BackupFile = z.infer<typeof backupFileSchema>;
+
+export function createBackup(snapshot: StoredSnapshot): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    version: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    currentSemesterId: snapshot.currentSemesterId,
+    semesters: snapshot.semesters,
+    items: snapshot.items,
+  };
+}
+
+export function backupFileName(date = new Date()): string {
+  return `academic-dashboard-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+export interface ParsedBackup {
+  snapshot: StoredSnapshot;
+  exportedAt: string;
+  /** Records in the file that failed validation; they are not restored. */
+  invalid: QuarantinedRecord[];
+}
+
+/**
+ * Validates a backup file and upgrades it to the current schema, so backups
+ * taken by older builds restore cleanly. Throws with a readable message when
+ * the file is not a backup at all.
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  const result = backupFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error("This file is not an Academic Dashboard backup.");
+  }
+
+  const file = result.data;
+  const { snapshot, quarantined } = migrateSnapshot({
+    version: file.version,
+    items: file.items,
+    semesters: file.semesters,
+    currentSemesterId: file.currentSemesterId,
+  });
+  return { snapshot, exportedAt: file.exportedAt, invalid: quarantined };
+}
+
+export interface RecordChangeCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface RestorePreview {
+  semesters: RecordChangeCounts;
+  items: RecordChangeCounts;
+}
+
+function countChanges<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode
+): RecordChangeCounts {
+  const currentById = new Map(current.map((r) => [r.id, r]));
+  const incomingIds = new Set(incoming.map((r) => r.id));
+  const counts: RecordChangeCounts = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+  for (const record of incoming) {
+    const existing = currentById.get(record.id);
+    if (!existing) counts.added++;
+    else if (JSON.stringify(existing) === JSON.stringify(record)) counts.unchanged++;
+    else counts.updated++;
+  }
+  if (mode === "replace") {
+    counts.removed = current.filter((r) => !incomingIds.has(r.id)).length;
+  }
+  return counts;
+}
+
+export function previewRestore(
+  current: StoredSnapshot,
+  incoming: StoredSnapshot,
+  mode: RestoreMode
+): RestorePreview {
+  return {
+    semesters: countChanges(current.semesters, incoming.semesters, mode),
+    items: countChanges(current.items, incoming.items, mode),
+  };
+}
+
+function mergeById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const incomingById = new Map(incoming.map((r) => [r.id, r]));
+  const currentIds = new Set(current.map((r) => r.id));
+  return [
+    ...current.map((r) => incomingById.get(r.id) ?? r),
+    ...incoming.filter((r) => !currentIds.has(r.id)),
+  ];
+}
+
+/**
+ * Replace swaps in the backup wholesale. Merge keeps everything that is not in
+ * the backup, and lets the backup win for records present in both.
+ */
+export function applyRestore(
+  current: StoredSnapshot,
+  incoming: StoredSnapshot,
+  mode: RestoreMode
+): StoredSnapshot {
+  if (mode === "replace") return incoming;
+
+  const semesters = mergeById(current.semesters, incoming.semesters);
+  return {
+    semesters,
+    items: mergeById(current.items, incoming.items),
+    currentSemesterId: semesters.some((s) => s.id === current.currentSemesterId)
+      ? current.currentSemesterId
+      : incoming.currentSemesterId,
+  };
+}
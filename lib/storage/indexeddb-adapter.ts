@@ -0,0 +1,181 @@
+import type { QuarantinedRecord, StoredSnapshot } from "./schema";
+import { CURRENT_SCHEMA_VERSION } from "./schema";
+import { migrateSnapshot } from "./migrations";
+import type { LoadSnapshotResult, StorageAdapter, StorageChangeSet } from "./adapter";
+
+const DB_NAME = "academic-dashboard";
+const DB_VERSION = 1;
+const ITEMS_STORE = "items";
+const SEMESTERS_STORE = "semesters";
+const META_STORE = "meta";
+const QUARANTINE_STORE = "quarantine";
+const META_KEY = "snapshot";
+
+interface StoredMeta {
+  version: number;
+  savedAt: string;
+  currentSemesterId: string;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        db.createObjectStore(ITEMS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(SEMESTERS_STORE)) {
+        db.createObjectStore(SEMESTERS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another open tab"));
+  });
+}
+
+function metaFor(currentSemesterId: string): StoredMeta {
+  return {
+    version: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    currentSemesterId,
+  };
+}
+
+export interface IndexedDBAdapterOptions {
+  factory?: IDBFactory;
+  /**
+   * Read once when the database is empty, then cleared. Lets existing
+   * localStorage data move over the first time IndexedDB is used.
+   */
+  importFrom?: StorageAdapter;
+}
+
+export function createIndexedDBAdapter(options: IndexedDBAdapterOptions = {}): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    dbPromise ??= openDatabase(options.factory ?? indexedDB);
+    return dbPromise;
+  };
+
+  async function addToQuarantine(db: IDBDatabase, records: QuarantinedRecord[]) {
+    if (records.length === 0) return;
+    const tx = db.transaction(QUARANTINE_STORE, "readwrite");
+    const store = tx.objectStore(QUARANTINE_STORE);
+    for (const record of records) store.add(record);
+    await transactionDone(tx);
+  }
+
+  async function writeAll(db: IDBDatabase, snapshot: StoredSnapshot) {
+    const tx = db.transaction([ITEMS_STORE, SEMESTERS_STORE, META_STORE], "readwrite");
+    const items = tx.objectStore(ITEMS_STORE);
+    const semesters = tx.objectStore(SEMESTERS_STORE);
+    items.clear();
+    semesters.clear();
+    for (const item of snapshot.items) items.put(item);
+    for (const semester of snapshot.semesters) semesters.put(semester);
+    tx.objectStore(META_STORE).put(metaFor(snapshot.currentSemesterId), META_KEY);
+    await transactionDone(tx);
+  }
+
+  async function importLegacy(db: IDBDatabase): Promise<LoadSnapshotResult> {
+    const source = options.importFrom;
+    if (!source) return { snapshot: null, quarantined: [] };
+
+    const result = await source.load();
+    if (result.snapshot) {
+      await writeAll(db, result.snapshot);
+      await source.clear();
+    }
+    return result;
+  }
+
+  return {
+    kind: "indexeddb",
+
+    async load() {
+      const db = await getDb();
+      const tx = db.transaction([ITEMS_STORE, SEMESTERS_STORE, META_STORE], "readonly");
+      const [items, semesters, meta] = await Promise.all([
+        requestToPromise(tx.objectStore(ITEMS_STORE).getAll()),
+        requestToPromise(tx.objectStore(SEMESTERS_STORE).getAll()),
+        requestToPromise(tx.objectStore(META_STORE).get(META_KEY)) as Promise<StoredMeta | undefined>,
+      ]);
+
+      if (!meta) return importLegacy(db);
+
+      const { snapshot, quarantined, migrated } = migrateSnapshot({
+        version: meta.version,
+        items,
+        semesters,
+        currentSemesterId: meta.currentSemesterId,
+      });
+      await addToQuarantine(db, quarantined);
+      if (migrated || quarantined.length > 0) {
+        await writeAll(db, snapshot);
+      }
+      return { snapshot, quarantined };
+    },
+
+    async apply(changes: StorageChangeSet) {
+      const db = await getDb();
+      const tx = db.transaction([ITEMS_STORE, SEMESTERS_STORE, META_STORE], "readwrite");
+      const items = tx.objectStore(ITEMS_STORE);
+      const semesters = tx.objectStore(SEMESTERS_STORE);
+      const metaStore = tx.objectStore(META_STORE);
+
+      for (const id of changes.deleteItemIds) items.delete(id);
+      for (const item of changes.upsertItems) items.put(item);
+      for (const id of changes.deleteSemesterIds) semesters.delete(id);
+      for (const semester of changes.upsertSemesters) semesters.put(semester);
+
+      const existing = (await requestToPromise(metaStore.get(META_KEY))) as StoredMeta | undefined;
+      metaStore.put(
+        metaFor(changes.currentSemesterId ?? existing?.currentSemesterId ?? ""),
+        META_KEY
+      );
+      await transactionDone(tx);
+    },
+
+    async replaceAll(snapshot: StoredSnapshot) {
+      await writeAll(await getDb(), snapshot);
+    },
+
+    async clear() {
+      const db = await getDb();
+      const tx = db.transaction([ITEMS_STORE, SEMESTERS_STORE, META_STORE], "readwrite");
+      tx.objectStore(ITEMS_STORE).clear();
+      tx.objectStore(SEMESTERS_STORE).clear();
+      tx.objectStore(META_STORE).clear();
+      await transactionDone(tx);
+    },
+
+    async loadQuarantine() {
+      const db = await getDb();
+      const tx = db.transaction(QUARANTINE_STORE, "readonly");
+      return (await requestToPromise(tx.objectStore(QUARANTINE_STORE).getAll())) as QuarantinedRecord[];
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { MapStorage } from "@/test/map-storage";
+import { createLocalStorageAdapter } from "./local-storage-adapter";
+
+const item = {
+  id: "item-1",
+  title: "Homework 1",
+  class: "Calculus",
+  classCode: "MATH101",
+  type: "homework",
+  status: "not-started",
+  dueDate: "2026-02-15",
+};
+
+const semester = {
+  id: "spring",
+  name: "Spring 2026",
+  startDate: "2026-01-12",
+  endDate: "2026-05-08",
+  classes: [{ code: "MATH101", name: "Calculus", color: "bg-chart-1", hasLatePenalty: false }],
+  gradeWeights: {},
+};
+
+// State other modules keep under the same prefix
+const unrelated = {
+  "academic-dashboard:sync-state": JSON.stringify({ outbox: [{ id: "change-1" }], cursor: 7 }),
+  "academic-dashboard:server-sync": "true",
+  "academic-dashboard:weight-templates": "[]",
+  "academic-dashboard:trash-retention-days": "30",
+  "academic-dashboard:column-mappings": "{}",
+};
+
+function storageWith(entries: Record<string, string>): MapStorage {
+  const storage = new MapStorage();
+  for (const [key, value] of Object.entries(entries)) storage.setItem(key, value);
+  return storage;
+}
+
+describe("createLocalStorageAdapter", () => {
+  it("keeps unrelated keys when a load migrates the records", async () => {
+    const storage = storageWith({
+      ...unrelated,
+      "academic-dashboard:meta": JSON.stringify({ version: 10, savedAt: "", currentSemesterId: "spring" }),
+      "academic-dashboard:item:item-1": JSON.stringify(item),
+      "academic-dashboard:semester:spring": JSON.stringify(semester),
+    });
+
+    const { snapshot } = await createLocalStorageAdapter(storage).load();
+
+    expect(snapshot?.items).toEqual([item]);
+    for (const [key, value] of Object.entries(unrelated)) expect(storage.getItem(key)).toBe(value);
+    expect(JSON.parse(storage.getItem("academic-dashboard:meta") ?? "{}")).toMatchObject({ version: 11 });
+  });
+
+  it("keeps unrelated keys when a load quarantines a record", async () => {
+    const storage = storageWith({
+      ...unrelated,
+      "academic-dashboard:meta": JSON.stringify({ version: 11, savedAt: "", currentSemesterId: "spring" }),
+      "academic-dashboard:item:item-1": JSON.stringify(item),
+      "academic-dashboard:item:broken": "{not json",
+    });
+
+    const { quarantined } = await createLocalStorageAdapter(storage).load();
+
+    expect(quarantined).toHaveLength(1);
+    expect(storage.getItem("academic-dashboard:item:broken")).toBeNull();
+    for (const [key, value] of Object.entries(unrelated)) expect(storage.getItem(key)).toBe(value);
+  });
+
+  it("replaces and clears only the dashboard's records", async () => {
+    const storage = storageWith({
+      ...unrelated,
+      "academic-dashboard:meta": JSON.stringify({ version: 11, savedAt: "", currentSemesterId: "spring" }),
+      "academic-dashboard:item:old": JSON.stringify({ ...item, id: "old" }),
+    });
+    const adapter = createLocalStorageAdapter(storage);
+
+    await adapter.replaceAll({ items: [item as never], semesters: [semester as never], currentSemesterId: "spring" });
+    expect(storage.getItem("academic-dashboard:item:old")).toBeNull();
+    expect(storage.getItem("academic-dashboard:item:item-1")).not.toBeNull();
+
+    await adapter.clear();
+    expect(storage.keys()).toEqual(Object.keys(unrelated).sort());
+  });
+});
@@ -0,0 +1,242 @@
+import type { QuarantinedRecord, RawSnapshot, StoredSnapshot } from "./schema";
+import { CURRENT_SCHEMA_VERSION, storageEnvelopeSchema } from "./schema";
+import { migrateSnapshot } from "./migrations";
+import type { LoadSnapshotResult, StorageAdapter, StorageChangeSet } from "./adapter";
+
+// Each record lives under its own key so a change rewrites one small value
+// instead of the whole dashboard.
+const KEY_PREFIX = "academic-dashboard:";
+const META_KEY = `${KEY_PREFIX}meta`;
+const ITEM_PREFIX = `${KEY_PREFIX}item:`;
+const SEMESTER_PREFIX = `${KEY_PREFIX}semester:`;
+export const QUARANTINE_STORAGE_KEY = "academic-dashboard-quarantine";
+
+// Older layouts, read once and then removed: a single versioned envelope, and
+// before that three unversioned keys (schema version 0).
+const ENVELOPE_KEY = "academic-dashboard-data";
+const LEGACY_ITEMS_KEY = "academic-dashboard-items";
+const LEGACY_SEMESTERS_KEY = "academic-dashboard-semesters";
+const LEGACY_CURRENT_SEMESTER_KEY = "academic-dashboard-current-semester";
+
+interface StoredMeta {
+  version: number;
+  savedAt: string;
+  currentSemesterId: string;
+}
+
+function parseJson(text: string | null): unknown {
+  return text === null ? undefined : JSON.parse(text);
+}
+
+function keysWithPrefix(storage: Storage, prefix: string): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  return keys;
+}
+
+function readRecords(
+  storage: Storage,
+  prefix: string,
+  kind: "item" | "semester",
+  version: number,
+  quarantined: QuarantinedRecord[]
+): unknown[] {
+  const records: unknown[] = [];
+  for (const key of keysWithPrefix(storage, prefix)) {
+    const text = storage.getItem(key);
+    try {
+      records.push(parseJson(text));
+    } catch (error) {
+      quarantined.push({
+        kind,
+        fromVersion: version,
+        reason: error instanceof Error ? error.message : String(error),
+        raw: text,
+        quarantinedAt: new Date().toISOString(),
+      });
+      storage.removeItem(key);
+    }
+  }
+  return records;
+}
+
+function readPerRecordLayout(storage: Storage, quarantined: QuarantinedRecord[]): RawSnapshot | null {
+  const meta = parseJson(storage.getItem(META_KEY)) as StoredMeta | undefined;
+  if (!meta) return null;
+  return {
+    version: meta.version,
+    items: readRecords(storage, ITEM_PREFIX, "item", meta.version, quarantined),
+    semesters: readRecords(storage, SEMESTER_PREFIX, "semester", meta.version, quarantined),
+    currentSemesterId: meta.currentSemesterId,
+  };
+}
+
+function readEnvelopeLayout(storage: Storage): RawSnapshot | null {
+  const stored = storage.getItem(ENVELOPE_KEY);
+  if (stored === null) return null;
+  const envelope = storageEnvelopeSchema.parse(JSON.parse(stored));
+  return {
+    version: envelope.version,
+    items: envelope.items,
+    semesters: envelope.semesters,
+    currentSemesterId: envelope.currentSemesterId,
+  };
+}
+
+function readLegacyLayout(storage: Storage): RawSnapshot | null {
+  const items = storage.getItem(LEGACY_ITEMS_KEY);
+  const semesters = storage.getItem(LEGACY_SEMESTERS_KEY);
+  if (items === null && semesters === null) return null;
+
+  const parsedItems = parseJson(items);
+  const parsedSemesters = parseJson(semesters);
+  return {
+    version: 0,
+    items: Array.isArray(parsedItems) ? parsedItems : [],
+    semesters: Array.isArray(parsedSemesters) ? parsedSemesters : [],
+    currentSemesterId: storage.getItem(LEGACY_CURRENT_SEMESTER_KEY),
+  };
+}
+
+function clearOlderLayouts(storage: Storage) {
+  storage.removeItem(ENVELOPE_KEY);
+  storage.removeItem(LEGACY_ITEMS_KEY);
+  storage.removeItem(LEGACY_SEMESTERS_KEY);
+  storage.removeItem(LEGACY_CURRENT_SEMESTER_KEY);
+}
+
+function rawStoredText(storage: Storage): unknown {
+  return {
+    meta: storage.getItem(META_KEY),
+    envelope: storage.getItem(ENVELOPE_KEY),
+    items: storage.getItem(LEGACY_ITEMS_KEY),
+    semesters: storage.getItem(LEGACY_SEMESTERS_KEY),
+  };
+}
+
+function loadQuarantineSync(storage: Storage): QuarantinedRecord[] {
+  try {
+    const parsed = parseJson(storage.getItem(QUARANTINE_STORAGE_KEY));
+    return Array.isArray(parsed) ? (parsed as QuarantinedRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function appendQuarantine(storage: Storage, records: QuarantinedRecord[]) {
+  if (records.length === 0) return;
+  try {
+    storage.setItem(
+      QUARANTINE_STORAGE_KEY,
+      JSON.stringify([...loadQuarantineSync(storage), ...records])
+    );
+  } catch (error) {
+    console.error("Failed to write quarantined records:", error);
+  }
+}
+
+function writeMeta(storage: Storage, currentSemesterId: string) {
+  const meta: StoredMeta = {
+    version: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    currentSemesterId,
+  };
+  storage.setItem(META_KEY, JSON.stringify(meta));
+}
+
+function readCurrentSemesterId(storage: Storage): string {
+  try {
+    const meta = parseJson(storage.getItem(META_KEY)) as StoredMeta | undefined;
+    return meta?.currentSemesterId ?? "";
+  } catch {
+    return "";
+  }
+}
+
+// Other modules keep their own state under KEY_PREFIX (the sync outbox,
+// settings, saved templates), so only the dashboard's own keys are removed.
+function removeAllRecords(storage: Storage) {
+  for (const key of [...keysWithPrefix(storage, ITEM_PREFIX), ...keysWithPrefix(storage, SEMESTER_PREFIX)]) {
+    storage.removeItem(key);
+  }
+  storage.removeItem(META_KEY);
+}
+
+function writeAll(storage: Storage, snapshot: StoredSnapshot) {
+  removeAllRecords(storage);
+  for (const item of snapshot.items) {
+    storage.setItem(`${ITEM_PREFIX}${item.id}`, JSON.stringify(item));
+  }
+  for (const semester of snapshot.semesters) {
+    storage.setItem(`${SEMESTER_PREFIX}${semester.id}`, JSON.stringify(semester));
+  }
+  writeMeta(storage, snapshot.currentSemesterId);
+}
+
+export function createLocalStorageAdapter(storage: Storage = localStorage): StorageAdapter {
+  return {
+    kind: "local-storage",
+
+    async load(): Promise<LoadSnapshotResult> {
+      const readErrors: QuarantinedRecord[] = [];
+      try {
+        const perRecord = readPerRecordLayout(storage, readErrors);
+        const raw = perRecord ?? readEnvelopeLayout(storage) ?? readLegacyLayout(storage);
+        if (!raw) return { snapshot: null, quarantined: [] };
+
+        const { snapshot, quarantined: invalid, migrated } = migrateSnapshot(raw);
+        const quarantined = [...readErrors, ...invalid];
+        appendQuarantine(storage, quarantined);
+        if (!perRecord || migrated || quarantined.length > 0) {
+          writeAll(storage, snapshot);
+          clearOlderLayouts(storage);
+        }
+        return { snapshot, quarantined };
+      } catch (error) {
+        const record: QuarantinedRecord = {
+          kind: "snapshot",
+          fromVersion: -1,
+          reason: error instanceof Error ? error.message : String(error),
+          raw: rawStoredText(storage),
+          quarantinedAt: new Date().toISOString(),
+        };
+        const quarantined = [...readErrors, record];
+        appendQuarantine(storage, quarantined);
+        return { snapshot: null, quarantined };
+      }
+    },
+
+    async apply(changes: StorageChangeSet) {
+      for (const id of changes.deleteItemIds) {
+        storage.removeItem(`${ITEM_PREFIX}${id}`);
+      }
+      for (const item of changes.upsertItems) {
+        storage.setItem(`${ITEM_PREFIX}${item.id}`, JSON.stringify(item));
+      }
+      for (const id of changes.deleteSemesterIds) {
+        storage.removeItem(`${SEMESTER_PREFIX}${id}`);
+      }
+      for (const semester of changes.upsertSemesters) {
+        storage.setItem(`${SEMESTER_PREFIX}${semester.id}`, JSON.stringify(semester));
+      }
+      writeMeta(storage, changes.currentSemesterId ?? readCurrentSemesterId(storage));
+    },
+
+    async replaceAll(snapshot: StoredSnapshot) {
+      writeAll(storage, snapshot);
+      clearOlderLayouts(storage);
+    },
+
+    async clear() {
+      removeAllRecords(storage);
+      clearOlderLayouts(storage);
+    },
+
+    async loadQuarantine() {
+      return loadQuarantineSync(storage);
+    },
+  };
+}
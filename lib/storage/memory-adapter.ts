@@ -0,0 +1,36 @@
+import type { StoredSnapshot } from "./schema";
+import type { StorageAdapter, StorageChangeSet } from "./adapter";
+import { applyChangeSet, emptySnapshot } from "./adapter";
+
+/**
+ * Keeps everything in memory. Used during server rendering and when the browser
+ * blocks persistent storage.
+ */
+export function createMemoryAdapter(initial: StoredSnapshot | null = null): StorageAdapter {
+  let snapshot = initial;
+
+  return {
+    kind: "memory",
+
+    async load() {
+      return { snapshot: snapshot && structuredClone(snapshot), quarantined: [] };
+    },
+
+    async apply(changes: StorageChangeSet) {
+      snapshot = applyChangeSet(snapshot ?? emptySnapshot, structuredClone(changes));
+    },
+
+    async replaceAll(next: StoredSnapshot) {
+      snapshot = structuredClone(next);
+    },
+
+    async clear() {
+      snapshot = null;
+    },
+
+    // Nothing in memory was ever written by an older schema.
+    async loadQuarantine() {
+      return [];
+    },
+  };
+}
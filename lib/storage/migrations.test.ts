@@ -0,0 +1,234 @@
+import { describe, expect, it } from "vitest";
+import {
+  migrateItemV0ToV1,
+  migrateSemesterV0ToV1,
+  migrateSemesterV4ToV5,
+  migrateSemesterV7ToV8,
+  migrateSnapshot,
+  migrations,
+} from "./migrations";
+import { CURRENT_SCHEMA_VERSION } from "./schema";
+
+const legacyItem = {
+  id: "item-1",
+  title: "Homework 1",
+  class: "Calculus",
+  classCode: "MATH101",
+  type: "homework",
+  status: "completed",
+  dueDate: "2026-02-15",
+};
+
+const legacySemester = {
+  id: "spring",
+  name: "Spring 2026",
+  startDate: "2026-01-12",
+  endDate: "2026-05-08",
+  classes: [{ code: "MATH101", name: "Calculus", color: "bg-chart-1", hasLatePenalty: false }],
+  gradeWeights: {},
+};
+
+describe("migrateItemV0ToV1", () => {
+  it("turns grades saved as text into numbers", () => {
+    expect(migrateItemV0ToV1({ ...legacyItem, grade: "92.5", daysLate: "2" })).toMatchObject({
+      grade: 92.5,
+      daysLate: 2,
+    });
+  });
+
+  it("drops grades that aren't numbers", () => {
+    expect(migrateItemV0ToV1({ ...legacyItem, grade: "A-" })).toMatchObject({ grade: undefined });
+  });
+
+  it("falls back to defaults for unknown status and type and a missing title", () => {
+    const { title, ...untitled } = legacyItem;
+    expect(migrateItemV0ToV1({ ...untitled, status: "done", type: "essay" })).toMatchObject({
+      title: "",
+      status: "not-started",
+      type: "assignment",
+    });
+  });
+
+  it("throws for records that aren't items", () => {
+    expect(() => migrateItemV0ToV1({ ...legacyItem, id: "" })).toThrow("Item has no id");
+    expect(() => migrateItemV0ToV1(null)).toThrow("Expected item to be an object");
+    expect(() => migrateItemV0ToV1([legacyItem])).toThrow("Expected item to be an object");
+  });
+});
+
+describe("migrateSemesterV0ToV1", () => {
+  it("fills in missing classes, late penalties and weights", () => {
+    expect(
+      migrateSemesterV0ToV1({
+        ...legacySemester,
+        classes: [{ code: "CS200", name: "Data Structures", color: "bg-chart-2" }],
+        gradeWeights: null,
+      })
+    ).toMatchObject({
+      classes: [{ code: "CS200", hasLatePenalty: false }],
+      gradeWeights: {},
+    });
+    expect(migrateSemesterV0ToV1({ ...legacySemester, classes: undefined })).toMatchObject({ classes: [] });
+  });
+
+  it("only keeps a late penalty that is exactly true", () => {
+    const migrated = migrateSemesterV0ToV1({
+      ...legacySemester,
+      classes: [
+        { ...legacySemester.classes[0], hasLatePenalty: true },
+        { ...legacySemester.classes[0], code: "CS200", hasLatePenalty: "yes" },
+      ],
+    }) as typeof legacySemester;
+    expect(migrated.classes.map((c) => c.hasLatePenalty)).toEqual([true, false]);
+  });
+
+  it("throws for classes that aren't objects", () => {
+    expect(() => migrateSemesterV0ToV1({ ...legacySemester, classes: ["MATH101"] })).toThrow(
+      "Expected class to be an object"
+    );
+  });
+});
+
+describe("migrateSemesterV4ToV5", () => {
+  it("spells out the old 10% per day penalty as a policy", () => {
+    const migrated = migrateSemesterV4ToV5({
+      ...legacySemester,
+      classes: [
+        { ...legacySemester.classes[0], hasLatePenalty: true },
+        { ...legacySemester.classes[0], code: "CS200", hasLatePenalty: false },
+      ],
+    });
+    const [penalized, unpenalized] = (migrated as { classes: Record<string, unknown>[] }).classes;
+    expect(penalized.latePolicy).toEqual({ amount: 10, unit: "percent", per: "day" });
+    expect(unpenalized).not.toHaveProperty("latePolicy");
+  });
+
+  it("keeps a policy the class already has", () => {
+    const latePolicy = { amount: 5, unit: "points", per: "hour" };
+    const migrated = migrateSemesterV4ToV5({
+      ...legacySemester,
+      classes: [{ ...legacySemester.classes[0], hasLatePenalty: true, latePolicy }],
+    });
+    expect(migrated).toMatchObject({ classes: [{ latePolicy }] });
+  });
+});
+
+describe("migrateSemesterV7ToV8", () => {
+  it("turns kill-switch text into a required final", () => {
+    const migrated = migrateSemesterV7ToV8({
+      ...legacySemester,
+      classes: [{ ...legacySemester.classes[0], killSwitch: "Must take the final" }],
+    }) as { classes: Record<string, unknown>[] };
+    expect(migrated.classes[0]).not.toHaveProperty("killSwitch");
+    expect(migrated.classes[0].passConditions).toEqual([
+      { id: "final-required", scope: "final", min: 0, consequence: "fail", note: "Must take the final" },
+    ]);
+  });
+
+  it("drops an empty kill switch without adding conditions", () => {
+    const migrated = migrateSemesterV7ToV8({
+      ...legacySemester,
+      classes: [{ ...legacySemester.classes[0], killSwitch: "" }],
+    }) as { classes: Record<string, unknown>[] };
+    expect(migrated.classes[0]).not.toHaveProperty("killSwitch");
+    expect(migrated.classes[0]).not.toHaveProperty("passConditions");
+  });
+});
+
+describe("migrations", () => {
+  it("has exactly one step for every version below the current one", () => {
+    expect(migrations.map((m) => m.from)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, version) => version)
+    );
+  });
+});
+
+describe("migrateSnapshot", () => {
+  it("runs every step from an unversioned snapshot", () => {
+    const { snapshot, quarantined, migrated } = migrateSnapshot({
+      version: 0,
+      items: [{ ...legacyItem, grade: "88" }],
+      semesters: [
+        {
+          ...legacySemester,
+          classes: [{ ...legacySemester.classes[0], hasLatePenalty: true, killSwitch: "Final required" }],
+        },
+      ],
+      currentSemesterId: "spring",
+    });
+
+    expect(migrated).toBe(true);
+    expect(quarantined).toEqual([]);
+    expect(snapshot.currentSemesterId).toBe("spring");
+    expect(snapshot.items).toEqual([{ ...legacyItem, grade: 88 }]);
+    expect(snapshot.semesters[0].classes[0]).toMatchObject({
+      hasLatePenalty: true,
+      latePolicy: { amount: 10, unit: "percent", per: "day" },
+      passConditions: [{ scope: "final", note: "Final required" }],
+    });
+    expect(snapshot.semesters[0].classes[0]).not.toHaveProperty("killSwitch");
+  });
+
+  it("runs only the steps after the stored version", () => {
+    // A v5 class with a late penalty and no policy chose no policy; v4 -> v5 must not run again
+    const { snapshot } = migrateSnapshot({
+      version: 5,
+      items: [],
+      semesters: [
+        {
+          ...legacySemester,
+          classes: [{ ...legacySemester.classes[0], hasLatePenalty: true, killSwitch: "Final required" }],
+        },
+      ],
+      currentSemesterId: "spring",
+    });
+    expect(snapshot.semesters[0].classes[0].latePolicy).toBeUndefined();
+    expect(snapshot.semesters[0].classes[0].passConditions).toHaveLength(1);
+  });
+
+  it("leaves current snapshots as they are", () => {
+    const { snapshot, migrated } = migrateSnapshot({
+      version: CURRENT_SCHEMA_VERSION,
+      items: [legacyItem],
+      semesters: [legacySemester],
+      currentSemesterId: "spring",
+    });
+    expect(migrated).toBe(false);
+    expect(snapshot.items).toEqual([legacyItem]);
+    expect(snapshot.semesters).toEqual([legacySemester]);
+  });
+
+  it("quarantines invalid records and keeps the rest", () => {
+    const noId = { ...legacyItem, id: undefined };
+    const badDate = { ...legacyItem, id: "item-2", dueDate: 20260215 };
+    const badSemester = { ...legacySemester, id: "" };
+    const { snapshot, quarantined } = migrateSnapshot({
+      version: 0,
+      items: [legacyItem, noId, badDate],
+      semesters: [legacySemester, badSemester],
+      currentSemesterId: 42,
+    });
+
+    expect(snapshot.items.map((item) => item.id)).toEqual(["item-1"]);
+    expect(snapshot.semesters.map((semester) => semester.id)).toEqual(["spring"]);
+    expect(snapshot.currentSemesterId).toBe("");
+    expect(quarantined).toHaveLength(3);
+    expect(quarantined.map(({ kind, fromVersion, raw }) => ({ kind, fromVersion, raw }))).toEqual([
+      { kind: "item", fromVersion: 0, raw: noId },
+      { kind: "item", fromVersion: 0, raw: badDate },
+      { kind: "semester", fromVersion: 0, raw: badSemester },
+    ]);
+    expect(quarantined[0].reason).toBe("Item has no id");
+  });
+
+  it("rejects snapshots from a newer schema version", () => {
+    expect(() =>
+      migrateSnapshot({
+        version: CURRENT_SCHEMA_VERSION + 1,
+        items: [legacyItem],
+        semesters: [],
+        currentSemesterId: "",
+      })
+    ).toThrow(`newer than supported version ${CURRENT_SCHEMA_VERSION}`);
+  });
+});
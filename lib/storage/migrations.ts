@@ -0,0 +1,247 @@
+import type { StoredSnapshot, RawSnapshot, QuarantinedRecord } from "./schema";
+import {
+  CURRENT_SCHEMA_VERSION,
+  academicItemSchema,
+  semesterSchema,
+} from "./schema";
+
+/**
+ * One upgrade step from `from` to `from + 1`. Each record is migrated on its
+ * own so a single bad record is quarantined instead of failing the whole load.
+ * A step throws when a record cannot be upgraded.
+ */
+export interface Migration {
+  from: number;
+  description: string;
+  migrateItem?: (raw: unknown) => unknown;
+  migrateSemester?: (raw: unknown) => unknown;
+}
+
+function asRecord(raw: unknown, kind: string): Record<string, unknown> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`Expected ${kind} to be an object`);
+  }
+  return raw as Record<string, unknown>;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number.parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+const LEGACY_STATUSES = new Set(["not-started", "in-progress", "completed"]);
+const LEGACY_TYPES = new Set(["assignment", "quiz", "exam", "project", "lecture", "homework"]);
+
+// v0 is the unversioned format: raw arrays written straight to localStorage.
+// Grades typed into older builds could be saved as strings, and status/type
+// were never checked on load.
+export function migrateItemV0ToV1(raw: unknown): unknown {
+  const item = asRecord(raw, "item");
+  if (typeof item.id !== "string" || !item.id) {
+    throw new Error("Item has no id");
+  }
+  return {
+    ...item,
+    title: typeof item.title === "string" ? item.title : "",
+    status: LEGACY_STATUSES.has(item.status as string) ? item.status : "not-started",
+    type: LEGACY_TYPES.has(item.type as string) ? item.type : "assignment",
+    grade: toOptionalNumber(item.grade),
+    daysLate: toOptionalNumber(item.daysLate),
+  };
+}
+
+export function migrateSemesterV0ToV1(raw: unknown): unknown {
+  const semester = asRecord(raw, "semester");
+  const classes = Array.isArray(semester.classes) ? semester.classes : [];
+  return {
+    ...semester,
+    classes: classes.map((c) => {
+      const cls = asRecord(c, "class");
+      return { ...cls, hasLatePenalty: cls.hasLatePenalty === true };
+    }),
+    gradeWeights:
+      typeof semester.gradeWeights === "object" && semester.gradeWeights !== null
+        ? semester.gradeWeights
+        : {},
+  };
+}
+
+// Classes with a late penalty used to get a fixed 10% per day; spell that out
+// as their policy so it keeps applying once policies become editable.
+export function migrateSemesterV4ToV5(raw: unknown): unknown {
+  const semester = asRecord(raw, "semester");
+  const classes = Array.isArray(semester.classes) ? semester.classes : [];
+  return {
+    ...semester,
+    classes: classes.map((c) => {
+      const cls = asRecord(c, "class");
+      return cls.hasLatePenalty === true && cls.latePolicy === undefined
+        ? { ...cls, latePolicy: { amount: 10, unit: "percent", per: "day" } }
+        : cls;
+    }),
+  };
+}
+
+// The free-text kill switch only ever meant "the final must be taken"; turn it
+// into a structured pass condition on the final and keep the text as its note.
+export function migrateSemesterV7ToV8(raw: unknown): unknown {
+  const semester = asRecord(raw, "semester");
+  const classes = Array.isArray(semester.classes) ? semester.classes : [];
+  return {
+    ...semester,
+    classes: classes.map((c) => {
+      const { killSwitch, ...cls } = asRecord(c, "class");
+      if (typeof killSwitch !== "string" || !killSwitch) return cls;
+      return {
+        ...cls,
+        passConditions: [
+          { id: "final-required", scope: "final", min: 0, consequence: "fail", note: killSwitch },
+        ],
+      };
+    }),
+  };
+}
+
+export const migrations: Migration[] = [
+  {
+    from: 0,
+    description: "Normalize unversioned localStorage records",
+    migrateItem: migrateItemV0ToV1,
+    migrateSemester: migrateSemesterV0ToV1,
+  },
+  {
+    // Only adds the optional `deletedAt` trash timestamp, so records pass through as-is.
+    from: 1,
+    description: "Add soft-delete timestamps for the trash",
+  },
+  {
+    // Only adds optional points and grading-mode fields; percent grades keep working.
+    from: 2,
+    description: "Add points-based grading",
+  },
+  {
+    // Only adds optional drop-lowest counts and replacement rules.
+    from: 3,
+    description: "Add drop-lowest and replace-lowest grading rules",
+  },
+  {
+    from: 4,
+    description: "Add configurable late-penalty policies",
+    migrateSemester: migrateSemesterV4ToV5,
+  },
+  {
+    // Only adds an optional grade scale; classes without one keep the standard scale.
+    from: 5,
+    description: "Add per-class letter-grade scales",
+  },
+  {
+    // Only adds optional credit hours; classes without them count as 3 credits.
+    from: 6,
+    description: "Add credit hours for GPA",
+  },
+  {
+    from: 7,
+    description: "Replace kill-switch text with structured pass conditions",
+    migrateSemester: migrateSemesterV7ToV8,
+  },
+  {
+    // Only adds the optional extra-credit flag, the bonus category and a per-class cap.
+    from: 8,
+    description: "Add extra credit and bonus points",
+  },
+  {
+    // Only adds optional curves on items and categories; raw scores are untouched.
+    from: 9,
+    description: "Add grade curves",
+  },
+  {
+    // Only adds the optional grade history; existing grades count from their due date.
+    from: 10,
+    description: "Add grade change history",
+  },
+];
+
+function stepsFrom(version: number): Migration[] {
+  const steps: Migration[] = [];
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    const step = migrations.find((m) => m.from === v);
+    if (!step) throw new Error(`No migration registered from schema version ${v}`);
+    steps.push(step);
+  }
+  return steps;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function upgradeRecords<T>(
+  records: unknown[],
+  kind: "item" | "semester",
+  version: number,
+  steps: Migration[],
+  validate: (raw: unknown) => { success: true; data: T } | { success: false; error: { message: string } },
+  quarantined: QuarantinedRecord[]
+): T[] {
+  const upgraded: T[] = [];
+  const now = new Date().toISOString();
+
+  for (const raw of records) {
+    try {
+      let current = raw;
+      for (const step of steps) {
+        const migrate = kind === "item" ? step.migrateItem : step.migrateSemester;
+        if (migrate) current = migrate(current);
+      }
+      const result = validate(current);
+      if (!result.success) {
+        quarantined.push({ kind, fromVersion: version, reason: result.error.message, raw, quarantinedAt: now });
+        continue;
+      }
+      upgraded.push(result.data);
+    } catch (error) {
+      quarantined.push({ kind, fromVersion: version, reason: errorMessage(error), raw, quarantinedAt: now });
+    }
+  }
+
+  return upgraded;
+}
+
+export interface MigrationResult {
+  snapshot: StoredSnapshot;
+  quarantined: QuarantinedRecord[];
+  migrated: boolean;
+}
+
+/**
+ * Upgrades a raw snapshot to CURRENT_SCHEMA_VERSION and validates every record.
+ * Throws when the snapshot itself is unusable (e.g. written by a newer build);
+ * records that fail individually are returned in `quarantined`.
+ */
+export function migrateSnapshot(raw: RawSnapshot): MigrationResult {
+  if (raw.version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data uses schema version ${raw.version}, newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  const steps = stepsFrom(raw.version);
+  const quarantined: QuarantinedRecord[] = [];
+
+  const items = upgradeRecords(raw.items, "item", raw.version, steps, (r) => academicItemSchema.safeParse(r), quarantined);
+  const semesters = upgradeRecords(raw.semesters, "semester", raw.version, steps, (r) => semesterSchema.safeParse(r), quarantined);
+
+  return {
+    snapshot: {
+      items,
+      semesters,
+      currentSemesterId: typeof raw.currentSemesterId === "string" ? raw.currentSemesterId : "",
+    },
+    quarantined,
+    migrated: steps.length > 0,
+  };
+}
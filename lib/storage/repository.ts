@@ -0,0 +1,134 @@
+import type { StoredSnapshot } from "./schema";
+import type { LoadSnapshotResult, StorageAdapter, StorageChangeSet } from "./adapter";
+import { applyChangeSet, diffSnapshots, emptySnapshot, isEmptyChangeSet } from "./adapter";
+import { createLocalStorageAdapter } from "./local-storage-adapter";
+import { createIndexedDBAdapter } from "./indexeddb-adapter";
+import { createMemoryAdapter } from "./memory-adapter";
+
+/**
+ * Sits between the dashboard state and a StorageAdapter. Remembers the last
+ * persisted snapshot so each `persist` call writes only what changed, and
+ * serializes writes so they land in order.
+ */
+export interface StorageRepository {
+  readonly adapter: StorageAdapter;
+  load(): Promise<LoadSnapshotResult>;
+  persist(next: StoredSnapshot): Promise<void>;
+  replaceAll(next: StoredSnapshot): Promise<void>;
+  /** Writes changes unconditionally, e.g. to re-assert a record after a sync conflict. */
+  write(changes: StorageChangeSet): Promise<void>;
+  /** Writes changes pulled from the server; listeners see them with origin "remote". */
+  applyRemote(changes: StorageChangeSet): Promise<void>;
+  /** Records changes another tab or device already wrote, so `persist` does not write them again. */
+  acknowledge(changes: StorageChangeSet): void;
+  /** Notified after every write with the changes and the snapshot they replaced. */
+  subscribe(listener: PersistListener): () => void;
+}
+
+/** "local" for edits made in this tab, "remote" for changes pulled from the server. */
+export type ChangeOrigin = "local" | "remote";
+
+export type PersistListener = (
+  changes: StorageChangeSet,
+  previous: StoredSnapshot,
+  origin: ChangeOrigin
+) => void;
+
+export function createStorageRepository(
+  primary: StorageAdapter,
+  fallback?: StorageAdapter
+): StorageRepository {
+  let adapter = primary;
+  let persisted: StoredSnapshot = emptySnapshot;
+  let queue: Promise<void> = Promise.resolve();
+  let loading: Promise<LoadSnapshotResult> | null = null;
+  const listeners = new Set<PersistListener>();
+
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => {
+      console.error(`Failed to write to ${adapter.kind} storage:`, error);
+    });
+    return queue;
+  };
+
+  const writeChanges = (changes: StorageChangeSet, origin: ChangeOrigin) => {
+    const previous = persisted;
+    persisted = applyChangeSet(previous, changes);
+    listeners.forEach((listener) => listener(changes, previous, origin));
+    return enqueue(() => adapter.apply(changes));
+  };
+
+  return {
+    get adapter() {
+      return adapter;
+    },
+
+    // Loading migrates and may move data between backends, so it only ever runs once.
+    load() {
+      loading ??= (async () => {
+        let result: LoadSnapshotResult;
+        try {
+          result = await adapter.load();
+        } catch (error) {
+          if (!fallback) throw error;
+          console.error(`Failed to open ${adapter.kind} storage, using ${fallback.kind}:`, error);
+          adapter = fallback;
+          result = await adapter.load();
+        }
+        persisted = result.snapshot ?? emptySnapshot;
+        return result;
+      })();
+      return loading;
+    },
+
+    persist(next: StoredSnapshot) {
+      const previous = persisted;
+      const changes = diffSnapshots(previous, next);
+      persisted = next;
+      if (isEmptyChangeSet(changes)) return queue;
+      listeners.forEach((listener) => listener(changes, previous, "local"));
+      return enqueue(() => adapter.apply(changes));
+    },
+
+    write(changes: StorageChangeSet) {
+      return writeChanges(changes, "local");
+    },
+
+    applyRemote(changes: StorageChangeSet) {
+      return writeChanges(changes, "remote");
+    },
+
+    acknowledge(changes: StorageChangeSet) {
+      persisted = applyChangeSet(persisted, changes);
+    },
+
+    subscribe(listener: PersistListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    replaceAll(next: StoredSnapshot) {
+      persisted = next;
+      return enqueue(() => adapter.replaceAll(next));
+    },
+  };
+}
+
+/**
+ * IndexedDB when the browser has it, then localStorage, then memory (e.g.
+ * during SSR). Server sync runs on top of this (see lib/sync/sync-engine.ts),
+ * so the dashboard keeps working offline.
+ */
+export function createDefaultStorageRepository(): StorageRepository {
+  if (typeof window === "undefined") {
+    return createStorageRepository(createMemoryAdapter());
+  }
+
+  const local = createLocalStorageAdapter(window.localStorage);
+  const browser =
+    typeof indexedDB === "undefined" ? local : createIndexedDBAdapter({ importFrom: local });
+
+  return createStorageRepository(browser, browser === local ? undefined : local);
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { AcademicItem, ClassInfo, Semester } from "../data";
+
+// Bump this whenever AcademicItem, ClassInfo or Semester change shape, and add
+// the matching step to `migrations` in ./migrations.ts.
+export const CURRENT_SCHEMA_VERSION = 11;
+
+export const itemTypeSchema = z.enum([
+  "assignment",
+  "quiz",
+  "exam",
+  "project",
+  "lecture",
+  "homework",
+]);
+
+export const itemStatusSchema = z.enum(["not-started", "in-progress", "completed"]);
+
+export const gradeCategorySchema = z.enum([
+  "exam",
+  "final",
+  "hw",
+  "quiz",
+  "project",
+  "lab",
+  "participation",
+  "bonus",
+]);
+
+export const gradingModeSchema = z.enum(["weighted", "points"]);
+
+export const gradeCurveSchema = z.object({
+  kind: z.enum(["add", "scale", "sqrt"]),
+  amount: z.number().finite().optional(),
+  topScore: z.number().finite().positive().optional(),
+});
+
+export const gradeChangeSchema = z.object({
+  at: z.string(),
+  grade: z.number().finite().optional(),
+  pointsEarned: z.number().finite().optional(),
+  pointsPossible: z.number().finite().positive().optional(),
+});
+
+export const academicItemSchema: z.ZodType<AcademicItem> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  class: z.string(),
+  classCode: z.string(),
+  type: itemTypeSchema,
+  status: itemStatusSchema,
+  dueDate: z.string(),
+  time: z.string().optional(),
+  description: z.string().optional(),
+  location: z.string().optional(),
+  grade: z.number().finite().optional(),
+  pointsEarned: z.number().finite().optional(),
+  pointsPossible: z.number().finite().positive().optional(),
+  isLate: z.boolean().optional(),
+  daysLate: z.number().finite().optional(),
+  submittedAt: z.string().optional(),
+  isFinal: z.boolean().optional(),
+  extraCredit: z.boolean().optional(),
+  curve: gradeCurveSchema.optional(),
+  gradeHistory: z.array(gradeChangeSchema).optional(),
+  gradeCategory: gradeCategorySchema.optional(),
+  semesterId: z.string().optional(),
+  deletedAt: z.string().optional(),
+});
+
+export const gradeWeightSchema = z.object({
+  weight: z.number().finite(),
+  label: z.string(),
+  dropLowest: z.number().int().nonnegative().optional(),
+  curve: gradeCurveSchema.optional(),
+});
+
+export const replacementRuleSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+  count: z.number().int().positive().optional(),
+});
+
+export const latePolicySchema = z.object({
+  amount: z.number().finite().nonnegative(),
+  unit: z.enum(["percent", "points"]),
+  per: z.enum(["day", "hour"]),
+  graceMinutes: z.number().finite().nonnegative().optional(),
+  maxPenalty: z.number().finite().nonnegative().optional(),
+  zeroAfterDays: z.number().finite().nonnegative().optional(),
+  freeLateDays: z.number().int().nonnegative().optional(),
+});
+
+export const gradeScaleSchema = z.object({
+  cutoffs: z
+    .array(
+      z.object({
+        letter: z.string().min(1),
+        min: z.number().finite(),
+        points: z.number().finite().nonnegative().optional(),
+      })
+    )
+    .min(1),
+  passFail: z.boolean().optional(),
+});
+
+export const passConditionSchema = z.object({
+  id: z.string().min(1),
+  scope: z.enum(["category", "item", "final"]),
+  category: z.string().optional(),
+  itemId: z.string().optional(),
+  min: z.number().finite(),
+  consequence: z.enum(["fail", "cap", "warn"]),
+  capAt: z.number().finite().optional(),
+  note: z.string().optional(),
+});
+
+export const classInfoSchema: z.ZodType<ClassInfo> = z.object({
+  code: z.string().min(1),
+  name: z.string(),
+  color: z.string(),
+  hasLatePenalty: z.boolean(),
+  latePolicy: latePolicySchema.optional(),
+  passConditions: z.array(passConditionSchema).optional(),
+  extraCreditCap: z.number().finite().nonnegative().optional(),
+  gradeScale: gradeScaleSchema.optional(),
+  credits: z.number().finite().nonnegative().optional(),
+  gradingMode: gradingModeSchema.optional(),
+  replacementRules: z.array(replacementRuleSchema).optional(),
+  deletedAt: z.string().optional(),
+});
+
+export const semesterSchema: z.ZodType<Semester> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  classes: z.array(classInfoSchema),
+  gradeWeights: z.record(z.string(), z.record(z.string(), gradeWeightSchema)),
+  deletedAt: z.string().optional(),
+});
+
+/** Everything the dashboard persists, independent of where it is stored. */
+export interface StoredSnapshot {
+  items: AcademicItem[];
+  semesters: Semester[];
+  currentSemesterId: string;
+}
+
+/**
+ * Snapshot as read back from storage, before migration and validation.
+ * Records are `unknown` because they may have been written by any older version.
+ */
+export interface RawSnapshot {
+  version: number;
+  items: unknown[];
+  semesters: unknown[];
+  currentSemesterId: unknown;
+}
+
+export const storageEnvelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  savedAt: z.string(),
+  items: z.array(z.unknown()),
+  semesters: z.array(z.unknown()),
+  currentSemesterId: z.unknown(),
+});
+
+export type StorageEnvelope = z.infer<typeof storageEnvelopeSchema>;
+
+/** A record that could not be migrated or validated, kept so it can be recovered by hand. */
+export interface QuarantinedRecord {
+  kind: "item" | "semester" | "snapshot";
+  fromVersion: number;
+  reason: string;
+  raw: unknown;
+  quarantinedAt: string;
+}
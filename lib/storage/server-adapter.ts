@@ -0,0 +1,104 @@
+import type { AcademicItem, Semester } from "../data";
+import type { StoredSnapshot } from "./schema";
+import type { LoadSnapshotResult, StorageAdapter, StorageChangeSet } from "./adapter";
+
+const SERVER_SYNC_KEY = "academic-dashboard:server-sync";
+// The selected semester is a per-device choice, so it stays in the browser.
+const CURRENT_SEMESTER_KEY = "academic-dashboard:server-current-semester";
+
+export function isServerSyncEnabled(): boolean {
+  try {
+    return typeof window !== "undefined" && localStorage.getItem(SERVER_SYNC_KEY) === "on";
+  } catch {
+    return false;
+  }
+}
+
+export function setServerSyncEnabled(enabled: boolean) {
+  if (enabled) localStorage.setItem(SERVER_SYNC_KEY, "on");
+  else localStorage.removeItem(SERVER_SYNC_KEY);
+}
+
+export interface ServerAdapterOptions {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export function createServerAdapter(options: ServerAdapterOptions = {}): StorageAdapter {
+  const baseUrl = options.baseUrl ?? "/api";
+  const doFetch = options.fetch ?? fetch.bind(globalThis);
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T | undefined> {
+    const response = await doFetch(`${baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    // Deleting something that is already gone (e.g. items removed along with
+    // their semester) is not an error for the dashboard.
+    if (method === "DELETE" && response.status === 404) return undefined;
+    if (!response.ok) {
+      const detail = await response.json().catch(() => null);
+      throw new Error(`${method} ${path} failed with ${response.status}${detail?.error ? `: ${detail.error}` : ""}`);
+    }
+    return response.status === 204 ? undefined : ((await response.json()) as T);
+  }
+
+  const recordPath = (collection: string, id: string) => `/${collection}/${encodeURIComponent(id)}`;
+
+  return {
+    kind: "server",
+
+    async load(): Promise<LoadSnapshotResult> {
+      const [semesters, items] = await Promise.all([
+        request<Semester[]>("GET", "/semesters"),
+        request<AcademicItem[]>("GET", "/items"),
+      ]);
+      if (!semesters?.length && !items?.length) return { snapshot: null, quarantined: [] };
+      return {
+        snapshot: {
+          items: items ?? [],
+          semesters: semesters ?? [],
+          currentSemesterId: localStorage.getItem(CURRENT_SEMESTER_KEY) ?? "",
+        },
+        quarantined: [],
+      };
+    },
+
+    async apply(changes: StorageChangeSet) {
+      // Semesters first so new items never point at a semester the server lacks.
+      for (const semester of changes.upsertSemesters) {
+        await request("PUT", recordPath("semesters", semester.id), semester);
+      }
+      for (const item of changes.upsertItems) {
+        await request("PUT", recordPath("items", item.id), item);
+      }
+      for (const id of changes.deleteItemIds) {
+        await request("DELETE", recordPath("items", id));
+      }
+      for (const id of changes.deleteSemesterIds) {
+        await request("DELETE", recordPath("semesters", id));
+      }
+      if (changes.currentSemesterId !== undefined) {
+        localStorage.setItem(CURRENT_SEMESTER_KEY, changes.currentSemesterId);
+      }
+    },
+
+    async replaceAll(snapshot: StoredSnapshot) {
+      await request("PUT", "/semesters", snapshot.semesters);
+      await request("PUT", "/items", snapshot.items);
+      localStorage.setItem(CURRENT_SEMESTER_KEY, snapshot.currentSemesterId);
+    },
+
+    async clear() {
+      await request("PUT", "/items", []);
+      await request("PUT", "/semesters", []);
+      localStorage.removeItem(CURRENT_SEMESTER_KEY);
+    },
+
+    // Records the server could not migrate stay in its data file.
+    async loadQuarantine() {
+      return [];
+    },
+  };
+}
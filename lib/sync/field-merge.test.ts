@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { AcademicItem } from "../data";
+import { resolveStaleChange } from "./field-merge";
+
+const base: AcademicItem = {
+  id: "hw-1",
+  title: "Homework 1",
+  class: "Calculus",
+  classCode: "MATH101",
+  type: "homework",
+  status: "not-started",
+  dueDate: "2026-02-15",
+};
+
+describe("resolveStaleChange edits", () => {
+  it("keeps fields each side changed on its own", () => {
+    const incoming = { ...base, status: "completed" as const };
+    const current = { ...base, dueDate: "2026-02-20" };
+    expect(resolveStaleChange(base, incoming, current)).toEqual({
+      record: { ...base, status: "completed", dueDate: "2026-02-20" },
+      conflicts: [],
+    });
+  });
+
+  it("lets the incoming value win a field both sides changed, and reports it", () => {
+    const incoming = { ...base, grade: 90 };
+    const current = { ...base, grade: 85 };
+    expect(resolveStaleChange(base, incoming, current)).toEqual({ record: { ...base, grade: 90 }, conflicts: ["grade"] });
+  });
+
+  it("does not report a field both sides changed to the same value", () => {
+    const incoming = { ...base, grade: 90 };
+    expect(resolveStaleChange(base, incoming, { ...incoming }).conflicts).toEqual([]);
+  });
+
+  it("drops a field the incoming side cleared", () => {
+    const withGrade = { ...base, grade: 90 };
+    const { record } = resolveStaleChange(withGrade, base, { ...withGrade, title: "HW 1" });
+    expect(record).toEqual({ ...base, title: "HW 1" });
+    expect(record).not.toHaveProperty("grade");
+  });
+});
+
+describe("resolveStaleChange deletes", () => {
+  it("keeps the other side's edits when deleting an edited record", () => {
+    const current = { ...base, grade: 85 };
+    expect(resolveStaleChange(base, null, current)).toEqual({ record: current, conflicts: [] });
+  });
+
+  it("deletes a record nobody else touched", () => {
+    expect(resolveStaleChange(base, null, { ...base }).record).toBeNull();
+  });
+
+  it("brings back a record someone else deleted when it is edited", () => {
+    const incoming = { ...base, status: "completed" as const };
+    expect(resolveStaleChange(base, incoming, null)).toEqual({ record: incoming, conflicts: [] });
+  });
+});
+
+describe("resolveStaleChange records on one side only", () => {
+  it("takes a record that is new on the incoming side", () => {
+    expect(resolveStaleChange(null, base, null)).toEqual({ record: base, conflicts: [] });
+  });
+
+  it("takes the incoming record when there is no shared base", () => {
+    const current = { ...base, title: "Server copy" };
+    expect(resolveStaleChange(null, base, current).record).toBe(base);
+  });
+
+  it("has nothing to delete when the record exists on neither side", () => {
+    expect(resolveStaleChange(base, null, null).record).toBeNull();
+  });
+});
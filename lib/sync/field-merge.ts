@@ -0,0 +1,53 @@
+import type { SyncRecord } from "./protocol";
+import { sameRecord } from "./tab-sync";
+
+export interface FieldMerge<T> {
+  /** Null when the record ends up deleted. */
+  record: T | null;
+  /** Fields both sides changed to different values; the incoming value won. */
+  conflicts: string[];
+}
+
+/**
+ * Three-way merge of one record. Each field takes whichever side changed it
+ * relative to `base`, so an offline status change and a server-side due date
+ * change both survive. When both sides changed the same field, `incoming` wins.
+ */
+export function mergeFields<T extends SyncRecord>(base: T, incoming: T, current: T): FieldMerge<T> {
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  const fields = new Set([...Object.keys(base), ...Object.keys(incoming), ...Object.keys(current)]);
+  const b = base as unknown as Record<string, unknown>;
+  const i = incoming as unknown as Record<string, unknown>;
+  const c = current as unknown as Record<string, unknown>;
+
+  for (const field of fields) {
+    const incomingChanged = !sameRecord(i[field], b[field]);
+    const currentChanged = !sameRecord(c[field], b[field]);
+    if (incomingChanged && currentChanged && !sameRecord(i[field], c[field])) {
+      conflicts.push(field);
+    }
+    const value = incomingChanged ? i[field] : c[field];
+    if (value !== undefined) merged[field] = value;
+  }
+
+  return { record: merged as unknown as T, conflicts };
+}
+
+/**
+ * Resolves a change whose base revision is out of date. Deleting a record
+ * someone else has since edited keeps their edits, and editing a record
+ * someone else deleted brings it back, so no edit is silently lost.
+ */
+export function resolveStaleChange<T extends SyncRecord>(
+  base: T | null,
+  incoming: T | null,
+  current: T | null
+): FieldMerge<T> {
+  if (!incoming) {
+    if (!current || sameRecord(current, base)) return { record: null, conflicts: [] };
+    return { record: current, conflicts: [] };
+  }
+  if (!current || !base) return { record: incoming, conflicts: [] };
+  return mergeFields(base, incoming, current);
+}
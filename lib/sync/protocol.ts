@@ -0,0 +1,149 @@
+import { z } from "zod";
+import type { AcademicItem, Semester } from "../data";
+import { academicItemSchema, semesterSchema } from "../storage/schema";
+
+/**
+ * Wire format for POST /api/sync. The client sends its queued changes and the
+ * last change-log sequence number it has seen (its cursor); the server applies
+ * the changes, merging field by field where the client's base revision is
+ * stale, and answers with every log entry after the cursor.
+ */
+
+export type RecordKind = "item" | "semester";
+export type SyncRecord = AcademicItem | Semester;
+
+export interface RevisionMap {
+  items: Record<string, number>;
+  semesters: Record<string, number>;
+}
+
+export interface ChangeLogEntry {
+  seq: number;
+  kind: RecordKind;
+  id: string;
+  revision: number;
+  /** Null when the record was deleted. */
+  record: SyncRecord | null;
+  clientId?: string;
+  changeId?: string;
+  at: string;
+}
+
+/** A queued local change. `base` is the record as of `baseRevision`, used for field merges. */
+export interface PendingChange {
+  changeId: string;
+  kind: RecordKind;
+  id: string;
+  baseRevision: number;
+  base: SyncRecord | null;
+  record: SyncRecord | null;
+}
+
+export interface SyncRequest {
+  clientId: string;
+  /** Null asks for a full snapshot instead of log entries. */
+  cursor: number | null;
+  changes: PendingChange[];
+}
+
+/** Fields both sides changed; the incoming change won, the other value is reported. */
+export interface FieldMergeReport {
+  kind: RecordKind;
+  id: string;
+  fields: string[];
+  /** The server's values for `fields` before the merge. */
+  overwritten: Record<string, unknown>;
+}
+
+/** A sent change the server would not store, e.g. a record that fails validation. */
+export interface RejectedChange {
+  changeId: string;
+  kind: RecordKind;
+  id: string;
+  reason: string;
+}
+
+export interface SyncSnapshot {
+  items: AcademicItem[];
+  semesters: Semester[];
+  revisions: RevisionMap;
+}
+
+export interface SyncResponse {
+  cursor: number;
+  entries: ChangeLogEntry[];
+  /** Present when the cursor was null or older than the retained log. */
+  snapshot?: SyncSnapshot;
+  /** Revision each sent change ended up at, keyed by changeId. */
+  applied: Record<string, number>;
+  merges: FieldMergeReport[];
+  /** Changes left out because they were invalid; the rest of the batch still applies. */
+  rejected: RejectedChange[];
+}
+
+const syncRecordSchema = z.union([academicItemSchema, semesterSchema]);
+
+export const pendingChangeSchema = z
+  .object({
+    changeId: z.string().min(1),
+    kind: z.enum(["item", "semester"]),
+    id: z.string().min(1),
+    baseRevision: z.number().int().nonnegative(),
+    base: syncRecordSchema.nullable(),
+    record: syncRecordSchema.nullable(),
+  })
+  .superRefine((change, ctx) => {
+    const schema = change.kind === "item" ? academicItemSchema : semesterSchema;
+    for (const field of ["base", "record"] as const) {
+      const value = change[field];
+      if (value && !schema.safeParse(value).success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Not a valid ${change.kind}` });
+      }
+      if (value && value.id !== change.id) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field, "id"], message: "Does not match change id" });
+      }
+    }
+  });
+
+// Only what is needed to name a change; the rest is checked change by change
+const changeEnvelopeSchema = z
+  .object({
+    changeId: z.string().min(1),
+    kind: z.enum(["item", "semester"]),
+    id: z.string().min(1),
+  })
+  .passthrough();
+
+/** A sync request as received, before its changes are validated one by one. */
+export const syncRequestSchema = z.object({
+  clientId: z.string().min(1),
+  cursor: z.number().int().nonnegative().nullable(),
+  changes: z.array(changeEnvelopeSchema),
+});
+
+/**
+ * Splits received changes into valid ones and rejected ones, so a single
+ * invalid record (say a grade that was NaN and arrived as null) doesn't keep
+ * the rest of the outbox from syncing.
+ */
+export function partitionChanges(changes: z.infer<typeof changeEnvelopeSchema>[]): {
+  accepted: PendingChange[];
+  rejected: RejectedChange[];
+} {
+  const accepted: PendingChange[] = [];
+  const rejected: RejectedChange[] = [];
+  for (const change of changes) {
+    const result = pendingChangeSchema.safeParse(change);
+    if (result.success) {
+      accepted.push(result.data);
+      continue;
+    }
+    rejected.push({
+      changeId: change.changeId,
+      kind: change.kind,
+      id: change.id,
+      reason: result.error.issues.map((issue) => `${issue.path.join(".") || "change"}: ${issue.message}`).join("; "),
+    });
+  }
+  return { accepted, rejected };
+}
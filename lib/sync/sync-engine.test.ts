@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { MapStorage } from "@/test/map-storage";
+import type { AcademicItem } from "../data";
+import type { StoredSnapshot } from "../storage/schema";
+import { partitionChanges, syncRequestSchema, type SyncRequest, type SyncResponse } from "./protocol";
+import { createSyncEngine } from "./sync-engine";
+
+const item = (id: string, grade?: number): AcademicItem => ({
+  id,
+  title: id,
+  class: "Calculus",
+  classCode: "MATH101",
+  type: "quiz",
+  status: "completed",
+  dueDate: "2026-02-15",
+  grade,
+});
+
+const empty: StoredSnapshot = { items: [], semesters: [], currentSemesterId: "" };
+
+/** A server that validates like /api/sync and stores nothing. */
+function fakeServer() {
+  const requests: SyncRequest[] = [];
+  const fetch = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+    const { changes, ...body } = syncRequestSchema.parse(JSON.parse(String(init?.body)));
+    const { accepted, rejected } = partitionChanges(changes);
+    requests.push({ ...body, changes: accepted });
+    const response: SyncResponse = { cursor: 1, entries: [], applied: {}, merges: [], rejected };
+    return new Response(JSON.stringify(response), { status: 200 });
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, requests };
+}
+
+describe("partitionChanges", () => {
+  it("rejects only the changes whose records are invalid", () => {
+    const good = { changeId: "c1", kind: "item" as const, id: "a", baseRevision: 0, base: null, record: item("a", 90) };
+    const bad = { ...good, changeId: "c2", id: "b", record: { ...item("b"), grade: null } };
+    const { accepted, rejected } = partitionChanges([good, bad]);
+    expect(accepted.map((c) => c.changeId)).toEqual(["c1"]);
+    expect(rejected).toEqual([{ changeId: "c2", kind: "item", id: "b", reason: expect.stringContaining("record") }]);
+  });
+});
+
+describe("sync engine push", () => {
+  it("sets refused changes aside and keeps syncing the rest", async () => {
+    const storage = new MapStorage();
+    const server = fakeServer();
+    const onRejected = vi.fn();
+    const local: StoredSnapshot = { ...empty, items: [item("a", 90), item("b", Number.NaN)] };
+    const engine = createSyncEngine({
+      getLocal: () => local,
+      onRemoteChanges: vi.fn(),
+      onRejected,
+      fetch: server.fetch,
+      storage,
+    });
+
+    // NaN serializes as null, which the server's schema refuses
+    engine.enqueue({ upsertItems: local.items, deleteItemIds: [], upsertSemesters: [], deleteSemesterIds: [] }, empty);
+    await engine.flush();
+
+    expect(server.requests[0].changes.map((c) => c.id)).toEqual(["a"]);
+    expect(onRejected).toHaveBeenCalledWith([expect.objectContaining({ kind: "item", id: "b" })]);
+    expect(engine.pendingCount()).toBe(0);
+    const state = JSON.parse(storage.getItem("academic-dashboard:sync-state") ?? "{}");
+    expect(state.rejected.map((r: { change: { id: string } }) => r.change.id)).toEqual(["b"]);
+
+    // Later edits still go through
+    engine.enqueue(
+      { upsertItems: [item("c", 75)], deleteItemIds: [], upsertSemesters: [], deleteSemesterIds: [] },
+      local
+    );
+    await engine.flush();
+    expect(server.requests[1].changes.map((c) => c.id)).toEqual(["c"]);
+  });
+});
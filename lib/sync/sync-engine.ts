@@ -0,0 +1,345 @@
+import type { AcademicItem, Semester } from "../data";
+import type { StoredSnapshot } from "../storage/schema";
+import type { StorageChangeSet } from "../storage/adapter";
+import { isEmptyChangeSet } from "../storage/adapter";
+import type {
+  FieldMergeReport,
+  PendingChange,
+  RecordKind,
+  RejectedChange,
+  RevisionMap,
+  SyncRecord,
+  SyncRequest,
+  SyncResponse,
+} from "./protocol";
+import { resolveStaleChange } from "./field-merge";
+import { sameRecord } from "./tab-sync";
+
+const SYNC_STATE_KEY = "academic-dashboard:sync-state";
+const FLUSH_DELAY_MS = 500;
+const POLL_INTERVAL_MS = 30_000;
+const REJECTED_LIMIT = 50;
+
+/**
+ * Offline-first sync with the local server. Browser storage stays the source
+ * the dashboard reads from; local edits are queued in an outbox (kept in
+ * localStorage, so it survives reloads and is shared by tabs) and pushed to
+ * /api/sync whenever the server is reachable. Each push also pulls the
+ * server's change log from the last cursor, and remote changes are rebased
+ * over any edits still waiting in the outbox.
+ */
+
+interface SyncState {
+  clientId: string;
+  /** Last change-log sequence number applied here; null until the first full sync. */
+  cursor: number | null;
+  revisions: RevisionMap;
+  /** One entry per record, keyed by `${kind}:${id}`; later edits fold into it. */
+  outbox: Record<string, PendingChange>;
+  /** Changes the server refused, taken out of the outbox and kept for recovery by hand. */
+  rejected?: { change: PendingChange; reason: string; rejectedAt: string }[];
+}
+
+export type SyncStatus = "idle" | "syncing" | "offline" | "error";
+
+export interface SyncEngineOptions {
+  /** The dashboard's current records, used to decide what a pull actually changes. */
+  getLocal: () => StoredSnapshot;
+  /** Called with server changes that should be applied locally. */
+  onRemoteChanges: (changes: StorageChangeSet) => void;
+  /** Called when the server merged fields that this device and another both edited. */
+  onMerged?: (reports: FieldMergeReport[]) => void;
+  /** Called with changes the server refused; they stay local and are no longer sent. */
+  onRejected?: (rejected: RejectedChange[]) => void;
+  onStatusChange?: (status: SyncStatus, pending: number) => void;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  storage?: Storage;
+}
+
+export interface SyncEngine {
+  /** Queues a local write; `previous` is the snapshot it replaced. */
+  enqueue(changes: StorageChangeSet, previous: StoredSnapshot): void;
+  flush(): Promise<void>;
+  /** Flushes now, on reconnect and periodically. Returns a stop function. */
+  start(): () => void;
+  pendingCount(): number;
+}
+
+const recordKey = (kind: RecordKind, id: string) => `${kind}:${id}`;
+const revisionKey = (kind: RecordKind) => (kind === "item" ? "items" : "semesters");
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function readState(storage: Storage): SyncState {
+  try {
+    const raw = storage.getItem(SYNC_STATE_KEY);
+    if (raw) return JSON.parse(raw) as SyncState;
+  } catch (error) {
+    console.error("Failed to read sync state, starting over:", error);
+  }
+  return {
+    clientId: createId("client"),
+    cursor: null,
+    revisions: { items: {}, semesters: {} },
+    outbox: {},
+  };
+}
+
+function writeState(storage: Storage, state: SyncState) {
+  storage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+}
+
+/**
+ * Forgets the cursor, revisions and outbox, so the next sync replaces local
+ * records with the server's. Used when sync is switched on or off.
+ */
+export function resetSyncState(storage: Storage = localStorage) {
+  storage.removeItem(SYNC_STATE_KEY);
+}
+
+function localRecord(snapshot: StoredSnapshot, kind: RecordKind, id: string): SyncRecord | null {
+  const records: SyncRecord[] = kind === "item" ? snapshot.items : snapshot.semesters;
+  return records.find((r) => r.id === id) ?? null;
+}
+
+interface RemoteRecord {
+  kind: RecordKind;
+  id: string;
+  record: SyncRecord | null;
+  revision: number;
+}
+
+/** The latest server version of every record the response mentions. */
+function remoteRecords(response: SyncResponse, local: StoredSnapshot): RemoteRecord[] {
+  if (!response.snapshot) {
+    const latest = new Map<string, RemoteRecord>();
+    for (const entry of response.entries) {
+      latest.set(recordKey(entry.kind, entry.id), entry);
+    }
+    return Array.from(latest.values());
+  }
+
+  const { items, semesters, revisions } = response.snapshot;
+  const itemIds = new Set(items.map((i) => i.id));
+  const semesterIds = new Set(semesters.map((s) => s.id));
+  return [
+    ...items.map((record) => ({
+      kind: "item" as const,
+      id: record.id,
+      record,
+      revision: revisions.items[record.id] ?? 0,
+    })),
+    ...semesters.map((record) => ({
+      kind: "semester" as const,
+      id: record.id,
+      record,
+      revision: revisions.semesters[record.id] ?? 0,
+    })),
+    // Anything the server does not have is gone, unless it is still waiting to be sent.
+    ...local.items
+      .filter((i) => !itemIds.has(i.id))
+      .map((i) => ({ kind: "item" as const, id: i.id, record: null, revision: 0 })),
+    ...local.semesters
+      .filter((s) => !semesterIds.has(s.id))
+      .map((s) => ({ kind: "semester" as const, id: s.id, record: null, revision: 0 })),
+  ];
+}
+
+export function createSyncEngine(options: SyncEngineOptions): SyncEngine {
+  const storage = options.storage ?? localStorage;
+  const baseUrl = options.baseUrl ?? "/api";
+  const doFetch = options.fetch ?? fetch.bind(globalThis);
+  const inFlight = new Set<string>();
+  let running: Promise<void> | null = null;
+  let again = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const setStatus = (status: SyncStatus) =>
+    options.onStatusChange?.(status, Object.keys(readState(storage).outbox).length);
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void engine.flush(), FLUSH_DELAY_MS);
+  };
+
+  const queue = (
+    state: SyncState,
+    kind: RecordKind,
+    id: string,
+    record: SyncRecord | null,
+    previous: StoredSnapshot
+  ) => {
+    const key = recordKey(kind, id);
+    const existing = state.outbox[key];
+    if (!existing) {
+      state.outbox[key] = {
+        changeId: createId("change"),
+        kind,
+        id,
+        baseRevision: state.revisions[revisionKey(kind)][id] ?? 0,
+        base: localRecord(previous, kind, id),
+        record,
+      };
+      return;
+    }
+    // Created and deleted before the server ever saw it.
+    if (!record && !existing.base && existing.baseRevision === 0 && !inFlight.has(existing.changeId)) {
+      delete state.outbox[key];
+      return;
+    }
+    state.outbox[key] = { ...existing, changeId: createId("change"), record };
+  };
+
+  const applyResponse = (sent: PendingChange[], response: SyncResponse) => {
+    const state = readState(storage);
+    for (const change of sent) {
+      const key = recordKey(change.kind, change.id);
+      if (state.outbox[key]?.changeId === change.changeId) delete state.outbox[key];
+    }
+    if (response.snapshot) state.revisions = { items: {}, semesters: {} };
+
+    // Refused changes left the outbox with the rest of the batch; set them aside
+    const rejected = response.rejected ?? [];
+    const rejectedKeys = new Set(rejected.map((r) => recordKey(r.kind, r.id)));
+    const sentById = new Map(sent.map((change) => [change.changeId, change]));
+    const rejectedAt = new Date().toISOString();
+    state.rejected = [
+      ...(state.rejected ?? []),
+      ...rejected.flatMap((r) => {
+        const change = sentById.get(r.changeId);
+        return change ? [{ change, reason: r.reason, rejectedAt }] : [];
+      }),
+    ].slice(-REJECTED_LIMIT);
+
+    const local = options.getLocal();
+    const changes: StorageChangeSet = {
+      upsertItems: [],
+      deleteItemIds: [],
+      upsertSemesters: [],
+      deleteSemesterIds: [],
+    };
+    for (const remote of remoteRecords(response, local)) {
+      const revisions = state.revisions[revisionKey(remote.kind)];
+      if (remote.record) revisions[remote.id] = remote.revision;
+      else delete revisions[remote.id];
+
+      const key = recordKey(remote.kind, remote.id);
+      let target = remote.record;
+      const pending = state.outbox[key];
+      if (pending) {
+        // Keep the edits made since the push started, on top of the server's version.
+        target = resolveStaleChange(pending.base, pending.record, remote.record).record;
+        state.outbox[key] = { ...pending, base: remote.record, baseRevision: remote.revision, record: target };
+      } else if (rejectedKeys.has(key)) {
+        // The local version is the only copy of the refused edit; don't replace it
+        continue;
+      }
+
+      if (sameRecord(localRecord(local, remote.kind, remote.id), target)) continue;
+      if (remote.kind === "item") {
+        if (target) changes.upsertItems.push(target as AcademicItem);
+        else changes.deleteItemIds.push(remote.id);
+      } else {
+        if (target) changes.upsertSemesters.push(target as Semester);
+        else changes.deleteSemesterIds.push(remote.id);
+      }
+    }
+
+    state.cursor = response.cursor;
+    writeState(storage, state);
+    if (!isEmptyChangeSet(changes)) options.onRemoteChanges(changes);
+    if (response.merges.length > 0) options.onMerged?.(response.merges);
+    if (rejected.length > 0) {
+      console.error("Sync refused changes:", rejected);
+      options.onRejected?.(rejected);
+    }
+  };
+
+  const push = async () => {
+    const state = readState(storage);
+    const sent = Object.values(state.outbox);
+    const body: SyncRequest = { clientId: state.clientId, cursor: state.cursor, changes: sent };
+    sent.forEach((change) => inFlight.add(change.changeId));
+    setStatus("syncing");
+
+    try {
+      let response: Response;
+      try {
+        response = await doFetch(`${baseUrl}/sync`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+      } catch {
+        // Network failure: the outbox stays put and is replayed on reconnect.
+        setStatus("offline");
+        return;
+      }
+
+      if (!response.ok) {
+        const detail = await response.json().catch(() => null);
+        console.error(`Sync failed with ${response.status}${detail?.error ? `: ${detail.error}` : ""}`);
+        setStatus("error");
+        return;
+      }
+      applyResponse(sent, (await response.json()) as SyncResponse);
+      setStatus("idle");
+    } finally {
+      sent.forEach((change) => inFlight.delete(change.changeId));
+    }
+  };
+
+  const engine: SyncEngine = {
+    enqueue(changes, previous) {
+      const state = readState(storage);
+      changes.upsertItems.forEach((item) => queue(state, "item", item.id, item, previous));
+      changes.deleteItemIds.forEach((id) => queue(state, "item", id, null, previous));
+      changes.upsertSemesters.forEach((semester) => queue(state, "semester", semester.id, semester, previous));
+      changes.deleteSemesterIds.forEach((id) => queue(state, "semester", id, null, previous));
+      writeState(storage, state);
+      schedule();
+    },
+
+    flush() {
+      if (running) {
+        again = true;
+        return running;
+      }
+      running = (async () => {
+        do {
+          again = false;
+          await push();
+        } while (again);
+      })()
+        .catch((error) => {
+          console.error("Sync failed:", error);
+          setStatus("error");
+        })
+        .finally(() => {
+          running = null;
+        });
+      return running;
+    },
+
+    start() {
+      const onOnline = () => void engine.flush();
+      window.addEventListener("online", onOnline);
+      const interval = setInterval(onOnline, POLL_INTERVAL_MS);
+      void engine.flush();
+      return () => {
+        window.removeEventListener("online", onOnline);
+        clearInterval(interval);
+        clearTimeout(timer);
+      };
+    },
+
+    pendingCount() {
+      return Object.keys(readState(storage).outbox).length;
+    },
+  };
+
+  return engine;
+}
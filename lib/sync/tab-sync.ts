@@ -0,0 +1,190 @@
+import type { AcademicItem, Semester } from "../data";
+import type { StoredSnapshot } from "../storage/schema";
+import type { StorageChangeSet } from "../storage/adapter";
+
+const CHANNEL_NAME = "academic-dashboard-sync";
+// Used as a message bus through `storage` events when BroadcastChannel is missing.
+const STORAGE_EVENT_KEY = "academic-dashboard:sync-message";
+
+/**
+ * What one tab tells the others after writing. `bases` holds each changed
+ * record as it was before the write (null for new records), which is how the
+ * receiver tells a clean update from a concurrent edit.
+ */
+export interface TabSyncMessage {
+  type: "changes";
+  tabId: string;
+  changes: StorageChangeSet;
+  bases: {
+    items: Record<string, AcademicItem | null>;
+    semesters: Record<string, Semester | null>;
+  };
+}
+
+interface RecordConflict<T> {
+  id: string;
+  local: T | null;
+  remote: T | null;
+}
+
+/** A record both sides changed from the same starting point; null means deleted. */
+export type SyncConflict =
+  | ({ kind: "item" } & RecordConflict<AcademicItem>)
+  | ({ kind: "semester" } & RecordConflict<Semester>);
+
+export interface TabChannel {
+  post(message: TabSyncMessage): void;
+  close(): void;
+}
+
+export function createTabId(): string {
+  return `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createTabChannel(onMessage: (message: TabSyncMessage) => void): TabChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue) as TabSyncMessage);
+    } catch (error) {
+      console.error("Failed to read sync message:", error);
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return {
+    post: (message) => {
+      try {
+        localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify(message));
+        localStorage.removeItem(STORAGE_EVENT_KEY);
+      } catch (error) {
+        console.error("Failed to post sync message:", error);
+      }
+    },
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+}
+
+export function createSyncMessage(
+  tabId: string,
+  changes: StorageChangeSet,
+  previous: StoredSnapshot
+): TabSyncMessage {
+  const previousItems = new Map(previous.items.map((i) => [i.id, i]));
+  const previousSemesters = new Map(previous.semesters.map((s) => [s.id, s]));
+  const itemIds = [...changes.upsertItems.map((i) => i.id), ...changes.deleteItemIds];
+  const semesterIds = [...changes.upsertSemesters.map((s) => s.id), ...changes.deleteSemesterIds];
+
+  return {
+    type: "changes",
+    tabId,
+    // The selected semester is per tab, so it is not shared.
+    changes: { ...changes, currentSemesterId: undefined },
+    bases: {
+      items: Object.fromEntries(itemIds.map((id) => [id, previousItems.get(id) ?? null])),
+      semesters: Object.fromEntries(semesterIds.map((id) => [id, previousSemesters.get(id) ?? null])),
+    },
+  };
+}
+
+export function sameRecord(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+interface RecordMerge<T> {
+  upserts: T[];
+  deletes: string[];
+  conflicts: RecordConflict<T>[];
+}
+
+function mergeRecords<T extends { id: string }>(
+  local: T[],
+  upserts: T[],
+  deletes: string[],
+  bases: Record<string, T | null>
+): RecordMerge<T> {
+  const localById = new Map(local.map((r) => [r.id, r]));
+  const result: RecordMerge<T> = { upserts: [], deletes: [], conflicts: [] };
+  const conflict = (id: string, remote: T | null) =>
+    result.conflicts.push({ id, local: localById.get(id) ?? null, remote });
+
+  for (const remote of upserts) {
+    const current = localById.get(remote.id);
+    const base = bases[remote.id] ?? null;
+    if (current && sameRecord(current, remote)) continue;
+    if (current ? sameRecord(current, base) : base === null) {
+      result.upserts.push(remote);
+    } else {
+      conflict(remote.id, remote);
+    }
+  }
+
+  for (const id of deletes) {
+    const current = localById.get(id);
+    if (!current) continue;
+    if (sameRecord(current, bases[id])) {
+      result.deletes.push(id);
+    } else {
+      conflict(id, null);
+    }
+  }
+
+  return result;
+}
+
+export interface RemoteMerge {
+  /** The part of the remote change that applies cleanly. */
+  changes: StorageChangeSet;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Splits a change from another tab into records that apply cleanly and
+ * records that both tabs edited from the same starting point.
+ */
+export function mergeRemoteChanges(local: StoredSnapshot, message: TabSyncMessage): RemoteMerge {
+  const items = mergeRecords(
+    local.items,
+    message.changes.upsertItems,
+    message.changes.deleteItemIds,
+    message.bases.items
+  );
+  const semesters = mergeRecords(
+    local.semesters,
+    message.changes.upsertSemesters,
+    message.changes.deleteSemesterIds,
+    message.bases.semesters
+  );
+
+  return {
+    changes: {
+      upsertItems: items.upserts,
+      deleteItemIds: items.deletes,
+      upsertSemesters: semesters.upserts,
+      deleteSemesterIds: semesters.deletes,
+    },
+    conflicts: [
+      ...items.conflicts.map((c) => ({ kind: "item" as const, ...c })),
+      ...semesters.conflicts.map((c) => ({ kind: "semester" as const, ...c })),
+    ],
+  };
+}
+
+/** The change that makes one side of a conflict win everywhere. */
+export function resolutionChanges(conflict: SyncConflict, keep: "local" | "remote"): StorageChangeSet {
+  const none: StorageChangeSet = { upsertItems: [], deleteItemIds: [], upsertSemesters: [], deleteSemesterIds: [] };
+  if (conflict.kind === "item") {
+    const winner = keep === "local" ? conflict.local : conflict.remote;
+    return winner ? { ...none, upsertItems: [winner] } : { ...none, deleteItemIds: [conflict.id] };
+  }
+  const winner = keep === "local" ? conflict.local : conflict.remote;
+  return winner ? { ...none, upsertSemesters: [winner] } : { ...none, deleteSemesterIds: [conflict.id] };
+}
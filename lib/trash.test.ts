@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { AcademicItem, ClassInfo, Semester } from "./data";
+import { listTrash, purgeFromTrash, restoreFromTrash, withoutTrash } from "./trash";
+
+const cls = (code: string, deletedAt?: string): ClassInfo => ({
+  code,
+  name: code,
+  color: "bg-chart-1",
+  hasLatePenalty: false,
+  deletedAt,
+});
+
+const semester = (id: string, classes: ClassInfo[], deletedAt?: string): Semester => ({
+  id,
+  name: id,
+  startDate: "2026-01-12",
+  endDate: "2026-05-08",
+  classes,
+  gradeWeights: {},
+  deletedAt,
+});
+
+const item = (id: string, classCode: string, semesterId?: string): AcademicItem => ({
+  id,
+  title: id,
+  class: classCode,
+  classCode,
+  type: "homework",
+  status: "not-started",
+  dueDate: "2026-02-15",
+  semesterId,
+});
+
+const deletedAt = "2026-03-01T00:00:00.000Z";
+
+describe("withoutTrash", () => {
+  it("hides items of a trashed class by semester id", () => {
+    const { items } = withoutTrash({
+      items: [item("a", "MATH101", "spring"), item("b", "CS200", "spring")],
+      semesters: [semester("spring", [cls("MATH101", deletedAt), cls("CS200")])],
+    });
+    expect(items.map((i) => i.id)).toEqual(["b"]);
+  });
+
+  it("hides items with no semester id once their class code is only in the trash", () => {
+    const { items } = withoutTrash({
+      items: [item("legacy", "MATH101"), item("other", "CS200")],
+      semesters: [semester("spring", [cls("MATH101", deletedAt), cls("CS200")])],
+    });
+    expect(items.map((i) => i.id)).toEqual(["other"]);
+  });
+
+  it("keeps items with no semester id while a live class has their code", () => {
+    const { items } = withoutTrash({
+      items: [item("legacy", "MATH101")],
+      semesters: [
+        semester("fall", [cls("MATH101")], deletedAt),
+        semester("spring", [cls("MATH101")]),
+      ],
+    });
+    expect(items.map((i) => i.id)).toEqual(["legacy"]);
+  });
+});
+
+describe("trash entries for items with no semester id", () => {
+  const records = {
+    items: [item("legacy", "MATH101")],
+    semesters: [semester("spring", [cls("MATH101", deletedAt)])],
+  };
+
+  it("counts them with their class", () => {
+    expect(listTrash(records)[0]).toMatchObject({ kind: "class", itemCount: 1 });
+  });
+
+  it("brings them back with their class", () => {
+    const restored = restoreFromTrash(records, [{ kind: "class", key: "spring:MATH101" }]);
+    expect(withoutTrash(restored).items).toHaveLength(1);
+  });
+
+  it("purges them with the last class that has their code", () => {
+    expect(purgeFromTrash(records, [{ kind: "class", key: "spring:MATH101" }]).items).toEqual([]);
+  });
+});
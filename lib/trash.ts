@@ -0,0 +1,233 @@
+import type { AcademicItem, Semester } from "./data";
+import type { StoredSnapshot } from "./storage/schema";
+
+/**
+ * Soft delete. Deleting an item, class or semester stamps it with `deletedAt`
+ * instead of removing it; a trashed class or semester hides its items without
+ * touching them, so restoring it brings them back. Records leave the snapshot
+ * for good only when purged, either by hand or once older than the retention
+ * period.
+ */
+
+const RETENTION_KEY = "academic-dashboard:trash-retention-days";
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90, 365];
+
+export function getTrashRetentionDays(): number {
+  try {
+    const stored = Number(localStorage.getItem(RETENTION_KEY));
+    return stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+export function setTrashRetentionDays(days: number) {
+  localStorage.setItem(RETENTION_KEY, String(days));
+}
+
+export type TrashKind = "item" | "class" | "semester";
+
+export interface TrashEntry {
+  kind: TrashKind;
+  /** Unique within the trash; classes are keyed `${semesterId}:${code}`. */
+  key: string;
+  label: string;
+  /** Where it lived, e.g. the class code and semester name. */
+  context: string;
+  deletedAt: string;
+  /** Items that come back along with a class or semester. */
+  itemCount: number;
+}
+
+type TrashRecords = Pick<StoredSnapshot, "items" | "semesters">;
+
+const classKey = (semesterId: string, code: string) => `${semesterId}:${code}`;
+
+function trashedClassKeys(semesters: Semester[]): Set<string> {
+  return new Set(
+    semesters.flatMap((s) =>
+      s.classes.filter((c) => c.deletedAt).map((c) => classKey(s.id, c.code))
+    )
+  );
+}
+
+/** Codes of the classes that are not trashed themselves or by their semester. */
+function liveClassCodes(semesters: Semester[]): Set<string> {
+  return new Set(
+    semesters.filter((s) => !s.deletedAt).flatMap((s) => s.classes.filter((c) => !c.deletedAt).map((c) => c.code))
+  );
+}
+
+/**
+ * Whether an item belongs to the class `code` of `semesterId`. Items saved
+ * before semesters had ids belong to every semester with their class code.
+ */
+const inClass = (item: AcademicItem, semesterId: string, code: string) =>
+  item.classCode === code && (item.semesterId ? item.semesterId === semesterId : true);
+
+/**
+ * True when an item is trashed itself or hidden by its trashed class or
+ * semester. An item with no semesterId is hidden once no class with its code
+ * is left outside the trash.
+ */
+function isHidden(
+  item: AcademicItem,
+  trashedSemesters: Set<string>,
+  trashedClasses: Set<string>,
+  liveCodes: Set<string>,
+  knownCodes: Set<string>
+) {
+  if (item.deletedAt) return true;
+  if (!item.semesterId) return knownCodes.has(item.classCode) && !liveCodes.has(item.classCode);
+  return (
+    trashedSemesters.has(item.semesterId) ||
+    trashedClasses.has(classKey(item.semesterId, item.classCode))
+  );
+}
+
+/** The records the dashboard shows: everything not in the trash. */
+export function withoutTrash({ items, semesters }: TrashRecords): TrashRecords {
+  const trashedSemesters = new Set(semesters.filter((s) => s.deletedAt).map((s) => s.id));
+  const trashedClasses = trashedClassKeys(semesters);
+  const liveCodes = liveClassCodes(semesters);
+  const knownCodes = new Set(semesters.flatMap((s) => s.classes.map((c) => c.code)));
+  return {
+    items: items.filter((i) => !isHidden(i, trashedSemesters, trashedClasses, liveCodes, knownCodes)),
+    semesters: semesters
+      .filter((s) => !s.deletedAt)
+      .map((s) =>
+        s.classes.some((c) => c.deletedAt)
+          ? { ...s, classes: s.classes.filter((c) => !c.deletedAt) }
+          : s
+      ),
+  };
+}
+
+/** Newest first. */
+export function listTrash({ items, semesters }: TrashRecords): TrashEntry[] {
+  const semesterNames = new Map(semesters.map((s) => [s.id, s.name]));
+  const entries: TrashEntry[] = [];
+
+  for (const semester of semesters) {
+    if (semester.deletedAt) {
+      entries.push({
+        kind: "semester",
+        key: semester.id,
+        label: semester.name,
+        context: `${semester.classes.length} class${semester.classes.length === 1 ? "" : "es"}`,
+        deletedAt: semester.deletedAt,
+        itemCount: items.filter(
+          (i) => !i.deletedAt && (i.semesterId ? i.semesterId === semester.id : semester.classes.some((c) => c.code === i.classCode))
+        ).length,
+      });
+    }
+    for (const cls of semester.classes) {
+      if (!cls.deletedAt) continue;
+      entries.push({
+        kind: "class",
+        key: classKey(semester.id, cls.code),
+        label: `${cls.code} – ${cls.name}`,
+        context: semester.name,
+        deletedAt: cls.deletedAt,
+        itemCount: items.filter((i) => inClass(i, semester.id, cls.code) && !i.deletedAt).length,
+      });
+    }
+  }
+
+  for (const item of items) {
+    if (!item.deletedAt) continue;
+    entries.push({
+      kind: "item",
+      key: item.id,
+      label: item.title,
+      context: [item.classCode, item.semesterId && semesterNames.get(item.semesterId)]
+        .filter(Boolean)
+        .join(" · "),
+      deletedAt: item.deletedAt,
+      itemCount: 0,
+    });
+  }
+
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+function selection(entries: Pick<TrashEntry, "kind" | "key">[]) {
+  const keys = (kind: TrashKind) => new Set(entries.filter((e) => e.kind === kind).map((e) => e.key));
+  return { items: keys("item"), classes: keys("class"), semesters: keys("semester") };
+}
+
+/**
+ * Takes entries out of the trash. An item whose class or semester is also in
+ * the trash brings that back too, since it would stay hidden otherwise.
+ */
+export function restoreFromTrash<S extends TrashRecords>(
+  state: S,
+  entries: Pick<TrashEntry, "kind" | "key">[]
+): S {
+  const selected = selection(entries);
+  for (const item of state.items) {
+    if (!selected.items.has(item.id)) continue;
+    for (const semester of state.semesters) {
+      if (!semester.classes.some((c) => inClass(item, semester.id, c.code))) continue;
+      selected.semesters.add(semester.id);
+      selected.classes.add(classKey(semester.id, item.classCode));
+    }
+  }
+
+  const restore = <T extends { deletedAt?: string }>(record: T, chosen: boolean): T => {
+    if (!chosen || !record.deletedAt) return record;
+    const { deletedAt: _deletedAt, ...rest } = record;
+    return rest as T;
+  };
+
+  return {
+    ...state,
+    items: state.items.map((i) => restore(i, selected.items.has(i.id))),
+    semesters: state.semesters.map((s) => {
+      const classes = s.classes.map((c) => restore(c, selected.classes.has(classKey(s.id, c.code))));
+      const changed = classes.some((c, index) => c !== s.classes[index]);
+      return restore(changed ? { ...s, classes } : s, selected.semesters.has(s.id));
+    }),
+  };
+}
+
+/** Deletes entries for good, along with the items of purged classes and semesters. */
+export function purgeFromTrash<S extends TrashRecords>(
+  state: S,
+  entries: Pick<TrashEntry, "kind" | "key">[]
+): S {
+  if (entries.length === 0) return state;
+  const selected = selection(entries);
+  const purgedClass = (semesterId: string, code: string) =>
+    selected.classes.has(classKey(semesterId, code)) || selected.semesters.has(semesterId);
+
+  const semesters = state.semesters
+    .filter((s) => !selected.semesters.has(s.id))
+    .map((s) =>
+      s.classes.some((c) => purgedClass(s.id, c.code))
+        ? { ...s, classes: s.classes.filter((c) => !purgedClass(s.id, c.code)) }
+        : s
+    );
+  // Items with no semesterId go with the last class that has their code
+  const remainingCodes = new Set(semesters.flatMap((s) => s.classes.map((c) => c.code)));
+  const purgedCodes = new Set(
+    state.semesters.flatMap((s) => s.classes.filter((c) => purgedClass(s.id, c.code)).map((c) => c.code))
+  );
+
+  return {
+    ...state,
+    items: state.items.filter((i) => {
+      if (selected.items.has(i.id)) return false;
+      if (i.semesterId) return !purgedClass(i.semesterId, i.classCode);
+      return !purgedCodes.has(i.classCode) || remainingCodes.has(i.classCode);
+    }),
+    semesters,
+  };
+}
+
+/** Purges everything trashed more than `retentionDays` ago. Returns `state` itself when nothing expired. */
+export function purgeExpired<S extends TrashRecords>(state: S, retentionDays: number, now = new Date()): S {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  return purgeFromTrash(state, listTrash(state).filter((e) => e.deletedAt < cutoff));
+}
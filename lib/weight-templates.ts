@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { regularWeightTotal, type GradeWeights } from "./grades";
+import { gradeWeightSchema } from "./storage/schema";
+
+/**
+ * Named grade-weight templates applied when a class is created or imported.
+ * The built-in templates ship with the app; saved ones live in localStorage
+ * and travel between people as JSON.
+ */
+
+export interface WeightTemplate {
+  id: string;
+  name: string;
+  weights: GradeWeights;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_TEMPLATE_ID = "standard";
+
+export const BUILT_IN_TEMPLATES: WeightTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: "Standard",
+    builtIn: true,
+    weights: {
+      exam: { weight: 0.4, label: "Exams" },
+      final: { weight: 0.25, label: "Final Exam" },
+      hw: { weight: 0.15, label: "Homework" },
+      quiz: { weight: 0.1, label: "Quizzes" },
+      project: { weight: 0.1, label: "Projects" },
+    },
+  },
+  {
+    id: "exam-heavy",
+    name: "Exam-heavy",
+    builtIn: true,
+    weights: {
+      exam: { weight: 0.5, label: "Exams" },
+      final: { weight: 0.3, label: "Final Exam" },
+      hw: { weight: 0.2, label: "Homework" },
+    },
+  },
+  {
+    id: "homework-heavy",
+    name: "Homework-heavy",
+    builtIn: true,
+    weights: {
+      hw: { weight: 0.4, label: "Homework" },
+      quiz: { weight: 0.2, label: "Quizzes" },
+      exam: { weight: 0.2, label: "Exams" },
+      final: { weight: 0.2, label: "Final Exam" },
+    },
+  },
+  {
+    id: "project-based",
+    name: "Project-based",
+    builtIn: true,
+    weights: {
+      project: { weight: 0.5, label: "Projects" },
+      hw: { weight: 0.2, label: "Homework" },
+      participation: { weight: 0.1, label: "Participation" },
+      final: { weight: 0.2, label: "Final Exam" },
+    },
+  },
+];
+
+const TEMPLATES_KEY = "academic-dashboard:weight-templates";
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1),
+  weights: z.record(z.string(), gradeWeightSchema),
+});
+
+// What an exported file holds; a bare array of templates is accepted too
+const templateFileSchema = z.union([
+  z.object({ templates: z.array(templateSchema) }),
+  z.array(templateSchema).transform((templates) => ({ templates })),
+]);
+
+export function newTemplateId(): string {
+  return `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** Templates saved on this device; unreadable entries are skipped. */
+export function getSavedTemplates(): WeightTemplate[] {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      const result = templateSchema.extend({ id: z.string().min(1) }).safeParse(entry);
+      return result.success ? [result.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function setSavedTemplates(templates: WeightTemplate[]) {
+  localStorage.setItem(
+    TEMPLATES_KEY,
+    JSON.stringify(templates.map(({ id, name, weights }) => ({ id, name, weights })))
+  );
+}
+
+/** Built-in templates first, then saved ones. */
+export function getWeightTemplates(): WeightTemplate[] {
+  return [...BUILT_IN_TEMPLATES, ...getSavedTemplates()];
+}
+
+export function findTemplate(templates: WeightTemplate[], id: string): WeightTemplate {
+  return templates.find((t) => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+}
+
+/** A fresh copy of the template's weights, safe to store on a class. */
+export function weightsFromTemplate(template: WeightTemplate): GradeWeights {
+  return Object.fromEntries(Object.entries(template.weights).map(([cat, w]) => [cat, { ...w }]));
+}
+
+/** "Exams 40 · Final Exam 25 · …" */
+export function describeTemplate(template: WeightTemplate): string {
+  return Object.values(template.weights)
+    .map((w) => `${w.label} ${Math.round(w.weight * 100)}`)
+    .join(" · ");
+}
+
+export function exportTemplates(templates: WeightTemplate[]): string {
+  return JSON.stringify(
+    { templates: templates.map(({ name, weights }) => ({ name, weights })) },
+    null,
+    2
+  );
+}
+
+/**
+ * Templates from shared JSON, with new ids. Throws with a readable message
+ * when the JSON is malformed or a template's weights don't add up to 100%.
+ */
+export function parseTemplates(json: string): WeightTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("That isn't valid JSON.");
+  }
+  const result = templateFileSchema.safeParse(data);
+  if (!result.success) throw new Error("No weight templates found in that JSON.");
+
+  return result.data.templates.map((template) => {
+    if (Math.abs(regularWeightTotal(template.weights) - 1) > 0.01) {
+      throw new Error(`Weights in "${template.name}" must add up to 100%.`);
+    }
+    return { id: newTemplateId(), name: template.name, weights: template.weights };
+  });
+}
+
+/** Saved templates plus `added`; an added template replaces a saved one of the same name. */
+export function mergeTemplates(saved: WeightTemplate[], added: WeightTemplate[]): WeightTemplate[] {
+  const names = new Set(added.map((t) => t.name.toLowerCase()));
+  return [...saved.filter((t) => !names.has(t.name.toLowerCase())), ...added];
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { AcademicItem, ClassInfo, Semester } from "./data";
+import { GRADE_SCALE_PRESETS } from "./grade-scales";
+import { termGpa } from "./gpa";
+import { projectSemester } from "./what-if";
+
+const withAPlus = GRADE_SCALE_PRESETS.find((p) => p.id === "with-a-plus")!.scale;
+
+const cls = (code: string, extra: Partial<ClassInfo>): ClassInfo => ({
+  code,
+  name: code,
+  color: "bg-chart-1",
+  hasLatePenalty: false,
+  gradingMode: "points",
+  ...extra,
+});
+
+const classes = [cls("MATH101", { gradeScale: withAPlus }), cls("CS200", { credits: 4 })];
+
+const graded = (id: string, classCode: string, grade: number): AcademicItem => ({
+  id,
+  title: id,
+  class: classCode,
+  classCode,
+  type: "exam",
+  status: "completed",
+  dueDate: "2026-03-01",
+  grade,
+  semesterId: "spring",
+});
+
+const items = [graded("a", "MATH101", 98), graded("b", "CS200", 91)];
+
+const semester: Semester = {
+  id: "spring",
+  name: "Spring 2026",
+  startDate: "2026-01-12",
+  endDate: "2026-05-08",
+  classes,
+  gradeWeights: {},
+};
+
+describe("projectSemester", () => {
+  it("caps an A+ at 4.0 on the 4.0 scale, like the GPA view", () => {
+    const { gpa } = projectSemester(items, classes, {}, "4.0");
+    expect(gpa).toBeCloseTo(termGpa(items, semester, "4.0").gpa!);
+    expect(gpa).toBeCloseTo((4 * 3 + 3.7 * 4) / 7);
+  });
+
+  it("keeps the A+ points on the 4.3 scale, like the GPA view", () => {
+    const { gpa } = projectSemester(items, classes, {}, "4.3");
+    expect(gpa).toBeCloseTo(termGpa(items, semester, "4.3").gpa!);
+    expect(gpa).toBeCloseTo((4.3 * 3 + 3.7 * 4) / 7);
+  });
+});
@@ -0,0 +1,78 @@
+import type { AcademicItem, ClassInfo } from "./data";
+import { calculateClassGrade, regularWeightTotal, withPercentScore, type GradeWeights } from "./grades";
+import { gradeScaleFor, letterFor } from "./grade-scales";
+import { DEFAULT_CREDITS, scaledPoints, type GpaScale } from "./gpa";
+
+/**
+ * What-if sandbox. Hypothetical scores and weights live here, beside the real
+ * records, and are overlaid on them only for display; nothing reaches the
+ * dashboard state until the sandbox is committed.
+ */
+
+export interface WhatIfState {
+  /** Hypothetical percent per ungraded item id. */
+  scores: Record<string, number>;
+  /** Temporary category weights per class code. */
+  weights: Record<string, GradeWeights>;
+}
+
+export const EMPTY_WHAT_IF: WhatIfState = { scores: {}, weights: {} };
+
+export function hasWhatIfChanges(state: WhatIfState): boolean {
+  return Object.keys(state.scores).length > 0 || Object.keys(state.weights).length > 0;
+}
+
+/** The records as the sandbox sees them. */
+export function applyWhatIf(
+  items: AcademicItem[],
+  gradeWeightsMap: Record<string, GradeWeights>,
+  state: WhatIfState
+) {
+  return {
+    items: items.map((item) =>
+      state.scores[item.id] !== undefined ? withPercentScore(item, state.scores[item.id]) : item
+    ),
+    gradeWeightsMap: { ...gradeWeightsMap, ...state.weights },
+  };
+}
+
+export interface SemesterProjection {
+  /** Mean of the class percents that have grades. */
+  average: number | null;
+  /** GPA points over graded classes that aren't pass/fail, weighted by credits and capped like the GPA view. */
+  gpa: number | null;
+  gradedClasses: number;
+}
+
+export function projectSemester(
+  items: AcademicItem[],
+  classList: ClassInfo[],
+  gradeWeightsMap: Record<string, GradeWeights>,
+  scale: GpaScale
+): SemesterProjection {
+  const percents: number[] = [];
+  let points = 0;
+  let credits = 0;
+  for (const classInfo of classList) {
+    const { currentGrade, failed } = calculateClassGrade(items, classInfo.code, classList, gradeWeightsMap);
+    if (currentGrade === null) continue;
+    percents.push(currentGrade);
+    const letter = letterFor(currentGrade, gradeScaleFor(classInfo), failed);
+    if (letter.points === undefined) continue;
+    const classCredits = classInfo.credits ?? DEFAULT_CREDITS;
+    points += scaledPoints(letter.points, scale) * classCredits;
+    credits += classCredits;
+  }
+  return {
+    average: percents.length > 0 ? percents.reduce((sum, v) => sum + v, 0) / percents.length : null,
+    gpa: credits > 0 ? points / credits : null,
+    gradedClasses: percents.length,
+  };
+}
+
+/** Classes whose sandbox weights don't add up to 100% and so can't be committed. */
+export function invalidWhatIfWeights(state: WhatIfState): string[] {
+  return Object.entries(state.weights)
+    .filter(([, weights]) => Math.abs(regularWeightTotal(weights) - 1) > 0.01)
+    .map(([classCode]) => classCode);
+}
@@ -0,0 +1,304 @@
+/**
+ * Reads the sheets of an .xlsx or .ods workbook in the browser. Both are zip
+ * archives of XML, so entries are inflated with the built-in
+ * DecompressionStream and read with DOMParser. Only cell values are kept;
+ * dates and times come out the way the spreadsheet importer reads them
+ * (2026-02-15, 11:59 PM) rather than as serial numbers.
+ */
+
+export type WorkbookKind = "xlsx" | "ods";
+
+export interface WorkbookRow {
+  /** 1-based row number in the sheet. */
+  line: number;
+  cells: string[];
+}
+
+export interface WorkbookSheet {
+  name: string;
+  /** Rows with at least one value, in order. */
+  rows: WorkbookRow[];
+}
+
+const DAMAGED = "This file isn't a workbook this app can read, or it is damaged.";
+
+export function workbookKind(fileName: string): WorkbookKind | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  return extension === "xlsx" || extension === "ods" ? extension : null;
+}
+
+// --- zip ---------------------------------------------------------------------
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  /** Offset of the entry's local header. */
+  offset: number;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end record sits at the very end, after a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error(DAMAGED);
+
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  if (pos === 0xffffffff) throw new Error("This workbook is too large to read here; save it as .csv instead.");
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let n = 0; n < count; n++) {
+    if (pos + 46 > bytes.length || view.getUint32(pos, true) !== DIRECTORY_ENTRY) throw new Error(DAMAGED);
+    const nameLength = view.getUint16(pos + 28, true);
+    entries.set(decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength)), {
+      method: view.getUint16(pos + 10, true),
+      compressedSize: view.getUint32(pos + 20, true),
+      offset: view.getUint32(pos + 42, true),
+    });
+    pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+  }
+  return entries;
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.offset, true) !== LOCAL_HEADER) throw new Error(DAMAGED);
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(DAMAGED);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+// --- xml ---------------------------------------------------------------------
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error(DAMAGED);
+  return doc;
+}
+
+const byTag = (node: Document | Element, name: string) => Array.from(node.getElementsByTagNameNS("*", name));
+
+const childrenNamed = (element: Element, name: string) =>
+  Array.from(element.children).filter((child) => child.localName === name);
+
+/** An attribute by local name, whatever its namespace prefix. */
+const attr = (element: Element | undefined, name: string) =>
+  element ? Array.from(element.attributes).find((a) => a.localName === name)?.value : undefined;
+
+// --- values ------------------------------------------------------------------
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${hours % 12 || 12}:${pad(minutes % 60)} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+type DateKind = "date" | "time" | "datetime";
+
+/** Whether a number format shows a date, a time, both or neither. */
+function dateKindOf(formatId: number, formatCode?: string): DateKind | null {
+  if ((formatId >= 14 && formatId <= 17) || formatId === 22) return formatId === 22 ? "datetime" : "date";
+  if ((formatId >= 18 && formatId <= 21) || (formatId >= 45 && formatId <= 47)) return "time";
+  if (!formatCode) return null;
+  // Quoted text, escapes and [Red]-style sections don't count
+  const code = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  const hasDate = /[dy]/i.test(code);
+  const hasTime = /[hs]/i.test(code);
+  return hasDate && hasTime ? "datetime" : hasDate ? "date" : hasTime ? "time" : null;
+}
+
+/** A serial day number as 2026-02-15, or as 11:59 PM for time-only formats. */
+function formatSerial(serial: number, kind: DateKind, date1904: boolean): string {
+  const days = Math.floor(serial);
+  if (kind === "time") return formatTime(Math.round((serial - days) * 1440) % 1440);
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + days * 86_400_000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function trimRow(cells: string[]): string[] {
+  let end = cells.length;
+  while (end > 0 && !cells[end - 1]) end--;
+  return cells.slice(0, end);
+}
+
+// --- xlsx --------------------------------------------------------------------
+
+async function readXlsx(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<WorkbookSheet[]> {
+  const text = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? readZipText(bytes, entry) : null;
+  };
+
+  const workbookXml = await text("xl/workbook.xml");
+  if (!workbookXml) throw new Error(DAMAGED);
+  const workbook = parseXml(workbookXml);
+  const date1904 = ["1", "true"].includes(attr(byTag(workbook, "workbookPr")[0], "date1904") ?? "");
+
+  const relsXml = await text("xl/_rels/workbook.xml.rels");
+  const targets = new Map(
+    (relsXml ? byTag(parseXml(relsXml), "Relationship") : []).map((rel) => [attr(rel, "Id"), attr(rel, "Target")])
+  );
+
+  const sharedXml = await text("xl/sharedStrings.xml");
+  // Rich text is split into runs; phonetic guides (rPh) aren't part of the value
+  const shared = sharedXml
+    ? byTag(parseXml(sharedXml), "si").map((si) =>
+        byTag(si, "t")
+          .filter((t) => t.parentElement?.localName !== "rPh")
+          .map((t) => t.textContent ?? "")
+          .join("")
+      )
+    : [];
+
+  const stylesXml = await text("xl/styles.xml");
+  let styleKinds: (DateKind | null)[] = [];
+  if (stylesXml) {
+    const styles = parseXml(stylesXml);
+    const formats = new Map(byTag(styles, "numFmt").map((f) => [Number(attr(f, "numFmtId")), attr(f, "formatCode")]));
+    const cellXfs = byTag(styles, "cellXfs")[0];
+    styleKinds = cellXfs
+      ? childrenNamed(cellXfs, "xf").map((xf) => {
+          const id = Number(attr(xf, "numFmtId") ?? 0);
+          return dateKindOf(id, formats.get(id));
+        })
+      : [];
+  }
+
+  const cellText = (cell: Element): string => {
+    const value = childrenNamed(cell, "v")[0]?.textContent ?? "";
+    switch (attr(cell, "t")) {
+      case "s":
+        return shared[Number(value)] ?? "";
+      case "inlineStr":
+        return byTag(cell, "t").map((t) => t.textContent ?? "").join("");
+      case "b":
+        return value === "1" ? "TRUE" : "FALSE";
+      case "e":
+        return "";
+      case "str":
+        return value;
+      case "d":
+        return value.slice(0, 10);
+      default: {
+        const kind = styleKinds[Number(attr(cell, "s") ?? 0)];
+        return value && kind ? formatSerial(Number(value), kind, date1904) : value;
+      }
+    }
+  };
+
+  const sheets: WorkbookSheet[] = [];
+  for (const sheet of byTag(workbook, "sheet")) {
+    const target = targets.get(attr(sheet, "id"));
+    if (!target) continue;
+    const xml = await text(target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`);
+    if (!xml) continue;
+
+    const rows: WorkbookRow[] = [];
+    for (const row of byTag(parseXml(xml), "row")) {
+      const cells: string[] = [];
+      for (const cell of childrenNamed(row, "c")) {
+        const ref = attr(cell, "r");
+        cells[ref ? columnIndex(ref) : cells.length] = cellText(cell).trim();
+      }
+      const filled = trimRow(Array.from(cells, (cell) => cell ?? ""));
+      const line = Number(attr(row, "r")) || (rows.at(-1)?.line ?? 0) + 1;
+      if (filled.length > 0) rows.push({ line, cells: filled });
+    }
+    sheets.push({ name: attr(sheet, "name") ?? `Sheet ${sheets.length + 1}`, rows });
+  }
+  return sheets;
+}
+
+// --- ods ---------------------------------------------------------------------
+
+const ODS_TABLE = "urn:oasis:names:tc:opendocument:xmlns:table:1.0";
+// Repeats past this are the sheet's empty tail, not data
+const MAX_REPEAT = 256;
+
+/** A cell paragraph's text, with ODF's space, tab and line-break elements spelled out. */
+function odsText(node: Node): string {
+  let text = "";
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) text += child.textContent ?? "";
+    else if (child.nodeType === Node.ELEMENT_NODE) {
+      const element = child as Element;
+      if (element.localName === "s") text += " ".repeat(Number(attr(element, "c")) || 1);
+      else if (element.localName === "tab") text += "\t";
+      else if (element.localName === "line-break") text += "\n";
+      else text += odsText(element);
+    }
+  });
+  return text;
+}
+
+function odsCellText(cell: Element): string {
+  switch (attr(cell, "value-type")) {
+    case "date":
+      return (attr(cell, "date-value") ?? "").slice(0, 10);
+    case "time": {
+      const time = (attr(cell, "time-value") ?? "").match(/PT(\d+)H(\d+)M/);
+      return time ? formatTime(Number(time[1]) * 60 + Number(time[2])) : "";
+    }
+    case "boolean":
+      return attr(cell, "boolean-value") === "true" ? "TRUE" : "FALSE";
+    default:
+      // Numbers, percents and strings as displayed
+      return childrenNamed(cell, "p").map(odsText).join("\n");
+  }
+}
+
+async function readOds(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<WorkbookSheet[]> {
+  const entry = entries.get("content.xml");
+  if (!entry) throw new Error(DAMAGED);
+  const content = parseXml(await readZipText(bytes, entry));
+
+  return Array.from(content.getElementsByTagNameNS(ODS_TABLE, "table")).map((table, index) => {
+    const rows: WorkbookRow[] = [];
+    let line = 0;
+    for (const row of Array.from(table.getElementsByTagNameNS(ODS_TABLE, "table-row"))) {
+      const cells: string[] = [];
+      for (const cell of Array.from(row.children)) {
+        if (cell.localName !== "table-cell" && cell.localName !== "covered-table-cell") continue;
+        const value = odsCellText(cell).trim();
+        const repeat = Math.min(Number(attr(cell, "number-columns-repeated")) || 1, MAX_REPEAT);
+        for (let i = 0; i < repeat; i++) cells.push(value);
+      }
+      const filled = trimRow(cells);
+      const repeat = Number(attr(row, "number-rows-repeated")) || 1;
+      if (filled.length > 0) {
+        for (let i = 0; i < Math.min(repeat, MAX_REPEAT); i++) rows.push({ line: line + i + 1, cells: filled });
+      }
+      line += repeat;
+    }
+    return { name: attr(table, "name") ?? `Sheet ${index + 1}`, rows };
+  });
+}
+
+/** Every sheet in the workbook, in tab order. Throws with a readable message. */
+export async function readWorkbook(data: ArrayBuffer, kind: WorkbookKind): Promise<WorkbookSheet[]> {
+  const bytes = new Uint8Array(data);
+  const entries = readZipDirectory(bytes);
+  return kind === "xlsx" ? readXlsx(bytes, entries) : readOds(bytes, entries);
+}